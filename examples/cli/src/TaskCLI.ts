@@ -8,8 +8,19 @@
 import { Command } from "commander";
 import { runTask } from "./TaskStreamToListr2";
 import "@huggingface/transformers";
-import { TaskGraph, JsonTask, TaskGraphBuilder, JsonTaskItem } from "ellmers-core";
+import {
+  TaskGraph,
+  JsonTask,
+  TaskGraphBuilder,
+  JsonTaskItem,
+  TaskRegistry,
+  TaskInput,
+  TaskOutput,
+  ConcurrencyLimiter,
+  getTaskQueueRegistry,
+} from "ellmers-core";
 import { DownloadModelTask, getGlobalModelRepository } from "ellmers-ai";
+import { getDatabase, SqliteJobQueue } from "ellmers-storage/bun/sqlite";
 import "ellmers-task";
 
 export function AddBaseCommands(program: Command) {
@@ -123,12 +134,129 @@ export function AddBaseCommands(program: Command) {
         ];
         json = JSON.stringify(exampleJson);
       }
-      const task = new JsonTask({ name: "Test JSON", input: { json } });
+      let task: JsonTask;
+      try {
+        task = new JsonTask({ name: "Test JSON", input: { json } });
+      } catch (error) {
+        console.error(`error: ${(error as Error).message}`);
+        process.exitCode = 1;
+        return;
+      }
       const graph = new TaskGraph();
       graph.addTask(task);
+      const diagnostics = graph.validate();
+      for (const diagnostic of diagnostics) {
+        const { severity, path = [], taskId, portId, message } = diagnostic;
+        const where = [...path.slice(1), taskId].join(" > ") + (portId ? `.${portId}` : "");
+        console[severity === "error" ? "error" : "warn"](`${severity}: ${where}: ${message}`);
+      }
+      if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+        process.exitCode = 1;
+        return;
+      }
       await runTask(graph);
     });
 
+  program
+    .command("schema")
+    .description("print the json schema of a task type, or of the json task format")
+    .argument("[type]", "task type, like TextRewriterTask")
+    .option("--graph", "schema of the task graph json format instead")
+    .action(async (type, options) => {
+      let schema;
+      if (type) {
+        schema = {
+          input: TaskRegistry.inputSchema(type),
+          output: TaskRegistry.outputSchema(type),
+        };
+      } else if (options.graph) {
+        schema = TaskRegistry.graphJsonSchema();
+      } else {
+        schema = TaskRegistry.jsonTaskSchema();
+      }
+      console.log(JSON.stringify(schema, null, 2));
+    });
+
+  const queueCommand = program.command("queue").description("inspect and manage job queues");
+
+  // the queues registered by this process are in memory and start out empty, so the jobs of
+  // other processes are only found in a database they share
+  const getQueue = (name: string, { db }: { db?: string }) => {
+    if (db) {
+      const queue = new SqliteJobQueue<TaskInput, TaskOutput>(
+        getDatabase(db),
+        name,
+        new ConcurrencyLimiter(1, 10)
+      );
+      queue.ensureTableExists();
+      return queue;
+    }
+    const queue = getTaskQueueRegistry().getQueue(name);
+    if (!queue) {
+      const known = Array.from(getTaskQueueRegistry().queues.keys()).join(", ");
+      program.error(`Unknown queue ${name}, known queues: ${known}`);
+    }
+    return queue!;
+  };
+
+  queueCommand
+    .command("failed")
+    .description("list permanently failed jobs")
+    .argument("<queue>", "queue name")
+    .option("--error-code <code>", "only jobs that failed with this error, like PermanentJobError")
+    .option("--since <date>", "only jobs that failed at or after this date")
+    .option("--limit <number>", "maximum number of jobs", "100")
+    .option("--db <file>", "SQLite database the queue is stored in")
+    .action(async (name, options) => {
+      const jobs = await getQueue(name, options).listFailed({
+        errorCode: options.errorCode,
+        since: options.since ? new Date(options.since) : undefined,
+        limit: Number(options.limit),
+      });
+      for (const job of jobs) {
+        console.log(
+          `${job.id}\t${job.completedAt?.toISOString() ?? ""}\t${job.errorCode}: ${job.error}`
+        );
+      }
+      if (jobs.length === 0) console.log("No failed jobs");
+    });
+
+  queueCommand
+    .command("requeue")
+    .description("put failed jobs back in the queue")
+    .argument("<queue>", "queue name")
+    .argument("[jobId]", "job to requeue, all matching failed jobs if left out")
+    .option("--error-code <code>", "only jobs that failed with this error, like PermanentJobError")
+    .option("--reset-retries", "start counting attempts from zero again")
+    .option("--db <file>", "SQLite database the queue is stored in")
+    .action(async (name, jobId, options) => {
+      const queue = getQueue(name, options);
+      const requeueOptions = { resetRetries: !!options.resetRetries };
+      if (jobId) {
+        await queue.requeue(jobId, requeueOptions);
+        console.log(`Requeued job ${jobId}`);
+      } else {
+        const count = await queue.requeueAll({ errorCode: options.errorCode }, requeueOptions);
+        console.log(`Requeued ${count} jobs`);
+      }
+    });
+
+  queueCommand
+    .command("purge")
+    .description("delete failed jobs")
+    .argument("<queue>", "queue name")
+    .requiredOption("--older-than <days>", "delete jobs that failed more than this many days ago")
+    .option("--db <file>", "SQLite database the queue is stored in")
+    .action(async (name, options) => {
+      const days = Number(options.olderThan);
+      if (Number.isNaN(days)) {
+        program.error(`Invalid number of days ${options.olderThan}`);
+      }
+      const olderThan = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const count = await getQueue(name, options).purgeFailed(olderThan);
+      console.log(`Deleted ${count} failed jobs`);
+    });
+
   program
     .command("builder")
     .description("run based on builder")
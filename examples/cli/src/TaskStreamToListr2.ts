@@ -72,7 +72,12 @@ function mapSimpleTaskNodeToListrTask(task: Task): ListrTask {
   return {
     title: task.config.name,
     task: async (ctx, t) => {
-      if (task.status == TaskStatus.COMPLETED || task.status == TaskStatus.FAILED) return;
+      if (
+        task.status == TaskStatus.COMPLETED ||
+        task.status == TaskStatus.FAILED ||
+        task.status == TaskStatus.SKIPPED
+      )
+        return;
       return new Observable((observer) => {
         const start = Date.now();
         let lastUpdate = start;
@@ -89,6 +94,9 @@ function mapSimpleTaskNodeToListrTask(task: Task): ListrTask {
         task.on("error", () => {
           observer.complete();
         });
+        task.on("skip", () => {
+          observer.complete();
+        });
       });
     },
   };
@@ -9,7 +9,7 @@ import React, { useState, useEffect } from "react";
 import CodeMirror from "@uiw/react-codemirror";
 import { vscodeDark } from "@uiw/codemirror-theme-vscode";
 import { json } from "@codemirror/lang-json";
-import { JsonTask } from "ellmers-core";
+import { JsonTask, TaskGraphDiagnostic } from "ellmers-core";
 
 import "./JsonEditor.css";
 
@@ -25,6 +25,8 @@ interface PopupProps {
 export const JsonEditor: React.FC<PopupProps> = ({ json, onJsonChange, run, running }) => {
   const [code, setCode] = useState<string>(json);
   const [isValidJSON, setIsValidJSON] = useState<boolean>(true);
+  const [diagnostics, setDiagnostics] = useState<TaskGraphDiagnostic[]>([]);
+  const [parseError, setParseError] = useState<string>("");
 
   // Function to validate JSON
   const validateJSON = (jsonString: string) => {
@@ -32,12 +34,21 @@ export const JsonEditor: React.FC<PopupProps> = ({ json, onJsonChange, run, runn
       // this will throw an error if the JSON is invalid
       JSON.parse(jsonString);
       // this will throw an error if the JSON is not a valid task graph
-      new JsonTask({ name: "Test JSON", input: { json: jsonString } });
+      const task = new JsonTask({ name: "Test JSON", input: { json: jsonString } });
+      const found = task.validateSubGraph();
+      setDiagnostics(found);
+      setParseError("");
 
+      if (found.some((diagnostic) => diagnostic.severity === "error")) {
+        setIsValidJSON(false);
+        return;
+      }
       setIsValidJSON(true);
       setCode(jsonString);
       onJsonChange(jsonString);
     } catch (error) {
+      setDiagnostics([]);
+      setParseError((error as Error).message);
       setIsValidJSON(false);
     }
   };
@@ -66,6 +77,17 @@ export const JsonEditor: React.FC<PopupProps> = ({ json, onJsonChange, run, runn
           readOnly={running}
         />
       </div>
+      {(parseError || diagnostics.length > 0) && (
+        <ul className="diagnostics mb-2 text-xs">
+          {parseError && <li className="error">{parseError}</li>}
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index} className={diagnostic.severity}>
+              {[...(diagnostic.path ?? []), diagnostic.taskId].join(" > ")}
+              {diagnostic.portId ? `.${diagnostic.portId}` : ""}: {diagnostic.message}
+            </li>
+          ))}
+        </ul>
+      )}
       <button
         disabled={!isValidJSON || running}
         onClick={run}
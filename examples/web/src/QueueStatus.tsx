@@ -5,30 +5,82 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
-import { JobStatus, getTaskQueueRegistry } from "ellmers-core";
+import {
+  JobQueueStatsBucket,
+  JobQueueWindowStats,
+  JobStatus,
+  getTaskQueueRegistry,
+} from "ellmers-core";
 import { useCallback, useEffect, useState } from "react";
 
+const STATS_WINDOW = 15 * 60 * 1000;
+const STATS_BUCKET = 60 * 1000;
+
+function formatMs(ms: number | undefined) {
+  if (ms === undefined) return "-";
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Bars of completed (green) and failed (red) runs per bucket, with retried runs in amber
+ */
+function QueueStatsChart({ buckets }: { buckets: JobQueueStatsBucket[] }) {
+  const width = 240;
+  const height = 40;
+  const barWidth = width / Math.max(1, buckets.length);
+  const max = Math.max(1, ...buckets.map((b) => b.completed + b.failed + b.retried));
+  const scale = (count: number) => (count / max) * height;
+
+  return (
+    <svg width={width} height={height} className="block">
+      {buckets.map((bucket, i) => {
+        const completed = scale(bucket.completed);
+        const retried = scale(bucket.retried);
+        const failed = scale(bucket.failed);
+        const x = i * barWidth + 1;
+        const w = Math.max(1, barWidth - 2);
+        return (
+          <g key={bucket.start.getTime()}>
+            <title>
+              {`${bucket.start.toLocaleTimeString()}: ${bucket.completed} completed, ${bucket.retried} retried, ${bucket.failed} failed, p95 ${formatMs(bucket.latency.p95)}`}
+            </title>
+            <rect x={x} y={height - completed} width={w} height={completed} fill="#22c55e" />
+            <rect
+              x={x}
+              y={height - completed - retried}
+              width={w}
+              height={retried}
+              fill="#f59e0b"
+            />
+            <rect
+              x={x}
+              y={height - completed - retried - failed}
+              width={w}
+              height={failed}
+              fill="#ef4444"
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
 export function QueueStatus({ queueType }: { queueType: string }) {
   const queue = getTaskQueueRegistry().getQueue(queueType);
-  const [pending, setPending] = useState<number>(0);
-  const [processing, setProcessing] = useState<number>(0);
-  const [completed, setCompleted] = useState<number>(0);
-  const [aborting, setAborting] = useState<number>(0);
-  const [errors, setErrors] = useState<number>(0);
+  const [stats, setStats] = useState<JobQueueWindowStats | undefined>();
 
   useEffect(() => {
     async function listen() {
-      setPending(await queue.size(JobStatus.PENDING));
-      setProcessing(await queue.size(JobStatus.PROCESSING));
-      setCompleted(await queue.size(JobStatus.COMPLETED));
-      setAborting(await queue.size(JobStatus.ABORTING));
-      setErrors(await queue.size(JobStatus.FAILED));
+      setStats(await queue.getStats({ window: STATS_WINDOW, bucketMs: STATS_BUCKET }));
     }
 
     queue.on("job_start", listen);
     queue.on("job_complete", listen);
     queue.on("job_error", listen);
     queue.on("job_aborting", listen);
+    // the stats include other tabs and workers, and the buckets move with time
+    const interval = setInterval(listen, STATS_BUCKET / 4);
     listen();
 
     return () => {
@@ -36,27 +88,44 @@ export function QueueStatus({ queueType }: { queueType: string }) {
       queue.off("job_complete", listen);
       queue.off("job_error", listen);
       queue.off("job_aborting", listen);
+      clearInterval(interval);
     };
   }, []);
 
-  const clear = useCallback(() => {
-    queue.clear();
-    setPending(0);
-    setProcessing(0);
-    setCompleted(0);
-    setAborting(0);
-    setErrors(0);
+  const clear = useCallback(async () => {
+    await queue.clear();
+    setStats(await queue.getStats({ window: STATS_WINDOW, bucketMs: STATS_BUCKET }));
   }, [queue]);
 
+  const counts = stats?.counts;
+  const errors = Object.entries(stats?.errors ?? {});
+
   return (
-    <span>
-      <span>{queue.queue}</span>: <span title="Pending">{pending}</span> /{" "}
-      <span title="Processing">{processing}</span> / <span title="Completed">{completed}</span> /{" "}
-      <span title="Aborting">{aborting}</span> / <span title="Errors">{errors}</span>
+    <div>
+      <span>{queue.queue}</span>: <span title="Pending">{counts?.[JobStatus.PENDING] ?? 0}</span> /{" "}
+      <span title="Processing">{counts?.[JobStatus.PROCESSING] ?? 0}</span> /{" "}
+      <span title="Completed">{counts?.[JobStatus.COMPLETED] ?? 0}</span> /{" "}
+      <span title="Aborting">{counts?.[JobStatus.ABORTING] ?? 0}</span> /{" "}
+      <span title="Errors">{counts?.[JobStatus.FAILED] ?? 0}</span>
       <button className="float-right" onClick={clear}>
         Clear
       </button>
-    </span>
+      {stats && (
+        <div className="text-xs">
+          <QueueStatsChart buckets={stats.buckets} />
+          <span title="Latency percentiles of the last 15 minutes">
+            p50 {formatMs(stats.latency.p50)} / p95 {formatMs(stats.latency.p95)} / p99{" "}
+            {formatMs(stats.latency.p99)}
+          </span>{" "}
+          <span title="Completed jobs per minute">{stats.throughputPerMinute.toFixed(1)}/min</span>
+          {errors.length > 0 && (
+            <div title="Errors by code">
+              {errors.map(([code, count]) => `${code}: ${count}`).join(", ")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
 
@@ -17,10 +17,16 @@ import {
   Edge,
   Position,
 } from "@xyflow/react";
-import { TurboNodeData, SingleNode, CompoundNode } from "./TurboNode";
+import { TurboNodeData, TurboNodeHandle, SingleNode, CompoundNode } from "./TurboNode";
 import TurboEdge from "./TurboEdge";
 import { FiFileText, FiClipboard, FiDownload, FiUpload } from "react-icons/fi";
-import { Task, TaskGraph } from "ellmers-core";
+import {
+  Task,
+  TaskGraph,
+  TaskInputDefinition,
+  TaskOutputDefinition,
+  ValueTypeRegistry,
+} from "ellmers-core";
 import { GraphPipelineCenteredLayout, GraphPipelineLayout, computeLayout } from "./layout";
 
 import "@xyflow/react/dist/base.css";
@@ -63,6 +69,15 @@ function sortNodes(nodes: Node<TurboNodeData>[]): Node<TurboNodeData>[] {
   return appendChildren("###root###");
 }
 
+function toHandle(def: TaskInputDefinition | TaskOutputDefinition): TurboNodeHandle {
+  return {
+    id: def.id,
+    name: def.name,
+    valueType: def.valueType,
+    color: ValueTypeRegistry.get(def.valueType)?.color,
+  };
+}
+
 function convertGraphToNodes(graph: TaskGraph): Node<TurboNodeData>[] {
   const tasks = graph.getNodes();
   const nodes = tasks.flatMap((task, index) => {
@@ -74,6 +89,8 @@ function convertGraphToNodes(graph: TaskGraph): Node<TurboNodeData>[] {
           icon: categoryIcons[(task.constructor as any).category],
           title: (task.constructor as any).type,
           subline: task.config.name,
+          inputs: task.inputs.map(toHandle),
+          outputs: task.outputs.map(toHandle),
         },
         type: task.isCompound ? "compound" : "single",
         selectable: true,
@@ -180,6 +197,9 @@ function listenToTask(
       setNodes
     );
   });
+  task.on("skip", () => {
+    updateNodeData(taskId, { active: false, progress: 100, progressText: "Skipped" }, setNodes);
+  });
   task.on("abort", (text) => {
     updateNodeData(taskId, { active: false, progress: 100, progressText: "Aborting" }, setNodes);
   });
@@ -284,6 +304,8 @@ export const RunGraphFlow: React.FC<{
             id: edge.id,
             source: source as string,
             target: target as string,
+            sourceHandle: edge.sourceTaskOutputId,
+            targetHandle: edge.targetTaskInputId,
             style: { opacity: 0 },
           };
         })
@@ -9,8 +9,17 @@ import React, { ReactNode } from "react";
 import { Handle, NodeProps, Position, Node } from "@xyflow/react";
 import { FiCloud, FiCloudLightning } from "react-icons/fi";
 
+export type TurboNodeHandle = {
+  id: string;
+  name: string;
+  valueType: string;
+  color?: string;
+};
+
 export type TurboNodeData = {
   title: string;
+  inputs?: TurboNodeHandle[];
+  outputs?: TurboNodeHandle[];
   icon?: ReactNode;
   subline?: string;
   active?: boolean;
@@ -18,6 +27,33 @@ export type TurboNodeData = {
   progressText?: string;
 };
 
+/**
+ * One handle per input or output, colored by its value type
+ */
+const TypedHandles = ({ inputs = [], outputs = [] }: Pick<TurboNodeData, "inputs" | "outputs">) => {
+  const handles = (items: TurboNodeHandle[], type: "source" | "target") =>
+    items.map((item, index) => (
+      <Handle
+        key={`${type}-${item.id}`}
+        id={item.id}
+        type={type}
+        position={type === "target" ? Position.Left : Position.Right}
+        title={`${item.name}: ${item.valueType}`}
+        className="typed"
+        style={{
+          top: `${((index + 1) / (items.length + 1)) * 100}%`,
+          background: item.color,
+        }}
+      />
+    ));
+  return (
+    <>
+      {handles(inputs, "target")}
+      {handles(outputs, "source")}
+    </>
+  );
+};
+
 export const SingleNode = ({ data }: NodeProps<Node<TurboNodeData>>) => {
   return (
     <>
@@ -30,8 +66,7 @@ export const SingleNode = ({ data }: NodeProps<Node<TurboNodeData>>) => {
               {data.subline && <div className="subline">{data.subline}</div>}
             </div>
           </div>
-          <Handle type="target" position={Position.Left} />
-          <Handle type="source" position={Position.Right} />
+          <TypedHandles inputs={data.inputs} outputs={data.outputs} />
           <div className="progress">
             {data.progress !== undefined && (
               <div className="bar" style={{ width: `${data.progress}%` }} />
@@ -59,8 +94,7 @@ export const CompoundNode = ({ data }: NodeProps<Node<TurboNodeData>>) => {
               {data.subline && <div className="subline">{data.subline}</div>}
             </div>
           </div>
-          <Handle type="target" position={Position.Left} />
-          <Handle type="source" position={Position.Right} />
+          <TypedHandles inputs={data.inputs} outputs={data.outputs} />
           <div className="progress">
             {data.progress !== undefined && (
               <div className="bar" style={{ width: `${data.progress}%` }} />
@@ -11,6 +11,7 @@ import {
 import {
   HuggingFaceLocal_DownloadRun,
   HuggingFaceLocal_EmbeddingRun,
+  HuggingFaceLocal_EmbeddingBatchRun,
   HuggingFaceLocal_TextGenerationRun,
   HuggingFaceLocal_TextQuestionAnswerRun,
   HuggingFaceLocal_TextRewriterRun,
@@ -34,6 +35,12 @@ export async function registerHuggingfaceLocalTasks() {
     HuggingFaceLocal_EmbeddingRun
   );
 
+  ProviderRegistry.registerBatchRunFn(
+    TextEmbeddingTask.type,
+    LOCAL_ONNX_TRANSFORMERJS,
+    HuggingFaceLocal_EmbeddingBatchRun
+  );
+
   ProviderRegistry.registerRunFn(
     TextGenerationTask.type,
     LOCAL_ONNX_TRANSFORMERJS,
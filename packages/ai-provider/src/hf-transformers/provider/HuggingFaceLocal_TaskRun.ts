@@ -176,6 +176,40 @@ export async function HuggingFaceLocal_EmbeddingRun(
   return { vector };
 }
 
+/**
+ * This is a task that generates embeddings for a batch of texts in one forward pass.
+ * The jobs of a batch all use the same model.
+ *
+ * Model pipeline must be "feature-extraction"
+ */
+export async function HuggingFaceLocal_EmbeddingBatchRun(
+  jobs: AiProviderJob[],
+  runInputData: TextEmbeddingTaskInput[],
+  signal?: AbortSignal
+): Promise<TextEmbeddingTaskOutput[]> {
+  const model = (await getGlobalModelRepository().findByName(runInputData[0].model))!;
+  const generateEmbedding: FeatureExtractionPipeline = await getPipeline(jobs[0], model);
+
+  const hfVectors = await generateEmbedding(
+    runInputData.map((input) => input.text),
+    {
+      pooling: "mean",
+      normalize: model.normalize,
+    }
+  );
+
+  const dimensions = hfVectors.dims[hfVectors.dims.length - 1];
+  if (dimensions !== model.nativeDimensions) {
+    throw `HuggingFaceLocal Embedding vector length does not match model dimensions v${dimensions} != m${model.nativeDimensions}`;
+  }
+  return runInputData.map((_, i) => ({
+    vector: new ElVector(
+      hfVectors.data.slice(i * dimensions, (i + 1) * dimensions),
+      model.normalize ?? true
+    ),
+  }));
+}
+
 /**
  * This generates text from a prompt
  *
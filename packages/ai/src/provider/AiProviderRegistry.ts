@@ -15,6 +15,8 @@ interface AiProviderInput<Input extends TaskInput = TaskInput> {
   taskType: string;
   modelProvider: string;
   taskInput: Input;
+  /** Estimated number of tokens the job uses, its cost for cost-based limiters */
+  estimatedTokens?: number;
 }
 
 /**
@@ -29,6 +31,20 @@ export type AiProviderRunFn<
   signal?: AbortSignal
 ) => Promise<Output>;
 
+/**
+ * Type for the batch run function for the AiProviderJob, which runs the inputs of several
+ * compatible jobs (same task type, provider and model) at once. It returns an output, or an
+ * error for an input that failed, in the order of the jobs.
+ */
+export type AiProviderBatchRunFn<
+  Input extends TaskInput = TaskInput,
+  Output extends TaskOutput = TaskOutput,
+> = (
+  jobs: AiProviderJob<Input, Output>[],
+  runInputData: Input[],
+  signal?: AbortSignal
+) => Promise<Array<Output | Error>>;
+
 /**
  * Extends the base Job class to provide custom execution functionality
  * through a provided function.
@@ -51,6 +67,39 @@ export class AiProviderJob<
       signal
     ) as Promise<Output>;
   }
+
+  /**
+   * Jobs cost the number of tokens estimated when they were created
+   */
+  cost(): number {
+    return this.input.estimatedTokens ?? 1;
+  }
+
+  /**
+   * Jobs for the same task type, provider and model can run as one batch
+   */
+  batchKey(): string | null {
+    const model = this.input.taskInput?.model;
+    if (typeof model !== "string") return null;
+    return `${this.input.taskType}:${this.input.modelProvider}:${model}`;
+  }
+
+  /**
+   * Runs the jobs through the batch run function registered for their task type and model
+   * provider, or one by one through the regular run function when there is none
+   */
+  async executeBatch(
+    jobs: Job<AiProviderInput<Input>, Output>[],
+    signal?: AbortSignal
+  ): Promise<Array<Output | Error>> {
+    const fn = getAiProviderRegistry().getBatchRunFn(this.input.taskType, this.input.modelProvider);
+    if (!fn) return super.executeBatch(jobs, signal);
+    return fn(
+      jobs as unknown as AiProviderJob<Input, Output>[],
+      jobs.map((job) => job.input.taskInput),
+      signal
+    ) as Promise<Array<Output | Error>>;
+  }
 }
 
 /**
@@ -61,6 +110,7 @@ export class AiProviderJob<
 export class AiProviderRegistry {
   // Relaxing the generics using `any` allows us to register specialized run functions.
   runFnRegistry: Record<string, Record<string, AiProviderRunFn<any, any>>> = {};
+  batchRunFnRegistry: Record<string, Record<string, AiProviderBatchRunFn<any, any>>> = {};
 
   /**
    * Registers a task execution function for a specific task type and model provider
@@ -73,6 +123,25 @@ export class AiProviderRegistry {
     this.runFnRegistry[taskType][modelProvider] = runFn;
   }
 
+  /**
+   * Registers a function that runs many inputs of a task type at once for a model provider,
+   * used when the provider's job queue batches jobs
+   * @param taskType - The type of task (e.g., 'text-generation', 'embedding')
+   * @param modelProvider - The provider of the model
+   * @param batchRunFn - The function that executes a batch of tasks
+   */
+  registerBatchRunFn(taskType: string, modelProvider: string, batchRunFn: any) {
+    if (!this.batchRunFnRegistry[taskType]) this.batchRunFnRegistry[taskType] = {};
+    this.batchRunFnRegistry[taskType][modelProvider] = batchRunFn;
+  }
+
+  /**
+   * Retrieves the batch execution function for a task type and model provider, if any
+   */
+  getBatchRunFn(taskType: string, modelProvider: string) {
+    return this.batchRunFnRegistry[taskType]?.[modelProvider];
+  }
+
   /**
    * Retrieves the direct execution function for a task type and model
    * Bypasses the job queue system for immediate execution
@@ -22,8 +22,8 @@ const doc_variants = [
   "flat-sentences",
 ] as const;
 type DocVariant = (typeof doc_variants)[number];
-const doc_parsers = ["txt", "md"] as const; // | "html" | "pdf" | "csv";
-type DocParser = (typeof doc_parsers)[number];
+export const doc_parsers = ["txt", "md"] as const; // | "html" | "pdf" | "csv";
+export type DocParser = (typeof doc_parsers)[number];
 
 export interface DocumentMetadata {
   title: string;
@@ -5,8 +5,31 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
-import { SingleTask, TaskGraphBuilder, TaskGraphBuilderHelper, TaskRegistry } from "ellmers-core";
-import { Document, DocumentFragment } from "../source/Document";
+import {
+  SingleTask,
+  TaskGraphBuilder,
+  TaskGraphBuilderHelper,
+  TaskRegistry,
+  ValueTypeRegistry,
+} from "ellmers-core";
+import { DocParser, Document, DocumentFragment, doc_parsers } from "../source/Document";
+
+ValueTypeRegistry.registerValueType<DocParser>({
+  name: "doc_parser",
+  tsType: doc_parsers.map((parser) => `"${parser}"`).join(" | "),
+  parent: "text",
+  color: "#6b7280",
+  schema: { type: "string", enum: doc_parsers },
+  validate: (value) => doc_parsers.includes(value as DocParser),
+});
+
+ValueTypeRegistry.registerValueType<Document>({
+  name: "document",
+  tsType: "Document",
+  color: "#eab308",
+  validate: (value) => value instanceof Document,
+});
+
 export type DocumentSplitterTaskInput = {
   parser: "txt" | "md";
   file: Document;
@@ -12,6 +12,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   TaskOutput,
   JobQueueTaskConfig,
 } from "ellmers-core";
@@ -138,9 +139,12 @@ export const DownloadModelCompoundTask = arrayTaskFactory<
   DownloadModelTaskOutput
 >(DownloadModelTask, ["model"]);
 
-export const DownloadModel = (input: DownloadModelCompoundTaskInput) => {
+export const DownloadModel = (
+  input: DownloadModelCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
   if (Array.isArray(input.model)) {
-    return new DownloadModelCompoundTask({ input }).run();
+    return new DownloadModelCompoundTask({ input, combination }).run();
   } else {
     return new DownloadModelTask({ input } as { input: DownloadModelTaskInput }).run();
   }
@@ -12,6 +12,7 @@ import {
   SingleTask,
   TaskOutput,
   TaskConfig,
+  ValueTypeRegistry,
 } from "ellmers-core";
 import { AnyNumberArray, ElVector } from "./base/TaskIOTypes";
 
@@ -19,6 +20,15 @@ import { AnyNumberArray, ElVector } from "./base/TaskIOTypes";
 
 export const similarity_fn = ["cosine", "jaccard", "hamming"] as const;
 
+ValueTypeRegistry.registerValueType<(typeof similarity_fn)[number]>({
+  name: "similarity_fn",
+  tsType: similarity_fn.map((fn) => `"${fn}"`).join(" | "),
+  parent: "text",
+  color: "#6b7280",
+  schema: { type: "string", enum: similarity_fn },
+  validate: (value) => similarity_fn.includes(value as (typeof similarity_fn)[number]),
+});
+
 export type SimilarityTaskInput = {
   query: ElVector<Float32Array>;
   input: ElVector<Float32Array>[];
@@ -79,16 +89,6 @@ export class SimilarityTask extends SingleTask {
     super(config);
   }
 
-  async validateItem(valueType: string, item: any): Promise<boolean> {
-    if (valueType === "similarity_fn") {
-      return similarity_fn.includes(item);
-    }
-    if (valueType === "vector") {
-      return item instanceof ElVector;
-    }
-    return super.validateItem(valueType, item);
-  }
-
   async validateInputItem(input: Partial<SimilarityTaskInput>, inputId: keyof SimilarityTaskInput) {
     switch (inputId) {
       case "k": {
@@ -9,6 +9,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   TaskRegistry,
   JobQueueTaskConfig,
   TaskGraphBuilder,
@@ -75,10 +76,14 @@ export const TextEmbeddingCompoundTask = arrayTaskFactory<
 /**
  * Convenience function to create and run a TextEmbeddingCompoundTask
  * @param {TextEmbeddingCompoundTaskInput} input - Input containing text(s) and model(s) for embedding
+ * @param {ArrayTaskCombination} combination - Optional strategy to combine the text(s) and model(s)
  * @returns {Promise<TextEmbeddingCompoundTaskOutput>} Promise resolving to the generated embeddings
  */
-export const TextEmbedding = (input: TextEmbeddingCompoundTaskInput) => {
-  return new TextEmbeddingCompoundTask({ input }).run();
+export const TextEmbedding = (
+  input: TextEmbeddingCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
+  return new TextEmbeddingCompoundTask({ input, combination }).run();
 };
 
 declare module "ellmers-core" {
@@ -9,6 +9,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   TaskRegistry,
   JobQueueTaskConfig,
   TaskGraphBuilder,
@@ -74,10 +75,14 @@ export const TextGenerationCompoundTask = arrayTaskFactory<
  * Convenience function to run text generation tasks.
  * Creates and executes a TextGenerationCompoundTask with the provided input.
  * @param input The input parameters for text generation (prompts and models)
+ * @param combination Optional strategy to combine the prompts and models
  * @returns Promise resolving to the generated text output(s)
  */
-export const TextGeneration = (input: TextGenerationCompoundTaskInput) => {
-  return new TextGenerationCompoundTask({ input }).run();
+export const TextGeneration = (
+  input: TextGenerationCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
+  return new TextGenerationCompoundTask({ input, combination }).run();
 };
 
 declare module "ellmers-core" {
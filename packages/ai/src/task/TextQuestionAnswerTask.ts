@@ -9,6 +9,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   TaskRegistry,
   JobQueueTaskConfig,
   TaskGraphBuilder,
@@ -71,8 +72,11 @@ export const TextQuestionAnswerCompoundTask = arrayTaskFactory<
   TextQuestionAnswerTaskOutput
 >(TextQuestionAnswerTask, ["model", "context", "question"]);
 
-export const TextQuestionAnswer = (input: TextQuestionAnswerCompoundTaskInput) => {
-  return new TextQuestionAnswerCompoundTask({ input }).run();
+export const TextQuestionAnswer = (
+  input: TextQuestionAnswerCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
+  return new TextQuestionAnswerCompoundTask({ input, combination }).run();
 };
 
 declare module "ellmers-core" {
@@ -9,6 +9,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   TaskRegistry,
   JobQueueTaskConfig,
   TaskGraphBuilder,
@@ -72,9 +73,12 @@ export const TextRewriterCompoundTask = arrayTaskFactory<
   TextRewriterTaskOutput
 >(TextRewriterTask, ["model", "text", "prompt"]);
 
-export const TextRewriter = (input: TextRewriterCompoundTaskInput) => {
+export const TextRewriter = (
+  input: TextRewriterCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
   if (Array.isArray(input.model) || Array.isArray(input.text) || Array.isArray(input.prompt)) {
-    return new TextRewriterCompoundTask({ input }).run();
+    return new TextRewriterCompoundTask({ input, combination }).run();
   } else {
     return new TextRewriterTask({ input } as { input: TextRewriterTaskInput }).run();
   }
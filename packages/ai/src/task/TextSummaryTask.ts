@@ -12,6 +12,7 @@ import {
   ConvertAllToArrays,
   ConvertSomeToOptionalArray,
   arrayTaskFactory,
+  ArrayTaskCombination,
   JobQueueTaskConfig,
 } from "ellmers-core";
 import { JobQueueAiTask } from "./base/JobQueueAiTask";
@@ -66,8 +67,11 @@ export const TextSummaryCompoundTask = arrayTaskFactory<
   TextSummaryTaskOutput
 >(TextSummaryTask, ["model", "text"]);
 
-export const TextSummary = (input: TextSummaryCompoundTaskInput) => {
-  return new TextSummaryCompoundTask({ input }).run();
+export const TextSummary = (
+  input: TextSummaryCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
+  return new TextSummaryCompoundTask({ input, combination }).run();
 };
 
 declare module "ellmers-core" {
@@ -5,7 +5,12 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
-import { ConvertAllToArrays, ConvertSomeToOptionalArray, arrayTaskFactory } from "ellmers-core";
+import {
+  ConvertAllToArrays,
+  ConvertSomeToOptionalArray,
+  arrayTaskFactory,
+  ArrayTaskCombination,
+} from "ellmers-core";
 import { TaskRegistry } from "ellmers-core";
 import { JobQueueTaskConfig } from "ellmers-core";
 import { TaskGraphBuilder, TaskGraphBuilderHelper } from "ellmers-core";
@@ -66,12 +71,6 @@ export class TextTranslationTask extends JobQueueAiTask {
   declare defaults: Partial<TextTranslationTaskInput>;
   static readonly type = "TextTranslationTask";
   static readonly category = "Text Model";
-  async validateItem(valueType: string, item: any) {
-    if (valueType == "language") {
-      return typeof item == "string" && item.length == 2;
-    }
-    return super.validateItem(valueType, item);
-  }
 }
 TaskRegistry.registerTask(TextTranslationTask);
 
@@ -79,16 +78,19 @@ type TextTranslationCompoundOutput = ConvertAllToArrays<TextTranslationTaskOutpu
 
 type TextTranslationCompoundTaskInput = ConvertSomeToOptionalArray<
   TextTranslationTaskInput,
-  "model" | "text"
+  "model" | "text" | "target_lang"
 >;
 export const TextTranslationCompoundTask = arrayTaskFactory<
   TextTranslationCompoundTaskInput,
   TextTranslationCompoundOutput,
   TextTranslationTaskOutput
->(TextTranslationTask, ["model", "text"]);
+>(TextTranslationTask, ["model", "text", "target_lang"]);
 
-export const TextTranslation = (input: TextTranslationCompoundTaskInput) => {
-  return new TextTranslationCompoundTask({ input }).run();
+export const TextTranslation = (
+  input: TextTranslationCompoundTaskInput,
+  combination?: ArrayTaskCombination
+) => {
+  return new TextTranslationCompoundTask({ input, combination }).run();
 };
 
 declare module "ellmers-core" {
@@ -13,10 +13,55 @@ import {
   getTaskQueueRegistry,
   JobQueueTask,
   JobQueueTaskConfig,
+  ValueTypeRegistry,
+  type TaskBase,
   type TaskOutput,
 } from "ellmers-core";
 import { AiProviderJob, getAiProviderRegistry } from "../../provider/AiProviderRegistry";
 import { getGlobalModelRepository } from "../../model/ModelRegistry";
+import { Model } from "../../model/Model";
+import { model } from "./TaskIOTypes";
+
+/**
+ * A "model" is the name of a model that really exists in the model repository
+ */
+ValueTypeRegistry.registerValueType<model>({
+  name: "model",
+  tsType: "string",
+  parent: "text",
+  color: "#10b981",
+  validate: async (value) =>
+    typeof value == "string" && !!(await getGlobalModelRepository().findByName(value)),
+});
+
+/**
+ * The task specific models, like "embedding_model", need a model that is registered for the
+ * task type of the task being validated
+ */
+const task_models = [
+  "embedding_model",
+  "generation_model",
+  "question_answering_model",
+  "text_question_answering_model",
+  "rewriting_model",
+  "classification_model",
+  "summarization_model",
+  "translation_model",
+] as const;
+
+for (const name of task_models) {
+  ValueTypeRegistry.registerValueType<model>({
+    name,
+    tsType: "string",
+    parent: "model",
+    color: "#10b981",
+    validate: async (value, task?: TaskBase) => {
+      const tasks = await getGlobalModelRepository().findTasksByModel(value as string);
+      if (!task) return !!tasks?.length;
+      return !!tasks?.includes((task.constructor as typeof TaskBase).type);
+    },
+  });
+}
 
 /**
  * A base class for AI related tasks that run in a job queue.
@@ -61,30 +106,23 @@ export class JobQueueAiTask extends JobQueueTask {
         taskType: runtype,
         modelProvider: model.provider,
         taskInput: this.runInputData,
+        estimatedTokens: this.estimateTokens(model),
       },
     });
     return job;
   }
 
   /**
-   * Validates that a model name really exists
-   * @param valueType The type of the item ("model")
-   * @param item The item to validate
-   * @returns True if the item is valid, false otherwise
+   * Estimates the number of tokens the job uses, from the length of its text inputs (about
+   * four characters a token), capped at the context window of the model
+   * @returns number - The estimated number of tokens, at least one
    */
-  async validateItem(valueType: string, item: any) {
-    const modelRepo = getGlobalModelRepository();
-
-    switch (valueType) {
-      case "model":
-        return typeof item == "string" && !!(await modelRepo.findByName(item));
-    }
-    if (valueType.endsWith("_model")) {
-      const tasks = await modelRepo.findTasksByModel(item);
-      return !!tasks?.includes((this.constructor as typeof JobQueueAiTask).type);
-    }
-
-    return super.validateItem(valueType, item);
+  estimateTokens(model: Model): number {
+    const characters = Object.entries(this.runInputData)
+      .filter(([key, value]) => key !== "model" && typeof value === "string")
+      .reduce((sum, [, value]) => sum + (value as string).length, 0);
+    const tokens = Math.ceil(characters / 4);
+    return Math.max(1, Math.min(tokens, model.contextWindow ?? tokens));
   }
 
   /**
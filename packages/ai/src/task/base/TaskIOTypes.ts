@@ -5,6 +5,8 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
+import { ValueTypeRegistry } from "ellmers-core";
+
 export type AnyNumberArray =
   | number[]
   | Float64Array
@@ -28,6 +30,33 @@ export class ElVector<T extends AnyNumberArray = AnyNumberArray> {
   }
 }
 
+ValueTypeRegistry.registerValueType<ElVector>({
+  name: "vector",
+  tsType: "ElVector",
+  color: "#f97316",
+  schema: {
+    type: "object",
+    required: ["vector"],
+    properties: {
+      vector: { type: "array", items: { type: "number" } },
+      normalized: { type: "boolean" },
+    },
+  },
+  validate: (value) => value instanceof ElVector,
+  serialize: (value) =>
+    value instanceof ElVector
+      ? {
+          vector: Array.from(value.vector as ArrayLike<number | bigint>, Number),
+          normalized: value.normalized,
+        }
+      : undefined,
+  deserialize: (json) => {
+    const { vector, normalized } = (json ?? {}) as { vector?: unknown; normalized?: boolean };
+    if (!Array.isArray(vector)) return undefined;
+    return new ElVector(Float32Array.from(vector), !!normalized);
+  },
+});
+
 export type embedding_model = string;
 export type generation_model = string;
 export type question_answering_model = string;
@@ -37,6 +66,15 @@ export type summarization_model = string;
 export type translation_model = string;
 export type language = string;
 
+ValueTypeRegistry.registerValueType<language>({
+  name: "language",
+  tsType: "string",
+  parent: "text",
+  color: "#8b5cf6",
+  schema: { type: "string", minLength: 2, maxLength: 2 },
+  validate: (value) => typeof value == "string" && value.length == 2,
+});
+
 export type model =
   | embedding_model
   | generation_model
@@ -9,10 +9,17 @@ export * from "./task/index";
 export * from "./storage/base/IKVRepository";
 export * from "./storage/taskoutput/TaskOutputRepository";
 export * from "./storage/taskgraph/TaskGraphRepository";
+export * from "./storage/graphrun/GraphRunRepository";
 export * from "./util/Misc";
+export * from "./util/Cron";
 export * from "./job/base/Job";
 export * from "./job/base/JobQueue";
+export * from "./job/base/JobSchedule";
 export * from "./job/base/ILimiter";
+export * from "./job/base/IJobNotifier";
 export * from "./job/DelayLimiter";
 export * from "./job/CompositeLimiter";
 export * from "./job/ConcurrencyLimiter";
+export * from "./job/AdaptiveConcurrencyLimiter";
+export * from "./job/RetryPolicy";
+export * from "./job/PollingJobNotifier";
@@ -0,0 +1,86 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { ILimiter, RateLimitInfo } from "./base/ILimiter";
+
+/**
+ * A concurrency limiter that finds out how much a provider can take (AIMD: additive
+ * increase, multiplicative decrease). Each job that runs without being throttled grows the
+ * limit a little, by one slot per round of jobs at the current limit, and each throttle
+ * signal halves it. Throttles within the cooldown of a decrease are left out, as they come
+ * from jobs that started before the limit went down.
+ */
+export class AdaptiveConcurrencyLimiter implements ILimiter {
+  private currentRunningJobs: number = 0;
+  private limit: number;
+  private lastDecreaseAt: number = 0;
+  private nextAvailableTime: Date = new Date();
+
+  constructor(
+    private readonly maxConcurrentJobs: number,
+    private readonly minConcurrentJobs: number = 1,
+    private readonly initialConcurrentJobs: number = minConcurrentJobs,
+    private readonly cooldownInMilliseconds: number = 1000
+  ) {
+    this.limit = initialConcurrentJobs;
+  }
+
+  /**
+   * Number of jobs currently allowed to run at the same time
+   */
+  get concurrency(): number {
+    return Math.floor(this.limit);
+  }
+
+  async canProceed(): Promise<boolean> {
+    return (
+      this.currentRunningJobs < this.concurrency && Date.now() >= this.nextAvailableTime.getTime()
+    );
+  }
+
+  async recordJobStart(): Promise<void> {
+    this.currentRunningJobs++;
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    this.currentRunningJobs = Math.max(0, this.currentRunningJobs - 1);
+  }
+
+  async recordJobSuccess(): Promise<void> {
+    this.limit = Math.min(this.maxConcurrentJobs, this.limit + 1 / this.concurrency);
+  }
+
+  async recordRateLimit({ remainingQuota }: RateLimitInfo): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastDecreaseAt < this.cooldownInMilliseconds) return;
+    this.lastDecreaseAt = now;
+    let limit = Math.floor(this.limit / 2);
+    if (remainingQuota) {
+      // no point in running more jobs at once than the provider has quota left for, while
+      // running out of quota altogether is up to the retry-after time
+      limit = Math.min(limit, remainingQuota);
+    }
+    this.limit = Math.max(this.minConcurrentJobs, limit);
+  }
+
+  async getNextAvailableTime(): Promise<Date> {
+    return new Date(Math.max(Date.now(), this.nextAvailableTime.getTime()));
+  }
+
+  async setNextAvailableTime(date: Date): Promise<void> {
+    if (date > this.nextAvailableTime) {
+      this.nextAvailableTime = date;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.currentRunningJobs = 0;
+    this.limit = this.initialConcurrentJobs;
+    this.lastDecreaseAt = 0;
+    this.nextAvailableTime = new Date();
+  }
+}
@@ -5,7 +5,7 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
-import { ILimiter } from "./base/ILimiter";
+import { ILimiter, RateLimitInfo } from "./base/ILimiter";
 
 export class CompositeLimiter implements ILimiter {
   private limiters: ILimiter[] = [];
@@ -27,14 +27,26 @@ export class CompositeLimiter implements ILimiter {
     return true; // All limiters agree
   }
 
-  async recordJobStart(): Promise<void> {
-    this.limiters.forEach((limiter) => limiter.recordJobStart());
+  async recordJobStart(cost?: number): Promise<void> {
+    this.limiters.forEach((limiter) => limiter.recordJobStart(cost));
   }
 
   async recordJobCompletion(): Promise<void> {
     this.limiters.forEach((limiter) => limiter.recordJobCompletion());
   }
 
+  async recordJobSuccess(): Promise<void> {
+    for (const limiter of this.limiters) {
+      await limiter.recordJobSuccess?.();
+    }
+  }
+
+  async recordRateLimit(info: RateLimitInfo): Promise<void> {
+    for (const limiter of this.limiters) {
+      await limiter.recordRateLimit?.(info);
+    }
+  }
+
   async getNextAvailableTime(): Promise<Date> {
     let maxDate = new Date(); // Assume now as the default
     for (const limiter of this.limiters) {
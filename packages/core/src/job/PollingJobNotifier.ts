@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { IJobNotifier, JobNotificationListener, JobNotification } from "./base/IJobNotifier";
+
+/**
+ * A notifier that delivers nothing, leaving job queues to poll their storage. This is the
+ * fallback for storage that cannot push notifications.
+ */
+export class PollingJobNotifier implements IJobNotifier {
+  public readonly pushes = false;
+
+  async notify(notification: JobNotification): Promise<void> {}
+
+  async subscribe(queue: string, listener: JobNotificationListener): Promise<() => void> {
+    return () => {};
+  }
+}
@@ -0,0 +1,217 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { DEFAULT_MAX_RETRIES } from "./base/Job";
+import {
+  JobError,
+  PermanentJobError,
+  RateLimitedJobError,
+  RetryableJobError,
+} from "./base/JobQueue";
+
+/**
+ * How the delay between attempts grows
+ */
+export type RetryBackoff = "fixed" | "linear" | "exponential";
+
+export interface RetryPolicyOptions {
+  /** How the delay grows with each attempt (default "exponential") */
+  backoff?: RetryBackoff;
+  /** Delay before the first retry in milliseconds (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for any computed delay in milliseconds (default 5 minutes) */
+  maxDelayMs?: number;
+  /** Fraction (0 to 1) of the delay that is randomized to spread out retries (default 0.2) */
+  jitter?: number;
+  /** Maximum number of attempts before a job fails (default DEFAULT_MAX_RETRIES) */
+  maxAttempts?: number;
+  /** Messages of plain errors that should be retried */
+  retryablePatterns?: RegExp[];
+  /** Messages of plain errors that should never be retried, checked before anything else */
+  permanentPatterns?: RegExp[];
+  /** Whether timeouts are retried (default true) */
+  retryOnTimeout?: boolean;
+  /** Whether rate limit responses are retried (default true) */
+  retryOnRateLimit?: boolean;
+  /** Source of randomness for jitter, replaceable for deterministic tests */
+  random?: () => number;
+}
+
+/**
+ * Messages of transient network failures that are worth retrying by default
+ */
+export const DEFAULT_RETRYABLE_PATTERNS: RegExp[] = [
+  /ECONNRESET|ECONNREFUSED|EAI_AGAIN|EPIPE|socket hang up/i,
+  /fetch failed|network ?error/i,
+  /service unavailable|bad gateway|\b50[234]\b/i,
+];
+
+const TIMEOUT_PATTERN = /timed? ?out|timeout/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|quota exceeded|\b429\b/i;
+
+/**
+ * Decides whether a failed job is retried and when.
+ *
+ * Errors thrown by a job are classified into a JobError: JobErrors are kept as is, rate limit
+ * signals become RateLimitedJobErrors, timeouts and messages matching the retryable patterns
+ * become RetryableJobErrors, and everything else is permanent. Run functions can simply throw and leave the retry date
+ * to the policy; a RetryableJobError with an explicit retryDate is still respected.
+ */
+export class RetryPolicy {
+  public readonly backoff: RetryBackoff;
+  public readonly baseDelayMs: number;
+  public readonly maxDelayMs: number;
+  public readonly jitter: number;
+  public readonly maxAttempts: number;
+  public readonly retryablePatterns: RegExp[];
+  public readonly permanentPatterns: RegExp[];
+  public readonly retryOnTimeout: boolean;
+  public readonly retryOnRateLimit: boolean;
+  private readonly random: () => number;
+
+  constructor({
+    backoff = "exponential",
+    baseDelayMs = 1000,
+    maxDelayMs = 5 * 60 * 1000,
+    jitter = 0.2,
+    maxAttempts = DEFAULT_MAX_RETRIES,
+    retryablePatterns = DEFAULT_RETRYABLE_PATTERNS,
+    permanentPatterns = [],
+    retryOnTimeout = true,
+    retryOnRateLimit = true,
+    random = Math.random,
+  }: RetryPolicyOptions = {}) {
+    this.backoff = backoff;
+    this.baseDelayMs = Math.max(0, baseDelayMs);
+    this.maxDelayMs = Math.max(this.baseDelayMs, maxDelayMs);
+    this.jitter = Math.max(0, Math.min(1, jitter));
+    this.maxAttempts = Math.max(1, maxAttempts);
+    this.retryablePatterns = retryablePatterns;
+    this.permanentPatterns = permanentPatterns;
+    this.retryOnTimeout = retryOnTimeout;
+    this.retryOnRateLimit = retryOnRateLimit;
+    this.random = random;
+  }
+
+  /**
+   * Returns the delay in milliseconds before the given retry attempt (1 for the first retry)
+   */
+  public delayFor(attempt: number): number {
+    attempt = Math.max(1, attempt);
+    let delay: number;
+    switch (this.backoff) {
+      case "fixed":
+        delay = this.baseDelayMs;
+        break;
+      case "linear":
+        delay = this.baseDelayMs * attempt;
+        break;
+      case "exponential":
+      default:
+        delay = this.baseDelayMs * 2 ** (attempt - 1);
+        break;
+    }
+    delay = Math.min(delay, this.maxDelayMs);
+    if (this.jitter > 0) {
+      // spread the delay over [delay * (1 - jitter), delay]
+      delay -= delay * this.jitter * this.random();
+    }
+    return Math.round(delay);
+  }
+
+  /**
+   * Returns when the given retry attempt should run
+   */
+  public nextRetryDate(attempt: number, now: Date = new Date()): Date {
+    return new Date(now.getTime() + this.delayFor(attempt));
+  }
+
+  /**
+   * Whether a job that has failed `retries` times may run again
+   * @param retries - Number of failed attempts so far
+   * @param maxRetries - The job's own limit, if any; the lower of the two limits wins
+   */
+  public canRetry(retries: number, maxRetries?: number | null): boolean {
+    const limit = Math.min(this.maxAttempts, maxRetries ?? Infinity);
+    return (retries || 0) < limit;
+  }
+
+  /**
+   * Turns anything thrown by a job into a JobError
+   */
+  public classify(err: unknown): JobError {
+    if (err instanceof JobError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    const detail = err as any;
+
+    if (this.permanentPatterns.some((pattern) => pattern.test(message))) {
+      return new PermanentJobError(message);
+    }
+    if (this.retryOnRateLimit && isRateLimit(detail, message)) {
+      const retryAfter = retryAfterMs(detail);
+      return new RateLimitedJobError(
+        message,
+        retryAfter !== undefined
+          ? new Date(Date.now() + Math.min(retryAfter, this.maxDelayMs))
+          : undefined,
+        remainingQuota(detail)
+      );
+    }
+    if (this.retryOnTimeout && isTimeout(detail, message)) {
+      return new RetryableJobError(message);
+    }
+    if (this.retryablePatterns.some((pattern) => pattern.test(message))) {
+      return new RetryableJobError(message);
+    }
+    return new PermanentJobError(message);
+  }
+}
+
+function isRateLimit(err: any, message: string): boolean {
+  const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+  return status === 429 || err?.code === "rate_limit_exceeded" || RATE_LIMIT_PATTERN.test(message);
+}
+
+function isTimeout(err: any, message: string): boolean {
+  return (
+    err?.name === "TimeoutError" ||
+    err?.code === "ETIMEDOUT" ||
+    err?.code === "ESOCKETTIMEDOUT" ||
+    TIMEOUT_PATTERN.test(message)
+  );
+}
+
+/**
+ * Reads a retry-after hint (seconds, like the HTTP header) from an error, in milliseconds
+ */
+function retryAfterMs(err: any): number | undefined {
+  const headers = err?.headers ?? err?.response?.headers;
+  const value =
+    err?.retryAfter ??
+    (typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"]);
+  if (value === undefined || value === null) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reads how much quota the provider has left (like the x-ratelimit-remaining header)
+ */
+function remainingQuota(err: any): number | undefined {
+  const headers = err?.headers ?? err?.response?.headers;
+  const header = (name: string) =>
+    typeof headers?.get === "function" ? headers.get(name) : headers?.[name];
+  const value =
+    err?.remainingQuota ??
+    header("x-ratelimit-remaining") ??
+    header("x-ratelimit-remaining-requests");
+  if (value === undefined || value === null) return undefined;
+  const remaining = Number(value);
+  return Number.isNaN(remaining) ? undefined : remaining;
+}
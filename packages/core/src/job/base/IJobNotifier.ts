@@ -0,0 +1,44 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { JobStatus } from "./Job";
+
+/**
+ * Messages job queues send each other about the jobs of a queue. They only carry ids and
+ * small values, receivers load anything bigger (like a job's output) from storage.
+ */
+export type JobNotification =
+  | { type: "job_added"; queue: string; source: string; jobId: unknown }
+  | {
+      type: "job_progress";
+      queue: string;
+      source: string;
+      jobId: unknown;
+      progress: number;
+      message: string;
+      details: Record<string, any> | null;
+    }
+  | { type: "job_completed"; queue: string; source: string; jobId: unknown; status: JobStatus };
+
+export type JobNotificationListener = (notification: JobNotification) => void;
+
+/**
+ * Delivers job notifications between the job queues (possibly in other processes or browser
+ * tabs) that share the same storage, so workers and waiters do not have to poll for them
+ */
+export interface IJobNotifier {
+  /**
+   * Whether notifications are actually delivered. When false the queue keeps polling.
+   */
+  readonly pushes: boolean;
+  notify(notification: JobNotification): Promise<void>;
+  /**
+   * Listens to the notifications of a queue
+   * @returns A function that stops listening
+   */
+  subscribe(queue: string, listener: JobNotificationListener): Promise<() => void>;
+}
@@ -5,10 +5,28 @@
 //    *   Licensed under the Apache License, Version 2.0 (the "License");           *
 //    *******************************************************************************
 
+/**
+ * What a provider reported when it throttled a job, see RateLimitedJobError
+ */
+export interface RateLimitInfo {
+  /** When the provider accepts requests again */
+  retryAfter?: Date;
+  /** How many requests (or tokens) the provider still allows in its current window */
+  remainingQuota?: number;
+}
+
 export interface ILimiter {
   canProceed(): Promise<boolean>;
-  recordJobStart(): Promise<void>;
+  /**
+   * Records that a job started, with the cost it declared (see Job.cost()) for limiters
+   * that budget cost instead of counting jobs
+   */
+  recordJobStart(cost?: number): Promise<void>;
   recordJobCompletion(): Promise<void>;
+  /** Optional: a job ran without being throttled, for limiters that adapt to the provider */
+  recordJobSuccess?(): Promise<void>;
+  /** Optional: the provider throttled a job, for limiters that adapt to the provider */
+  recordRateLimit?(info: RateLimitInfo): Promise<void>;
   getNextAvailableTime(): Promise<Date>;
   setNextAvailableTime(date: Date): Promise<void>;
   clear(): Promise<void>;
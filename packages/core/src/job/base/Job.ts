@@ -6,6 +6,13 @@
 //    *******************************************************************************
 
 import type { JobQueue } from "./JobQueue";
+import type { RetryPolicy } from "../RetryPolicy";
+
+/**
+ * Default number of attempts for a job, shared by the job classes, retry policies and the
+ * storage schemas
+ */
+export const DEFAULT_MAX_RETRIES = 10;
 
 export enum JobStatus {
   PENDING = "NEW",
@@ -17,6 +24,22 @@ export enum JobStatus {
 
 // ===============================================================================
 
+/**
+ * Where a job input comes from when it is filled in from a dependency's output
+ */
+export interface JobDependencyInput {
+  /** The job whose output is used, it is implicitly added to dependsOn */
+  id: unknown;
+  /** The output key to use, the whole output when left out */
+  output?: string;
+}
+
+/**
+ * What happens to a job when one of its dependencies fails: "fail" fails it as well
+ * (and so on down the chain), "run" runs it anyway once all dependencies are done
+ */
+export type JobDependencyFailure = "fail" | "run";
+
 export interface JobDetails<Input, Output> {
   id?: unknown;
   jobRunId?: string;
@@ -27,10 +50,17 @@ export interface JobDetails<Input, Output> {
   errorCode?: string | null;
   fingerprint?: string;
   maxRetries?: number;
+  priority?: number;
+  timeoutMs?: number | null;
+  dependsOn?: unknown[] | string | null;
+  dependencyInputs?: Record<string, JobDependencyInput> | string | null;
+  onDependencyFailure?: JobDependencyFailure;
   status?: JobStatus;
   createdAt?: Date | string;
   deadlineAt?: Date | string | null;
   lastRanAt?: Date | string | null;
+  completedAt?: Date | string | null;
+  lastHeartbeatAt?: Date | string | null;
   runAfter?: Date | string | null;
   retries?: number;
   progress?: number;
@@ -39,11 +69,25 @@ export interface JobDetails<Input, Output> {
 }
 
 export class Job<Input, Output> implements JobDetails<Input, Output> {
+  /**
+   * Retry policy for all jobs of this class, overriding the policy of the queue running them
+   */
+  public static retryPolicy: RetryPolicy | undefined;
+
   public id: unknown;
   public jobRunId: string | undefined;
   public queueName: string | undefined;
   public readonly input: Input;
   public readonly maxRetries: number;
+  /** Higher priority jobs are picked up before lower priority ones; ties run oldest first */
+  public readonly priority: number;
+  /** How long a single run may take before it is aborted, overrides the queue's timeoutMs */
+  public readonly timeoutMs: number | null;
+  /** Jobs (of the same queue) that must complete before this job runs */
+  public readonly dependsOn: unknown[];
+  /** Inputs filled in from the outputs of dependencies right before the job runs */
+  public readonly dependencyInputs: Record<string, JobDependencyInput>;
+  public readonly onDependencyFailure: JobDependencyFailure;
   public readonly createdAt: Date;
   public fingerprint: string | undefined;
   public status: JobStatus = JobStatus.PENDING;
@@ -52,6 +96,8 @@ export class Job<Input, Output> implements JobDetails<Input, Output> {
   public retries: number = 0;
   public lastRanAt: Date | null = null;
   public completedAt: Date | null = null;
+  /** Last time the worker running this job reported it is still alive */
+  public lastHeartbeatAt: Date | null = null;
   public deadlineAt: Date | null = null;
   public abortedAt: Date | null = null;
   public error: string | null = null;
@@ -67,14 +113,22 @@ export class Job<Input, Output> implements JobDetails<Input, Output> {
     jobRunId,
     id,
     error = null,
+    errorCode = null,
     fingerprint = undefined,
     output = null,
-    maxRetries = 10,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    priority = 0,
+    timeoutMs = null,
+    dependsOn = null,
+    dependencyInputs = null,
+    onDependencyFailure = "fail",
     createdAt = new Date(),
     status = JobStatus.PENDING,
     deadlineAt = null,
     retries = 0,
     lastRanAt = null,
+    completedAt = null,
+    lastHeartbeatAt = null,
     runAfter = null,
     progress = 0,
     progressMessage = "",
@@ -82,6 +136,10 @@ export class Job<Input, Output> implements JobDetails<Input, Output> {
   }: JobDetails<Input, Output>) {
     if (typeof runAfter === "string") runAfter = new Date(runAfter);
     if (typeof lastRanAt === "string") lastRanAt = new Date(lastRanAt);
+    if (typeof completedAt === "string") completedAt = new Date(completedAt);
+    if (typeof lastHeartbeatAt === "string") lastHeartbeatAt = new Date(lastHeartbeatAt);
+    if (typeof dependsOn === "string") dependsOn = JSON.parse(dependsOn);
+    if (typeof dependencyInputs === "string") dependencyInputs = JSON.parse(dependencyInputs);
     if (typeof createdAt === "string") createdAt = new Date(createdAt);
     if (typeof deadlineAt === "string") deadlineAt = new Date(deadlineAt);
 
@@ -90,14 +148,27 @@ export class Job<Input, Output> implements JobDetails<Input, Output> {
     this.queueName = queueName;
     this.input = input;
     this.maxRetries = maxRetries;
+    this.priority = Number(priority) || 0;
+    this.timeoutMs = timeoutMs != null ? Number(timeoutMs) : null;
+    this.dependencyInputs = (dependencyInputs as Record<string, JobDependencyInput>) ?? {};
+    this.dependsOn = Array.from(
+      new Set([
+        ...((dependsOn as unknown[]) ?? []),
+        ...Object.values(this.dependencyInputs).map((dependency) => dependency.id),
+      ])
+    );
+    this.onDependencyFailure = onDependencyFailure;
     this.createdAt = createdAt;
     this.runAfter = runAfter ?? createdAt;
     this.status = status;
     this.deadlineAt = deadlineAt;
     this.retries = retries;
     this.lastRanAt = lastRanAt;
+    this.completedAt = completedAt;
+    this.lastHeartbeatAt = lastHeartbeatAt;
     this.output = output;
     this.error = error;
+    this.errorCode = errorCode;
     this.jobRunId = jobRunId;
     this.progress = progress;
     this.progressMessage = progressMessage;
@@ -106,6 +177,41 @@ export class Job<Input, Output> implements JobDetails<Input, Output> {
   execute(signal?: AbortSignal): Promise<Output> {
     throw new Error("Method not implemented.");
   }
+
+  /**
+   * How much of a cost-based limiter's budget a run of this job uses, like the estimated
+   * number of tokens of a prompt. Count-based limiters ignore it.
+   */
+  cost(): number {
+    return 1;
+  }
+
+  /**
+   * Jobs with the same batch key can run together in one executeBatch() call when their
+   * queue batches. Null (the default) means the job always runs on its own.
+   */
+  batchKey(): string | null {
+    return null;
+  }
+
+  /**
+   * Runs compatible jobs (this one among them) together, returning an output, or an error
+   * for a job that failed, in the order of the jobs. By default they run one after another.
+   */
+  async executeBatch(
+    jobs: Array<Job<Input, Output>>,
+    signal?: AbortSignal
+  ): Promise<Array<Output | Error>> {
+    const outputs: Array<Output | Error> = [];
+    for (const job of jobs) {
+      try {
+        outputs.push(await job.execute(signal));
+      } catch (error) {
+        outputs.push(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    return outputs;
+  }
   public async updateProgress(
     progress: number,
     message: string = "",
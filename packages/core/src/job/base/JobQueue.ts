@@ -6,9 +6,18 @@
 //    *******************************************************************************
 
 import EventEmitter from "eventemitter3";
-import { ILimiter } from "./ILimiter";
+import { ILimiter, RateLimitInfo } from "./ILimiter";
 import { Job, JobStatus } from "./Job";
 import { sleep } from "../../util/Misc";
+import { RetryPolicy } from "../RetryPolicy";
+import { IJobNotifier, JobNotification } from "./IJobNotifier";
+import { PollingJobNotifier } from "../PollingJobNotifier";
+import {
+  JobSchedule,
+  JobScheduleOptions,
+  nextScheduleRun,
+  renderScheduleInput,
+} from "./JobSchedule";
 
 export abstract class JobError extends Error {
   public abstract retryable: boolean;
@@ -18,11 +27,13 @@ export abstract class JobError extends Error {
  * A job error that is retryable
  *
  * Examples: network timeouts, temporary unavailability of an external service, or rate-limiting
+ *
+ * The retryDate is optional, when left out the queue's RetryPolicy decides when to retry
  */
 export class RetryableJobError extends JobError {
   constructor(
     message: string,
-    public retryDate: Date
+    public retryDate?: Date
   ) {
     super(message);
     this.name = "RetryableJobError";
@@ -54,6 +65,47 @@ export class AbortSignalJobError extends PermanentJobError {
   }
 }
 
+/**
+ * A job that ran longer than its timeoutMs (or past its deadline) and was aborted.
+ * Whether it is retried follows the retry policy's retryOnTimeout.
+ */
+export class TimeoutJobError extends RetryableJobError {
+  constructor(
+    message: string,
+    public timeoutMs: number,
+    retryable: boolean = true
+  ) {
+    super(message);
+    this.name = "TimeoutJobError";
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * A job the provider throttled, like an HTTP 429 response. It is retried at retryAfter when
+ * given, and the queue feeds it into its limiter so that other jobs hold off as well.
+ */
+export class RateLimitedJobError extends RetryableJobError implements RateLimitInfo {
+  constructor(
+    message: string,
+    public retryAfter?: Date,
+    public remainingQuota?: number
+  ) {
+    super(message, retryAfter);
+    this.name = "RateLimitedJobError";
+  }
+}
+
+/**
+ * A job that failed because a job it depends on failed
+ */
+export class DependencyFailedJobError extends PermanentJobError {
+  constructor(message: string) {
+    super(message);
+    this.name = "DependencyFailedJobError";
+  }
+}
+
 /**
  * Events that can be emitted by the JobQueue
  */
@@ -63,8 +115,10 @@ export interface JobQueueEvents<Input, Output> {
   job_start: [queueName: string, jobId: unknown];
   job_aborting: [queueName: string, jobId: unknown];
   job_complete: [queueName: string, jobId: unknown, output: Output];
-  job_error: [queueName: string, jobId: unknown, error: string];
+  job_error: [queueName: string, jobId: unknown, error: string, timeoutMs?: number];
   job_retry: [queueName: string, jobId: unknown, retryDate: Date];
+  job_stalled: [queueName: string, jobId: unknown];
+  schedule_run: [queueName: string, scheduleId: string, jobId: unknown];
   queue_stats_update: [queueName: string, stats: JobQueueStats];
   job_progress: [
     queueName: string,
@@ -93,10 +147,167 @@ export interface JobQueueStats {
   failedJobs: number;
   abortedJobs: number;
   retriedJobs: number;
+  /** Runs aborted for taking longer than their timeout, whether or not they were retried */
+  timedOutJobs: number;
   averageProcessingTime?: number;
   lastUpdateTime: Date;
 }
 
+/**
+ * How a single run of a job ended
+ */
+export type JobRunOutcome = "completed" | "failed" | "retried" | "aborted";
+
+/**
+ * A finished run of a job, persisted by the storage backend so that getStats() can report
+ * on the queue across processes and restarts
+ */
+export interface JobRunRecord {
+  jobId: unknown;
+  outcome: JobRunOutcome;
+  /** The error name when the run did not complete, like "TimeoutJobError" */
+  errorCode: string | null;
+  durationMs: number;
+  finishedAt: Date;
+}
+
+/**
+ * Options for getStats()
+ */
+export interface JobQueueStatsOptions {
+  /** How far back to report, in milliseconds (default one hour) */
+  window?: number;
+  /** Size of the time buckets, in milliseconds (default one minute) */
+  bucketMs?: number;
+}
+
+/**
+ * Latency percentiles of runs in milliseconds, undefined when there were no runs
+ */
+export interface JobQueueLatency {
+  p50: number | undefined;
+  p95: number | undefined;
+  p99: number | undefined;
+}
+
+/**
+ * Runs that finished within one time bucket of getStats()
+ */
+export interface JobQueueStatsBucket {
+  start: Date;
+  completed: number;
+  failed: number;
+  retried: number;
+  aborted: number;
+  latency: JobQueueLatency;
+}
+
+/**
+ * Statistics of a queue over a time window, derived from its storage, so they include the
+ * runs of all processes sharing it and survive restarts. Runs are kept for runHistoryMs.
+ */
+export interface JobQueueWindowStats extends JobQueueStats {
+  /** The window reported on, in milliseconds */
+  window: number;
+  /** Jobs currently in the queue by status */
+  counts: Record<JobStatus, number>;
+  latency: JobQueueLatency;
+  /** Completed runs per minute over the window */
+  throughputPerMinute: number;
+  /** Runs that did not complete by error code */
+  errors: Record<string, number>;
+  /** The window split in buckets of bucketMs, oldest first */
+  buckets: JobQueueStatsBucket[];
+}
+
+/**
+ * What add() does when the queue already has a job with the same input:
+ * - "always-new" adds the job anyway (the default)
+ * - "join-inflight" returns the id of a pending or processing job with the same input instead,
+ *   so waitFor() waits for that one
+ * - "reuse-completed" does the same, and also returns the id of a completed job with the same
+ *   input, whose output waitFor() resolves with right away
+ */
+export type JobDedupePolicy = "always-new" | "join-inflight" | "reuse-completed";
+
+/**
+ * Options for adding a job to the queue
+ */
+export interface JobQueueAddOptions {
+  /** What to do when a job with the same input is already in the queue, see JobDedupePolicy */
+  dedupe?: JobDedupePolicy;
+}
+
+/**
+ * The job addJob() settled on
+ */
+export interface JobQueueAddResult {
+  id: unknown;
+  /** Whether it is an existing job with the same input rather than the one given */
+  deduped: boolean;
+}
+
+/**
+ * How long a queue keeps its finished jobs, see JobQueue.retention. The limits are checked
+ * separately, a job past any of them goes. Jobs a pending or processing job depends on stay.
+ */
+export interface JobQueueRetentionPolicy {
+  /** Remove completed jobs that completed more than this many days ago */
+  completedDays?: number;
+  /** Remove completed jobs beyond the most recent this many */
+  completedCount?: number;
+  /** Remove failed jobs that failed more than this many days ago, usually more than completedDays */
+  failedDays?: number;
+  /**
+   * Instead of deleting the jobs past the limits, clear their input, output and fingerprint
+   * and keep the rest of the job (status, dates, retries, error)
+   */
+  stripPayloads?: boolean;
+}
+
+/**
+ * The finished jobs of one status a cleanup removes, those past either limit
+ */
+export interface JobCleanupFilter {
+  status: JobStatus;
+  /** Jobs that finished at or before this date */
+  finishedBefore?: Date;
+  /** Jobs beyond the most recently finished this many */
+  keepLatest?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Filter for listing and requeueing failed jobs
+ */
+export interface JobQueueFailedFilter {
+  /** Only jobs that failed with this error code (the error name, like "PermanentJobError") */
+  errorCode?: string;
+  /** Only jobs that failed at or after this date */
+  since?: Date;
+  /** Maximum number of jobs, most recent failures first (default 100) */
+  limit?: number;
+}
+
+/**
+ * Options for putting a failed job back in the queue
+ */
+export interface JobQueueRequeueOptions {
+  /** Start counting attempts from zero again */
+  resetRetries?: boolean;
+}
+
+/**
+ * Settings for running compatible jobs (same batch key) together
+ */
+export interface JobQueueBatchOptions {
+  /** Most jobs run in one batch */
+  maxSize: number;
+  /** How long to wait for more compatible jobs once the first one is claimed */
+  maxWaitMs: number;
+}
+
 /**
  * Defines how a job queue operates in different contexts
  */
@@ -131,7 +342,8 @@ export abstract class JobQueue<Input, Output> {
     unknown,
     Array<{ resolve: (out: Output) => void; reject: (err: JobError) => void }>
   > = new Map();
-  protected processingTimes: Map<unknown, number> = new Map();
+  private processingTimeTotal: number = 0;
+  private processingTimeCount: number = 0;
   protected mode: QueueMode = QueueMode.BOTH;
   protected jobProgressListeners: Map<unknown, Set<JobProgressListener>> = new Map();
   protected lastKnownProgress: Map<
@@ -142,6 +354,67 @@ export abstract class JobQueue<Input, Output> {
       details: Record<string, any>;
     }
   > = new Map();
+  /**
+   * When enabled, next() round-robins between job runs (jobRunId) that have jobs waiting at
+   * the highest pending priority, so one large run cannot starve the others
+   */
+  public fairShare: boolean = false;
+  /** Order in which job runs were last served, oldest first, used by fair-share scheduling */
+  protected jobRunServedOrder: Map<string, number> = new Map();
+  protected jobRunServedCounter: number = 0;
+  /**
+   * Decides which errors are retried, how long to wait and how many attempts a job gets.
+   * A `retryPolicy` set on the job class takes precedence.
+   */
+  public retryPolicy: RetryPolicy = new RetryPolicy();
+  /**
+   * How long a processing job may go without a heartbeat before it is considered stalled,
+   * for example because the worker process running it crashed
+   */
+  public visibilityTimeoutMs: number = 60 * 1000;
+  /**
+   * What happens to stalled jobs: "requeue" counts the lost run as a failed attempt and
+   * retries the job if it has attempts left, "fail" fails it right away
+   */
+  public stalledJobAction: "requeue" | "fail" = "requeue";
+  /**
+   * How long a single run of a job may take before its abort signal fires and it fails with
+   * a TimeoutJobError, unless the job sets its own timeoutMs. No limit when undefined.
+   */
+  public timeoutMs: number | undefined;
+  /**
+   * Tells other queues sharing the storage about new jobs, progress and completions, and
+   * listens to theirs. Set it before start(). With a notifier that pushes, CLIENT mode stops
+   * polling the storage for the progress of watched jobs.
+   */
+  public notifier: IJobNotifier = new PollingJobNotifier();
+  /**
+   * When set, a claimed job that has a batch key is run together with up to maxSize - 1
+   * other ready jobs with the same key, through the job's executeBatch()
+   */
+  public batching: JobQueueBatchOptions | undefined;
+  /** Identifies this queue instance in notifications, so it can ignore its own */
+  protected readonly notifierSource: string = crypto.randomUUID();
+  private unsubscribeNotifier: (() => void) | undefined;
+  private processJobsTimer: ReturnType<typeof setTimeout> | undefined;
+  private processJobsBusy: boolean = false;
+  private processJobsWoken: boolean = false;
+  /** How often the scheduler looks for schedules that are due */
+  public schedulerIntervalMs: number = 1000;
+  /** Source of the current time for schedules, replace it to test schedules with a fake clock */
+  public clock: () => Date = () => new Date();
+  /**
+   * How long finished jobs are kept. A running queue (not in CLIENT mode) applies it every
+   * cleanupIntervalMs, without it jobs are kept until deleted.
+   */
+  public retention: JobQueueRetentionPolicy | undefined;
+  /** How often a running queue applies its retention policy */
+  public cleanupIntervalMs: number = 60 * 60 * 1000;
+  /** How long finished runs are kept for getStats(), older ones are deleted as runs are saved */
+  public runHistoryMs: number = DAY_MS;
+  private cleanupTimer: ReturnType<typeof setTimeout> | undefined;
+  private monitorQueueTimer: ReturnType<typeof setTimeout> | undefined;
+  private schedulesTimer: ReturnType<typeof setTimeout> | undefined;
 
   constructor(
     public readonly queue: string,
@@ -155,6 +428,7 @@ export abstract class JobQueue<Input, Output> {
       failedJobs: 0,
       abortedJobs: 0,
       retriedJobs: 0,
+      timedOutJobs: 0,
       lastUpdateTime: new Date(),
     };
   }
@@ -162,9 +436,14 @@ export abstract class JobQueue<Input, Output> {
   // Required abstract methods that must be implemented by storage-specific queues
 
   /**
-   * Adds a job to the queue
+   * Adds a job to the queue, or finds one with the same input depending on the dedupe policy
+   * @returns The id of the added job, or of the existing job with the same input, and which
+   *   of the two it is
    */
-  public abstract add(job: Job<Input, Output>): Promise<unknown>;
+  public abstract addJob(
+    job: Job<Input, Output>,
+    options?: JobQueueAddOptions
+  ): Promise<JobQueueAddResult>;
 
   /**
    * Gets a job from the queue
@@ -202,7 +481,7 @@ export abstract class JobQueue<Input, Output> {
   public abstract complete(id: unknown, output?: Output, error?: JobError): Promise<void>;
 
   /**
-   * Deletes all jobs from the queue
+   * Deletes all jobs from the queue, along with its finished runs
    */
   protected abstract deleteAll(): Promise<void>;
 
@@ -220,6 +499,99 @@ export abstract class JobQueue<Input, Output> {
    * Gets the jobs by job run id
    */
   public abstract getJobsByRunId(jobRunId: string): Promise<Array<Job<Input, Output>>>;
+
+  /**
+   * Lists permanently failed jobs (the dead letters of the queue)
+   */
+  public abstract listFailed(filter?: JobQueueFailedFilter): Promise<Array<Job<Input, Output>>>;
+
+  /**
+   * Puts a failed job back in the queue to run as soon as possible
+   */
+  public abstract requeue(jobId: unknown, options?: JobQueueRequeueOptions): Promise<void>;
+
+  /**
+   * Deletes failed jobs that failed before the given date
+   * @returns The number of jobs deleted
+   */
+  public abstract purgeFailed(olderThan: Date): Promise<number>;
+
+  /**
+   * Claims up to `limit` ready jobs with the given batch key, like next() does for one job
+   */
+  public abstract nextBatch(batchKey: string, limit: number): Promise<Array<Job<Input, Output>>>;
+
+  /**
+   * Gets the processing jobs whose last heartbeat is older than the given date
+   */
+  public abstract stalled(olderThan: Date): Promise<Array<Job<Input, Output>>>;
+
+  /**
+   * Gets the pending jobs that have a failed dependency and should fail with it
+   * (their onDependencyFailure is "fail")
+   */
+  public abstract dependencyFailed(): Promise<Array<Job<Input, Output>>>;
+
+  /**
+   * Lists the schedules of the queue
+   */
+  public abstract listSchedules(): Promise<Array<JobSchedule<Input>>>;
+
+  /**
+   * Gets a schedule of the queue
+   */
+  public abstract getSchedule(id: string): Promise<JobSchedule<Input> | undefined>;
+
+  /**
+   * Deletes a schedule, jobs it already created are left alone
+   */
+  public abstract deleteSchedule(id: string): Promise<void>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to insert or update a schedule
+   */
+  protected abstract saveSchedule(schedule: JobSchedule<Input>): Promise<void>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to move an active schedule from one run to the next, only if its nextRunAt is still
+   * `expectedNextRunAt`. This keeps two schedulers from creating the same job.
+   * @returns Whether the schedule was claimed
+   */
+  protected abstract claimSchedule(
+    id: string,
+    expectedNextRunAt: Date,
+    nextRunAt: Date
+  ): Promise<boolean>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to persist a finished run of a job for getStats(), deleting the runs of the queue that
+   * finished more than runHistoryMs before it
+   */
+  protected abstract saveRun(run: JobRunRecord): Promise<void>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to list the runs of the queue that finished at or after `since`
+   */
+  protected abstract listRuns(since: Date): Promise<Array<JobRunRecord>>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to delete the finished jobs matching the filter, or strip their payloads, leaving the
+   * jobs that pending or processing jobs depend on
+   * @returns The number of jobs deleted or stripped
+   */
+  protected abstract cleanupJobs(filter: JobCleanupFilter, stripPayloads: boolean): Promise<number>;
+
+  /**
+   * Abstract method to be implemented by storage-specific queue implementations
+   * to record that the worker running a job is still alive
+   */
+  protected abstract saveHeartbeat(jobId: unknown): Promise<void>;
+
   /**
    * Abstract method to be implemented by storage-specific queue implementations
    * to persist progress updates
@@ -231,6 +603,14 @@ export abstract class JobQueue<Input, Output> {
     details: Record<string, any> | null
   ): Promise<void>;
 
+  /**
+   * Adds a job to the queue, or finds one with the same input depending on the dedupe policy
+   * @returns The id of the added job, or of the existing job with the same input
+   */
+  public async add(job: Job<Input, Output>, options?: JobQueueAddOptions): Promise<unknown> {
+    return (await this.addJob(job, options)).id;
+  }
+
   /**
    * Aborts all jobs in a job run
    */
@@ -245,6 +625,483 @@ export abstract class JobQueue<Input, Output> {
     );
   }
 
+  /**
+   * Puts all failed jobs matching the filter back in the queue
+   * @returns The number of jobs requeued
+   */
+  public async requeueAll(
+    filter: JobQueueFailedFilter = {},
+    options: JobQueueRequeueOptions = {}
+  ): Promise<number> {
+    const jobs = await this.listFailed({ ...filter, limit: filter.limit ?? Infinity });
+    for (const job of jobs) {
+      await this.requeue(job.id, options);
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Creates a schedule that adds a job to this queue on a cron expression or an interval
+   */
+  public async schedule(options: JobScheduleOptions<Input>): Promise<JobSchedule<Input>> {
+    if (!options.cron === !options.intervalMs) {
+      throw new Error("A schedule needs either a cron expression or an interval");
+    }
+    if (options.intervalMs !== undefined && !(options.intervalMs > 0)) {
+      throw new Error(`Invalid schedule interval ${options.intervalMs}`);
+    }
+    const now = this.clock();
+    const schedule: JobSchedule<Input> = {
+      id: options.id ?? crypto.randomUUID(),
+      queueName: this.queue,
+      cron: options.cron ?? null,
+      intervalMs: options.intervalMs ?? null,
+      timezone: options.timezone ?? null,
+      input: options.input,
+      overlap: options.overlap ?? "skip",
+      priority: options.priority ?? 0,
+      maxRetries: options.maxRetries ?? null,
+      paused: options.paused ?? false,
+      nextRunAt: now,
+      lastRunAt: null,
+      lastJobId: null,
+      createdAt: now,
+    };
+    // also validates the cron expression and time zone
+    schedule.nextRunAt = options.startAt ?? nextScheduleRun(schedule, now);
+    await this.saveSchedule(schedule);
+    return schedule;
+  }
+
+  /**
+   * Stops a schedule from creating jobs until it is resumed
+   */
+  public async pauseSchedule(id: string): Promise<void> {
+    const schedule = await this.getSchedule(id);
+    if (!schedule) {
+      throw new Error(`Schedule ${id} not found`);
+    }
+    await this.saveSchedule({ ...schedule, paused: true });
+  }
+
+  /**
+   * Resumes a paused schedule from its next run after now, runs missed while paused are skipped
+   */
+  public async resumeSchedule(id: string): Promise<void> {
+    const schedule = await this.getSchedule(id);
+    if (!schedule) {
+      throw new Error(`Schedule ${id} not found`);
+    }
+    if (!schedule.paused) return;
+    const now = this.clock();
+    await this.saveSchedule({
+      ...schedule,
+      paused: false,
+      nextRunAt:
+        schedule.nextRunAt > now
+          ? schedule.nextRunAt
+          : nextScheduleRun(schedule, now, schedule.nextRunAt),
+    });
+  }
+
+  /**
+   * Creates the jobs of the schedules that are due
+   * @param now - The current time, defaults to the queue's clock
+   * @returns The ids of the jobs created
+   */
+  public async materializeDueSchedules(now: Date = this.clock()): Promise<unknown[]> {
+    const jobIds: unknown[] = [];
+    for (const schedule of await this.listSchedules()) {
+      if (schedule.paused || schedule.nextRunAt > now) continue;
+      const dueAt = schedule.nextRunAt;
+      const nextRunAt = nextScheduleRun(schedule, now, dueAt);
+      if (!(await this.claimSchedule(schedule.id, dueAt, nextRunAt))) {
+        // another scheduler got to it first
+        continue;
+      }
+
+      const previous = schedule.lastJobId != null ? await this.get(schedule.lastJobId) : undefined;
+      const previousActive =
+        previous !== undefined &&
+        [JobStatus.PENDING, JobStatus.PROCESSING, JobStatus.ABORTING].includes(previous.status);
+      if (previousActive && schedule.overlap === "skip") continue;
+
+      const job = new this.jobClass({
+        queueName: this.queue,
+        jobRunId: schedule.id,
+        input: renderScheduleInput(schedule.input, {
+          scheduleId: schedule.id,
+          scheduledAt: dueAt.toISOString(),
+        }),
+        priority: schedule.priority,
+        maxRetries: schedule.maxRetries ?? undefined,
+        ...(previousActive && schedule.overlap === "queue"
+          ? { dependsOn: [previous!.id], onDependencyFailure: "run" as const }
+          : {}),
+      });
+      const jobId = await this.add(job);
+      await this.saveSchedule({
+        ...schedule,
+        nextRunAt,
+        lastRunAt: dueAt,
+        lastJobId: jobId,
+      });
+      this.events.emit("schedule_run", this.queue, schedule.id, jobId);
+      jobIds.push(jobId);
+    }
+    return jobIds;
+  }
+
+  /**
+   * Handles a job that was just added: wakes the local worker and tells other queues.
+   * Called by storage-specific queue implementations at the end of add().
+   */
+  protected onAdded(jobId: unknown): void {
+    this.wake();
+    this.publish({ type: "job_added", queue: this.queue, source: this.notifierSource, jobId });
+  }
+
+  /**
+   * Sends a notification without waiting for it to be delivered
+   */
+  protected publish(notification: JobNotification): void {
+    this.notifier
+      .notify(notification)
+      .catch((error) => console.error(`Error sending ${notification.type} notification: ${error}`));
+  }
+
+  /**
+   * Handles notifications from other queues sharing the storage
+   */
+  protected async handleNotification(notification: JobNotification): Promise<void> {
+    if (notification.source === this.notifierSource) return;
+    switch (notification.type) {
+      case "job_added":
+        this.wake();
+        break;
+      case "job_progress": {
+        const { jobId, progress, message, details } = notification;
+        this.lastKnownProgress.set(jobId, { progress, message, details: details ?? {} });
+        this.emitProgress(jobId, progress, message, details);
+        break;
+      }
+      case "job_completed":
+        // a finished job frees a limiter slot and may unblock its dependents
+        this.wake();
+        await this.settleFromStorage(notification.jobId);
+        break;
+    }
+  }
+
+  /**
+   * Resolves or rejects the local waiters of a job another queue finished
+   */
+  protected async settleFromStorage(jobId: unknown): Promise<void> {
+    const promises = this.activeJobPromises.get(jobId);
+    if (!promises) return;
+    const job = await this.get(jobId);
+    if (job?.status === JobStatus.COMPLETED) {
+      promises.forEach(({ resolve }) => resolve(job.output!));
+    } else if (job?.status === JobStatus.FAILED) {
+      const error = new PermanentJobError(job.error ?? `Job ${jobId} failed`);
+      error.name = job.errorCode ?? error.name;
+      promises.forEach(({ reject }) => reject(error));
+    } else {
+      return;
+    }
+    this.activeJobPromises.delete(jobId);
+  }
+
+  /**
+   * Runs the worker loop now instead of at its next tick, if this queue processes jobs
+   */
+  protected wake(): void {
+    if (!this.running || this.mode === QueueMode.CLIENT) return;
+    if (this.processJobsBusy) {
+      this.processJobsWoken = true;
+      return;
+    }
+    clearTimeout(this.processJobsTimer);
+    this.processJobsTimer = setTimeout(() => this.processJobs(), 0);
+  }
+
+  /**
+   * How often running jobs report a heartbeat, a third of the visibility timeout
+   */
+  protected get heartbeatIntervalMs(): number {
+    return Math.max(10, Math.floor(this.visibilityTimeoutMs / 3));
+  }
+
+  /**
+   * Requeues or fails (see stalledJobAction) processing jobs that stopped sending heartbeats
+   * @param olderThan - Jobs without a heartbeat since this date are stalled, defaults to
+   * the visibility timeout ago
+   * @returns The number of stalled jobs recovered
+   */
+  public async recoverStalledJobs(
+    olderThan: Date = new Date(Date.now() - this.visibilityTimeoutMs)
+  ): Promise<number> {
+    const jobs = await this.stalled(olderThan);
+    for (const job of jobs) {
+      const message = `Job ${job.id} stalled, its worker stopped sending heartbeats`;
+      const error =
+        this.stalledJobAction === "requeue"
+          ? new RetryableJobError(message)
+          : new PermanentJobError(message);
+      this.events.emit("job_stalled", this.queue, job.id);
+      await this.complete(job.id, undefined, error);
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Fails pending jobs whose dependencies failed. Failing them triggers this again, so
+   * the failure travels down the whole chain of dependents.
+   * @returns The number of jobs failed
+   */
+  public async cascadeDependencyFailures(): Promise<number> {
+    const jobs = await this.dependencyFailed();
+    let failed = 0;
+    for (const job of jobs) {
+      // another cascade may have gotten to it first
+      if ((await this.get(job.id))?.status !== JobStatus.PENDING) continue;
+      await this.complete(
+        job.id,
+        undefined,
+        new DependencyFailedJobError(`Job ${job.id} depends on a job that failed`)
+      );
+      failed++;
+    }
+    return failed;
+  }
+
+  /**
+   * Fills in the inputs of a job that come from the outputs of its dependencies
+   */
+  protected async injectDependencyOutputs(job: Job<Input, Output>): Promise<void> {
+    const entries = Object.entries(job.dependencyInputs);
+    if (entries.length === 0) return;
+    // copy so the stored input (and its fingerprint) stay as they were submitted
+    const input: Record<string, any> = { ...(job.input as Record<string, any>) };
+    for (const [key, { id, output }] of entries) {
+      const dependency = await this.get(id);
+      if (dependency?.status !== JobStatus.COMPLETED) {
+        // only possible when onDependencyFailure is "run"
+        continue;
+      }
+      const value = output ? (dependency.output as any)?.[output] : dependency.output;
+      if (value === undefined) {
+        throw new PermanentJobError(`Job ${id} has no output "${output}" for input "${key}"`);
+      }
+      input[key] = value;
+    }
+    (job as { input: Input }).input = input as Input;
+  }
+
+  /**
+   * Applies the retention policy once
+   * @returns The number of jobs deleted, or stripped when the policy strips payloads
+   */
+  public async cleanup(): Promise<number> {
+    const retention = this.retention;
+    if (!retention) return 0;
+    const now = Date.now();
+    const daysAgo = (days: number | undefined) =>
+      days === undefined ? undefined : new Date(now - days * DAY_MS);
+    const stripPayloads = retention.stripPayloads ?? false;
+
+    let removed = 0;
+    if (retention.completedDays !== undefined || retention.completedCount !== undefined) {
+      removed += await this.cleanupJobs(
+        {
+          status: JobStatus.COMPLETED,
+          finishedBefore: daysAgo(retention.completedDays),
+          keepLatest: retention.completedCount,
+        },
+        stripPayloads
+      );
+    }
+    if (retention.failedDays !== undefined) {
+      removed += await this.cleanupJobs(
+        { status: JobStatus.FAILED, finishedBefore: daysAgo(retention.failedDays) },
+        stripPayloads
+      );
+    }
+    return removed;
+  }
+
+  /**
+   * Picks the jobs a cleanup removes, for the queues that filter in code
+   * @param jobs - The finished jobs with the status of the filter
+   * @param neededIds - The ids of the jobs that pending or processing jobs depend on
+   */
+  protected selectExpiredJobs<
+    T extends { id: unknown; completedAt?: Date | string | null; fingerprint?: string },
+  >(
+    jobs: T[],
+    { finishedBefore, keepLatest }: JobCleanupFilter,
+    stripPayloads: boolean,
+    neededIds: Set<unknown>
+  ): T[] {
+    const finishedAt = (job: T) => (job.completedAt ? new Date(job.completedAt).getTime() : 0);
+    // most recent first, the reverse keeps later additions first on ties
+    return [...jobs]
+      .reverse()
+      .sort((a, b) => finishedAt(b) - finishedAt(a))
+      .filter(
+        (job, index) =>
+          (finishedBefore !== undefined && finishedAt(job) <= finishedBefore.getTime()) ||
+          (keepLatest !== undefined && index >= keepLatest)
+      )
+      .filter((job) => !neededIds.has(job.id) && !(stripPayloads && job.fingerprint === ""));
+  }
+
+  /**
+   * Makes sure a job that is back in the queue can be processed and aborted again
+   */
+  protected prepareRequeuedJob(jobId: unknown): void {
+    if (!this.activeJobSignals.has(jobId)) {
+      this.createAbortController(jobId);
+    }
+  }
+
+  /**
+   * Picks the job run whose job should be served next in fair-share mode.
+   * Only runs with jobs at the highest pending priority are considered, and among those
+   * the run that was served least recently (or never) wins. Candidates are expected to
+   * be ordered oldest first so that ties between never served runs stay FIFO.
+   * @param candidates - The job runs with pending jobs and their highest pending priority
+   * @returns The jobRunId to take the next job from, or undefined if there are no candidates
+   */
+  protected nextFairShareJobRunId(
+    candidates: Array<{ jobRunId: string; priority: number }>
+  ): string | undefined {
+    if (candidates.length === 0) return undefined;
+    const topPriority = Math.max(...candidates.map((c) => Number(c.priority) || 0));
+    let chosen: string | undefined;
+    let chosenServedAt = Infinity;
+    for (const { jobRunId, priority } of candidates) {
+      if ((Number(priority) || 0) !== topPriority) continue;
+      const servedAt = this.jobRunServedOrder.get(jobRunId) ?? -1;
+      if (servedAt < chosenServedAt) {
+        chosen = jobRunId;
+        chosenServedAt = servedAt;
+      }
+    }
+    if (chosen !== undefined) {
+      // delete then set keeps the map ordered by last service, so the oldest entries can be
+      // dropped without changing who goes next
+      this.jobRunServedOrder.delete(chosen);
+      this.jobRunServedOrder.set(chosen, ++this.jobRunServedCounter);
+      if (this.jobRunServedOrder.size > 1000) {
+        const oldest = this.jobRunServedOrder.keys().next().value;
+        if (oldest !== undefined) this.jobRunServedOrder.delete(oldest);
+      }
+    }
+    return chosen;
+  }
+
+  /**
+   * The retry policy in effect for the jobs of this queue
+   */
+  protected get activeRetryPolicy(): RetryPolicy {
+    return (this.jobClass as typeof Job).retryPolicy ?? this.retryPolicy;
+  }
+
+  /**
+   * Whether a job that has now failed `retries` times may run again
+   */
+  protected canRetry(job: { retries: number; maxRetries?: number | null }): boolean {
+    return this.activeRetryPolicy.canRetry(job.retries, job.maxRetries);
+  }
+
+  /**
+   * Returns when a retryable error should be retried, asking the retry policy when the error
+   * does not carry its own date. The result is remembered on the error so that events and
+   * storage agree on the same date.
+   * @param error - The retryable error
+   * @param attempt - The retry attempt (1 for the first retry)
+   */
+  protected retryDateFor(error: RetryableJobError, attempt: number): Date {
+    if (!error.retryDate) {
+      error.retryDate = this.activeRetryPolicy.nextRetryDate(attempt);
+    }
+    return error.retryDate;
+  }
+
+  /**
+   * How long a run of the job may take: its own or the queue's timeout, cut short by its
+   * deadline if that comes first
+   * @returns The time limit in milliseconds, or undefined when there is none
+   */
+  protected timeoutFor(job: Job<Input, Output>): number | undefined {
+    const limits: number[] = [];
+    const timeoutMs = job.timeoutMs ?? this.timeoutMs;
+    if (timeoutMs != null) limits.push(timeoutMs);
+    if (job.deadlineAt) limits.push(job.deadlineAt.getTime() - Date.now());
+    return limits.length ? Math.max(0, Math.min(...limits)) : undefined;
+  }
+
+  /**
+   * Runs a job, aborting it through its abort controller when it exceeds its time limit.
+   * A job that ignores its abort signal is abandoned, so it cannot hold up the queue.
+   */
+  protected async executeJobWithTimeout(
+    job: Job<Input, Output>,
+    abortController: AbortController
+  ): Promise<Output> {
+    return await this.runWithTimeout(
+      `Job ${job.id}`,
+      this.timeoutFor(job),
+      abortController,
+      (signal) => this.executeJob(job, signal)
+    );
+  }
+
+  /**
+   * Runs a batch of jobs under the shortest time limit of its jobs
+   */
+  protected async executeBatchWithTimeout(
+    jobs: Array<Job<Input, Output>>,
+    abortController: AbortController
+  ): Promise<Array<Output | Error>> {
+    const limits = jobs.map((job) => this.timeoutFor(job)).filter((ms) => ms !== undefined);
+    return await this.runWithTimeout(
+      `Batch of jobs ${jobs.map((job) => job.id).join(", ")}`,
+      limits.length ? Math.min(...limits) : undefined,
+      abortController,
+      (signal) => this.executeBatch(jobs, signal)
+    );
+  }
+
+  private async runWithTimeout<T>(
+    what: string,
+    timeoutMs: number | undefined,
+    abortController: AbortController,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (timeoutMs === undefined) {
+      return await run(abortController.signal);
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutJobError(
+          `${what} timed out after ${timeoutMs}ms`,
+          timeoutMs,
+          this.activeRetryPolicy.retryOnTimeout
+        );
+        abortController.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([run(abortController.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Executes a job with the provided abort signal.
    * Can be overridden by implementations to add custom execution logic.
@@ -254,6 +1111,18 @@ export abstract class JobQueue<Input, Output> {
     return await job.execute(signal);
   }
 
+  /**
+   * Executes a batch of compatible jobs with the provided abort signal, returning an output
+   * (or an error) per job. Can be overridden by implementations to add custom execution logic.
+   */
+  public async executeBatch(
+    jobs: Array<Job<Input, Output>>,
+    signal?: AbortSignal
+  ): Promise<Array<Output | Error>> {
+    if (jobs.length === 0) return [];
+    return await jobs[0].executeBatch(jobs, signal);
+  }
+
   /**
    * Registers an event listener for job queue events
    */
@@ -309,44 +1178,202 @@ export abstract class JobQueue<Input, Output> {
     if (!job || !job.id) throw new Error("Invalid job provided for processing");
 
     const startTime = Date.now();
+    const heartbeat = setInterval(() => {
+      this.saveHeartbeat(job.id).catch((error) =>
+        console.error(`Error saving heartbeat for job ${job.id}: ${error}`)
+      );
+    }, this.heartbeatIntervalMs);
 
     try {
       await this.validateJobState(job);
-      await this.limiter.recordJobStart();
+      await this.limiter.recordJobStart(job.cost());
       this.emitStatsUpdate();
 
-      const abortController = this.activeJobSignals.get(job.id);
-      if (!abortController) {
-        throw new Error(`Abort controller for job ${job.id} not found`);
-      }
+      // a retried job, or one added by another queue, has no abort controller here yet
+      this.prepareRequeuedJob(job.id);
+      const abortController = this.activeJobSignals.get(job.id)!;
       this.events.emit("job_start", this.queue, job.id);
-      const output = await this.executeJob(job, abortController.signal);
+      await this.injectDependencyOutputs(job);
+      const output = await this.executeJobWithTimeout(job, abortController);
+      await this.limiter.recordJobSuccess?.();
+      await this.recordRun(job, "completed", null, startTime);
       await this.complete(job.id, output);
-
-      this.processingTimes.set(job.id, Date.now() - startTime);
-      this.updateAverageProcessingTime();
     } catch (err: any) {
-      const error = this.normalizeError(err);
-
-      if (error instanceof AbortSignalJobError) {
-        this.events.emit("job_aborting", this.queue, job.id);
-        this.stats.abortedJobs++;
-      } else if (error instanceof RetryableJobError) {
-        this.events.emit("job_retry", this.queue, job.id, error.retryDate);
-        this.stats.retriedJobs++;
-      } else {
-        this.events.emit("job_error", this.queue, job.id, error.message);
-        this.stats.failedJobs++;
+      await this.failJob(job, err, startTime);
+    } finally {
+      clearInterval(heartbeat);
+      await this.limiter.recordJobCompletion();
+      this.activeJobSignals.delete(job.id);
+      this.emitStatsUpdate();
+    }
+  }
+
+  /**
+   * Processes a batch of compatible jobs in one executeBatch() call. The batch counts as a
+   * single run for the limiter, costing the sum of its jobs. It is only aborted once all of
+   * its jobs are, or when it runs past the shortest time limit of its jobs.
+   */
+  protected async processBatch(jobs: Array<Job<Input, Output>>): Promise<void> {
+    const startTime = Date.now();
+    const heartbeat = setInterval(() => {
+      for (const job of jobs) {
+        this.saveHeartbeat(job.id).catch((error) =>
+          console.error(`Error saving heartbeat for job ${job.id}: ${error}`)
+        );
       }
+    }, this.heartbeatIntervalMs);
+    const batchController = new AbortController();
+    const running: Array<Job<Input, Output>> = [];
+    const isAborted = (job: Job<Input, Output>) =>
+      this.activeJobSignals.get(job.id)?.signal.aborted ?? true;
 
-      await this.complete(job.id, undefined, error);
+    try {
+      await this.limiter.recordJobStart(jobs.reduce((cost, job) => cost + job.cost(), 0));
+      this.emitStatsUpdate();
+
+      for (const job of jobs) {
+        try {
+          await this.validateJobState(job);
+          this.prepareRequeuedJob(job.id);
+          const abortController = this.activeJobSignals.get(job.id)!;
+          abortController.signal.addEventListener(
+            "abort",
+            () => {
+              if (running.every(isAborted)) batchController.abort(abortController.signal.reason);
+            },
+            { once: true }
+          );
+          this.events.emit("job_start", this.queue, job.id);
+          await this.injectDependencyOutputs(job);
+          running.push(job);
+        } catch (err: any) {
+          await this.failJob(job, err, startTime);
+        }
+      }
+      if (running.length === 0) return;
+
+      let outputs: Array<Output | Error>;
+      try {
+        outputs = await this.executeBatchWithTimeout(running, batchController);
+        if (outputs.length !== running.length) {
+          throw new PermanentJobError(
+            `Batch of ${running.length} jobs returned ${outputs.length} outputs`
+          );
+        }
+      } catch (err: any) {
+        const reason = batchController.signal.reason;
+        const error = reason instanceof TimeoutJobError ? reason : err;
+        for (const job of running) {
+          await this.failJob(
+            job,
+            isAborted(job) ? new AbortSignalJobError("Aborted") : error,
+            startTime
+          );
+        }
+        return;
+      }
+
+      if (!outputs.some((output) => output instanceof RateLimitedJobError)) {
+        await this.limiter.recordJobSuccess?.();
+      }
+      for (const [index, job] of running.entries()) {
+        const output = outputs[index];
+        if (isAborted(job)) {
+          await this.failJob(job, new AbortSignalJobError("Aborted"), startTime);
+        } else if (output instanceof Error) {
+          await this.failJob(job, output, startTime);
+        } else {
+          await this.recordRun(job, "completed", null, startTime);
+          await this.complete(job.id, output);
+        }
+      }
     } finally {
+      clearInterval(heartbeat);
       await this.limiter.recordJobCompletion();
-      this.activeJobSignals.delete(job.id);
+      for (const job of jobs) this.activeJobSignals.delete(job.id);
       this.emitStatsUpdate();
     }
   }
 
+  /**
+   * Claims more ready jobs with the same batch key as the first one, waiting up to the
+   * batching window for the batch to fill up
+   */
+  protected async collectBatch(first: Job<Input, Output>): Promise<Array<Job<Input, Output>>> {
+    const batchKey = first.batchKey();
+    const { maxSize, maxWaitMs } = this.batching ?? { maxSize: 1, maxWaitMs: 0 };
+    const jobs = [first];
+    if (batchKey === null || maxSize <= 1) return jobs;
+    const deadline = Date.now() + maxWaitMs;
+    while (true) {
+      jobs.push(...(await this.nextBatch(batchKey, maxSize - jobs.length)));
+      const remaining = deadline - Date.now();
+      if (jobs.length >= maxSize || remaining <= 0) break;
+      await sleep(Math.min(this.waitDurationInMilliseconds, remaining));
+    }
+    return jobs;
+  }
+
+  /**
+   * Records a failed run of a job: sorts out whether it was aborted, will be retried or
+   * failed for good, and completes it with the error
+   * @param startTime - When the run started, for the stats
+   */
+  protected async failJob(
+    job: Job<Input, Output>,
+    err: any,
+    startTime: number = Date.now()
+  ): Promise<void> {
+    // the job may have rejected with its own error when the timeout aborted it
+    const signalReason = this.activeJobSignals.get(job.id)?.signal.reason;
+    const error = this.normalizeError(signalReason instanceof TimeoutJobError ? signalReason : err);
+    if (error instanceof TimeoutJobError) {
+      this.stats.timedOutJobs++;
+    }
+    if (error instanceof RateLimitedJobError) {
+      await this.recordRateLimit(error);
+    }
+
+    let outcome: JobRunOutcome = "failed";
+    if (error instanceof AbortSignalJobError) {
+      this.events.emit("job_aborting", this.queue, job.id);
+      this.stats.abortedJobs++;
+      outcome = "aborted";
+    } else if (
+      error instanceof RetryableJobError &&
+      error.retryable &&
+      this.canRetry({ retries: job.retries + 1, maxRetries: job.maxRetries })
+    ) {
+      const retryDate = this.retryDateFor(error, job.retries + 1);
+      this.events.emit("job_retry", this.queue, job.id, retryDate);
+      this.stats.retriedJobs++;
+      outcome = "retried";
+    } else {
+      this.events.emit(
+        "job_error",
+        this.queue,
+        job.id,
+        error.message,
+        error instanceof TimeoutJobError ? error.timeoutMs : undefined
+      );
+      this.stats.failedJobs++;
+    }
+
+    await this.recordRun(job, outcome, error.name, startTime);
+    await this.complete(job.id, undefined, error);
+  }
+
+  /**
+   * Feeds a provider's throttling into the limiter: no job starts before the retry-after
+   * time, and limiters that adapt to the provider slow down
+   */
+  protected async recordRateLimit(info: RateLimitInfo): Promise<void> {
+    if (info.retryAfter) {
+      await this.limiter.setNextAvailableTime(info.retryAfter);
+    }
+    await this.limiter.recordRateLimit?.(info);
+  }
+
   /**
    * Validates the state of a job before processing
    */
@@ -366,25 +1393,33 @@ export abstract class JobQueue<Input, Output> {
   }
 
   /**
-   * Normalizes different types of errors into JobError instances
+   * Normalizes different types of errors into JobError instances,
+   * letting the retry policy decide which plain errors are worth retrying
    */
   protected normalizeError(err: any): JobError {
-    if (err instanceof JobError) {
-      return err;
-    }
-    if (err instanceof Error) {
-      return new PermanentJobError(err.message);
-    }
-    return new PermanentJobError(String(err));
+    return this.activeRetryPolicy.classify(err);
   }
 
   /**
-   * Updates average processing time statistics
+   * Persists a finished run of a job for getStats() and updates the average processing time
+   * of this queue instance. Stats are not worth failing the job over, so errors are logged.
    */
-  protected updateAverageProcessingTime(): void {
-    const times = Array.from(this.processingTimes.values());
-    if (times.length > 0) {
-      this.stats.averageProcessingTime = times.reduce((a, b) => a + b, 0) / times.length;
+  protected async recordRun(
+    job: Job<Input, Output>,
+    outcome: JobRunOutcome,
+    errorCode: string | null,
+    startTime: number
+  ): Promise<void> {
+    const durationMs = Date.now() - startTime;
+    if (outcome === "completed") {
+      this.processingTimeTotal += durationMs;
+      this.processingTimeCount++;
+      this.stats.averageProcessingTime = this.processingTimeTotal / this.processingTimeCount;
+    }
+    try {
+      await this.saveRun({ jobId: job.id, outcome, errorCode, durationMs, finishedAt: new Date() });
+    } catch (error) {
+      console.error(`Error saving the run of job ${job.id}: ${error}`);
     }
   }
 
@@ -407,10 +1442,29 @@ export abstract class JobQueue<Input, Output> {
   ): void {
     const promises = this.activeJobPromises.get(jobId) || [];
 
+    if (status === JobStatus.FAILED || status === JobStatus.COMPLETED) {
+      this.publish({
+        type: "job_completed",
+        queue: this.queue,
+        source: this.notifierSource,
+        jobId,
+        status,
+      });
+    }
+
     if (status === JobStatus.FAILED) {
       this.stats.failedJobs++;
-      this.events.emit("job_error", this.queue, jobId, `${error!.name}: ${error!.message}`);
+      this.events.emit(
+        "job_error",
+        this.queue,
+        jobId,
+        `${error!.name}: ${error!.message}`,
+        error instanceof TimeoutJobError ? error.timeoutMs : undefined
+      );
       promises.forEach(({ reject }) => reject(error!));
+      this.cascadeDependencyFailures().catch((err) =>
+        console.error(`Error failing dependents of job ${jobId}: ${err}`)
+      );
     } else if (status === JobStatus.COMPLETED) {
       this.stats.completedJobs++;
       this.events.emit("job_complete", this.queue, jobId, output!);
@@ -422,14 +1476,34 @@ export abstract class JobQueue<Input, Output> {
   }
 
   /**
-   * Returns a promise that resolves when the job completes
+   * The statuses of the jobs with the same input that add() returns instead of adding a new
+   * job, in order of preference
+   */
+  protected dedupeStatuses({ dedupe = "always-new" }: JobQueueAddOptions = {}): JobStatus[] {
+    switch (dedupe) {
+      case "reuse-completed":
+        return [JobStatus.COMPLETED, JobStatus.PROCESSING, JobStatus.PENDING];
+      case "join-inflight":
+        return [JobStatus.PROCESSING, JobStatus.PENDING];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Returns a promise that resolves when the job completes, right away for a job that
+   * already has (like one reused by add())
    */
   public waitFor(jobId: unknown): Promise<Output> {
-    return new Promise((resolve, reject) => {
+    const promise = new Promise<Output>((resolve, reject) => {
       const promises = this.activeJobPromises.get(jobId) || [];
       promises.push({ resolve, reject });
       this.activeJobPromises.set(jobId, promises);
     });
+    this.settleFromStorage(jobId).catch((err) =>
+      console.error(`Error checking whether job ${jobId} is done: ${err}`)
+    );
+    return promise;
   }
 
   /**
@@ -469,6 +1543,27 @@ export abstract class JobQueue<Input, Output> {
 
     await this.saveProgress(jobId, progress, message, details ?? null);
 
+    this.emitProgress(jobId, progress, message, details);
+    this.publish({
+      type: "job_progress",
+      queue: this.queue,
+      source: this.notifierSource,
+      jobId,
+      progress,
+      message,
+      details,
+    });
+  }
+
+  /**
+   * Emits a progress update to the general event and the job-specific listeners
+   */
+  protected emitProgress(
+    jobId: unknown,
+    progress: number,
+    message: string,
+    details: Record<string, any> | null
+  ): void {
     // Emit the general event
     this.events.emit("job_progress", this.queue, jobId, progress, message, details);
 
@@ -482,10 +1577,63 @@ export abstract class JobQueue<Input, Output> {
   }
 
   /**
-   * Returns current queue statistics
+   * Returns the statistics of the queue over a time window, from the runs persisted in its
+   * storage by all processes. For the live counters of this queue instance, listen to the
+   * queue_stats_update event.
    */
-  public getStats(): JobQueueStats {
-    return { ...this.stats };
+  public async getStats({
+    window = 60 * 60 * 1000,
+    bucketMs = 60 * 1000,
+  }: JobQueueStatsOptions = {}): Promise<JobQueueWindowStats> {
+    const now = Date.now();
+    const runs = await this.listRuns(new Date(now - window));
+
+    const counts = {} as Record<JobStatus, number>;
+    for (const status of Object.values(JobStatus)) {
+      counts[status] = await this.size(status);
+    }
+
+    const bucketCount = Math.max(1, Math.ceil(window / bucketMs));
+    const firstBucket = now - bucketCount * bucketMs;
+    const bucketRuns: Array<Array<JobRunRecord>> = Array.from({ length: bucketCount }, () => []);
+    const errors: Record<string, number> = {};
+    let timedOutJobs = 0;
+    let completedDurationMs = 0;
+    // a single pass over the runs, a window can hold tens of thousands of them
+    for (const run of runs) {
+      if (run.outcome !== "completed" && run.errorCode) {
+        errors[run.errorCode] = (errors[run.errorCode] ?? 0) + 1;
+      }
+      if (run.errorCode === "TimeoutJobError") timedOutJobs++;
+      if (run.outcome === "completed") completedDurationMs += run.durationMs;
+      // a bucket holds the runs that finished after its start, up to and including its end
+      const index = Math.ceil((run.finishedAt.getTime() - firstBucket) / bucketMs) - 1;
+      if (index >= 0 && index < bucketCount) bucketRuns[index].push(run);
+    }
+    const buckets = bucketRuns.map((inBucket, index) => ({
+      start: new Date(firstBucket + index * bucketMs),
+      ...summarizeRuns(inBucket),
+    }));
+
+    const summary = summarizeRuns(runs);
+    return {
+      window,
+      counts,
+      totalJobs: Object.values(counts).reduce((total, count) => total + count, 0),
+      completedJobs: summary.completed,
+      failedJobs: summary.failed,
+      abortedJobs: summary.aborted,
+      retriedJobs: summary.retried,
+      timedOutJobs,
+      averageProcessingTime: summary.completed
+        ? completedDurationMs / summary.completed
+        : undefined,
+      latency: summary.latency,
+      throughputPerMinute: summary.completed / (window / (60 * 1000)),
+      errors,
+      buckets,
+      lastUpdateTime: new Date(now),
+    };
   }
 
   /**
@@ -536,6 +1684,8 @@ export abstract class JobQueue<Input, Output> {
       createdAt: results.createdAt ? new Date(results.createdAt + "Z") : null,
       deadlineAt: results.deadlineAt ? new Date(results.deadlineAt + "Z") : null,
       lastRanAt: results.lastRanAt ? new Date(results.lastRanAt + "Z") : null,
+      completedAt: results.completedAt ? new Date(results.completedAt + "Z") : null,
+      lastHeartbeatAt: results.lastHeartbeatAt ? new Date(results.lastHeartbeatAt + "Z") : null,
       progress: results.progress || 0,
       progressMessage: results.progressMessage || "",
       progressDetails: results.progressDetails ?? null,
@@ -544,6 +1694,31 @@ export abstract class JobQueue<Input, Output> {
     return job;
   }
 
+  /**
+   * Creates a schedule from the provided database results
+   * @param results - The schedule data from the database
+   */
+  public createNewSchedule(results: any, parseIO = true): JobSchedule<Input> {
+    const parse = (value: any) =>
+      parseIO && typeof value === "string" ? JSON.parse(value) : value;
+    return {
+      id: results.id,
+      queueName: results.queue ?? results.queueName,
+      cron: results.cron ?? null,
+      intervalMs: results.intervalMs != null ? Number(results.intervalMs) : null,
+      timezone: results.timezone ?? null,
+      input: parse(results.input) as Input,
+      overlap: results.overlap ?? "skip",
+      priority: Number(results.priority) || 0,
+      maxRetries: results.maxRetries != null ? Number(results.maxRetries) : null,
+      paused: Boolean(results.paused),
+      nextRunAt: new Date(results.nextRunAt),
+      lastRunAt: results.lastRunAt ? new Date(results.lastRunAt) : null,
+      lastJobId: results.lastJobId != null ? parse(results.lastJobId) : null,
+      createdAt: new Date(results.createdAt),
+    };
+  }
+
   /**
    * Main job processing loop
    */
@@ -551,18 +1726,82 @@ export abstract class JobQueue<Input, Output> {
     if (!this.running) {
       return;
     }
+    this.processJobsBusy = true;
     try {
       const canProceed = await this.limiter.canProceed();
       if (canProceed) {
         const job = await this.next();
-        if (job) {
+        if (job && this.batching && job.batchKey() !== null) {
+          this.processBatch(await this.collectBatch(job));
+        } else if (job) {
           this.processJob(job);
         }
       }
-      setTimeout(() => this.processJobs(), this.waitDurationInMilliseconds);
     } catch (error) {
       console.error(`Error in processJobs: ${error}`);
-      setTimeout(() => this.processJobs(), this.waitDurationInMilliseconds);
+    }
+    this.processJobsBusy = false;
+    // woken while busy means there may be another job waiting already
+    const delay = this.processJobsWoken ? 0 : this.waitDurationInMilliseconds;
+    this.processJobsWoken = false;
+    clearTimeout(this.processJobsTimer);
+    this.processJobsTimer = setTimeout(() => this.processJobs(), delay);
+  }
+
+  /**
+   * Periodically recovers jobs whose worker stopped sending heartbeats, and fails jobs
+   * whose dependencies failed in another process
+   */
+  private async monitorQueue(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    try {
+      await this.recoverStalledJobs();
+      await this.cascadeDependencyFailures();
+    } catch (error) {
+      console.error(`Error in monitorQueue: ${error}`);
+    }
+    if (this.running) {
+      clearTimeout(this.monitorQueueTimer);
+      this.monitorQueueTimer = setTimeout(() => this.monitorQueue(), this.heartbeatIntervalMs);
+    }
+  }
+
+  /**
+   * Periodically creates the jobs of the schedules that are due
+   */
+  private async runSchedules(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    try {
+      await this.materializeDueSchedules();
+    } catch (error) {
+      console.error(`Error in runSchedules: ${error}`);
+    }
+    if (this.running) {
+      clearTimeout(this.schedulesTimer);
+      this.schedulesTimer = setTimeout(() => this.runSchedules(), this.schedulerIntervalMs);
+    }
+  }
+
+  /**
+   * Periodically applies the retention policy
+   */
+  private async runCleanup(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    try {
+      await this.cleanup();
+    } catch (error) {
+      console.error(`Error in runCleanup: ${error}`);
+    }
+    // kept so stop() can clear it, the interval is long enough to hold up an exit
+    if (this.running) {
+      clearTimeout(this.cleanupTimer);
+      this.cleanupTimer = setTimeout(() => this.runCleanup(), this.cleanupIntervalMs);
     }
   }
 
@@ -641,15 +1880,23 @@ export abstract class JobQueue<Input, Output> {
     this.mode = mode;
 
     this.running = true;
+    this.unsubscribeNotifier = await this.notifier.subscribe(this.queue, (notification) =>
+      this.handleNotification(notification).catch((error) =>
+        console.error(`Error handling ${notification.type} notification: ${error}`)
+      )
+    );
     this.events.emit("queue_start", this.queue);
 
     // Start job processing if in SERVER or BOTH mode
     if (this.mode !== QueueMode.CLIENT) {
       this.processJobs();
+      this.monitorQueue();
+      this.runSchedules();
+      this.runCleanup();
     }
 
-    // Start job monitoring if in CLIENT or BOTH mode
-    if (this.mode !== QueueMode.SERVER) {
+    // Start job monitoring if in CLIENT or BOTH mode, progress is pushed when the notifier can
+    if (this.mode !== QueueMode.SERVER && !this.notifier.pushes) {
       this.monitorJobs();
     }
 
@@ -662,6 +1909,12 @@ export abstract class JobQueue<Input, Output> {
   public async stop(): Promise<this> {
     if (this.running === false) return this;
     this.running = false;
+    clearTimeout(this.processJobsTimer);
+    clearTimeout(this.cleanupTimer);
+    clearTimeout(this.monitorQueueTimer);
+    clearTimeout(this.schedulesTimer);
+    this.unsubscribeNotifier?.();
+    this.unsubscribeNotifier = undefined;
 
     // Wait for pending operations to settle
     const size = await this.size(JobStatus.PROCESSING);
@@ -692,7 +1945,9 @@ export abstract class JobQueue<Input, Output> {
     await this.deleteAll();
     this.activeJobSignals.clear();
     this.activeJobPromises.clear();
-    this.processingTimes.clear();
+    this.processingTimeTotal = 0;
+    this.processingTimeCount = 0;
+    this.jobRunServedOrder.clear();
     this.lastKnownProgress.clear();
     this.jobProgressListeners.clear();
     this.stats = {
@@ -701,6 +1956,7 @@ export abstract class JobQueue<Input, Output> {
       failedJobs: 0,
       abortedJobs: 0,
       retriedJobs: 0,
+      timedOutJobs: 0,
       lastUpdateTime: new Date(),
     };
     this.emitStatsUpdate();
@@ -716,3 +1972,23 @@ export abstract class JobQueue<Input, Output> {
     return this.start();
   }
 }
+
+/**
+ * Counts runs by outcome and computes the latency percentiles of the completed ones
+ */
+function summarizeRuns(runs: Array<JobRunRecord>): Omit<JobQueueStatsBucket, "start"> {
+  const counts: Record<JobRunOutcome, number> = { completed: 0, failed: 0, retried: 0, aborted: 0 };
+  const durations: number[] = [];
+  for (const run of runs) {
+    counts[run.outcome]++;
+    if (run.outcome === "completed") durations.push(run.durationMs);
+  }
+  durations.sort((a, b) => a - b);
+  // nearest-rank percentile
+  const percentile = (p: number) =>
+    durations.length ? durations[Math.ceil((p / 100) * durations.length) - 1] : undefined;
+  return {
+    ...counts,
+    latency: { p50: percentile(50), p95: percentile(95), p99: percentile(99) },
+  };
+}
@@ -0,0 +1,106 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { nextCronDate } from "../../util/Cron";
+
+/**
+ * What a schedule does when it comes due while the job it created last time is still
+ * pending or processing:
+ * - "allow": create the job anyway, the runs may overlap
+ * - "skip": create nothing this time
+ * - "queue": create the job, but let it wait for the previous one to finish
+ */
+export type JobScheduleOverlap = "allow" | "skip" | "queue";
+
+/**
+ * Options for creating a schedule on a job queue. Exactly one of cron and intervalMs is needed.
+ */
+export interface JobScheduleOptions<Input> {
+  id?: string;
+  /** Cron expression (minute hour day-of-month month day-of-week) */
+  cron?: string;
+  /** Run every intervalMs milliseconds */
+  intervalMs?: number;
+  /** IANA time zone the cron expression is read in (default "UTC") */
+  timezone?: string;
+  /**
+   * Input for the jobs. String values may contain {{scheduledAt}} (ISO date the job was due)
+   * and {{scheduleId}}, which are filled in for each job.
+   */
+  input: Input;
+  overlap?: JobScheduleOverlap;
+  priority?: number;
+  maxRetries?: number;
+  /** First run, by default the next cron match or one interval from now */
+  startAt?: Date;
+  paused?: boolean;
+}
+
+/**
+ * A recurring job, stored with the queue it creates jobs in
+ */
+export interface JobSchedule<Input> {
+  id: string;
+  queueName: string;
+  cron: string | null;
+  intervalMs: number | null;
+  timezone: string | null;
+  input: Input;
+  overlap: JobScheduleOverlap;
+  priority: number;
+  maxRetries: number | null;
+  paused: boolean;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+  lastJobId: unknown | null;
+  createdAt: Date;
+}
+
+/**
+ * Returns the first run of a schedule after `now`. Runs missed while no scheduler was
+ * running are not made up for, an interval schedule keeps its phase though.
+ * @param schedule - The schedule
+ * @param now - The current time
+ * @param previous - When the schedule was last due, if it was
+ */
+export function nextScheduleRun(
+  schedule: Pick<JobSchedule<unknown>, "cron" | "intervalMs" | "timezone">,
+  now: Date,
+  previous?: Date
+): Date {
+  if (schedule.cron) {
+    return nextCronDate(schedule.cron, now, schedule.timezone ?? "UTC");
+  }
+  const intervalMs = schedule.intervalMs!;
+  if (!previous) {
+    return new Date(now.getTime() + intervalMs);
+  }
+  const intervals = Math.max(1, Math.floor((now.getTime() - previous.getTime()) / intervalMs) + 1);
+  return new Date(previous.getTime() + intervals * intervalMs);
+}
+
+/**
+ * Fills in the {{name}} placeholders of the string values in a schedule's input template
+ */
+export function renderScheduleInput<Input>(
+  template: Input,
+  variables: Record<string, string>
+): Input {
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return value.replace(/\{\{(\w+)\}\}/g, (match, name) => variables[name] ?? match);
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item)]));
+    }
+    return value;
+  };
+  return render(template) as Input;
+}
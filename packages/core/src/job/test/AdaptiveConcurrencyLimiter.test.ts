@@ -0,0 +1,117 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { AdaptiveConcurrencyLimiter } from "../AdaptiveConcurrencyLimiter";
+import { RateLimitedJobError } from "../base/JobQueue";
+
+/**
+ * Stands in for a provider that takes up to `capacity` requests at once and throttles the
+ * rest, always the same way
+ */
+class ThrottlingProvider {
+  private inFlight = 0;
+  constructor(private readonly capacity: number) {}
+
+  begin() {
+    if (this.inFlight >= this.capacity) {
+      throw new RateLimitedJobError("Too many requests", undefined, 0);
+    }
+    this.inFlight++;
+  }
+
+  end() {
+    this.inFlight--;
+  }
+}
+
+/**
+ * Runs rounds of requests through the limiter: each round starts as many requests as the
+ * limiter allows, then all of them finish. Returns the concurrency of each round.
+ */
+async function simulate(
+  limiter: AdaptiveConcurrencyLimiter,
+  provider: ThrottlingProvider,
+  rounds: number
+) {
+  const concurrency: number[] = [];
+  for (let round = 0; round < rounds; round++) {
+    concurrency.push(limiter.concurrency);
+    const results: Array<RateLimitedJobError | null> = [];
+    while (await limiter.canProceed()) {
+      await limiter.recordJobStart();
+      try {
+        provider.begin();
+        results.push(null);
+      } catch (error) {
+        results.push(error as RateLimitedJobError);
+      }
+    }
+    for (const error of results) {
+      if (error) {
+        await limiter.recordRateLimit(error);
+      } else {
+        provider.end();
+        await limiter.recordJobSuccess();
+      }
+      await limiter.recordJobCompletion();
+    }
+  }
+  return concurrency;
+}
+
+describe("AdaptiveConcurrencyLimiter", () => {
+  it("should start at the initial concurrency", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(8, 1, 2);
+    expect(limiter.concurrency).toBe(2);
+    await limiter.recordJobStart();
+    expect(await limiter.canProceed()).toBe(true);
+    await limiter.recordJobStart();
+    expect(await limiter.canProceed()).toBe(false);
+    await limiter.recordJobCompletion();
+    expect(await limiter.canProceed()).toBe(true);
+  });
+
+  it("should grow by one slot per round of successes, up to the max", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(3);
+    const concurrency = await simulate(limiter, new ThrottlingProvider(10), 5);
+    expect(concurrency).toEqual([1, 2, 3, 3, 3]);
+  });
+
+  it("should halve on throttling and probe the provider's capacity again", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(16, 1, 1, 0);
+    const concurrency = await simulate(limiter, new ThrottlingProvider(4), 12);
+    expect(concurrency).toEqual([1, 2, 3, 4, 5, 2, 3, 4, 5, 2, 3, 4]);
+  });
+
+  it("should not go below the min or above the remaining quota", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(16, 2, 8, 0);
+    await limiter.recordRateLimit({ remainingQuota: 3 });
+    expect(limiter.concurrency).toBe(3);
+    await limiter.recordRateLimit({});
+    expect(limiter.concurrency).toBe(2);
+    await limiter.recordRateLimit({ remainingQuota: 0 });
+    expect(limiter.concurrency).toBe(2);
+  });
+
+  it("should leave out throttles within the cooldown of a decrease", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(16, 1, 8, 1000);
+    await limiter.recordRateLimit({});
+    await limiter.recordRateLimit({});
+    expect(limiter.concurrency).toBe(4);
+  });
+
+  it("should hold off until an externally set time", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(4);
+    const retryAfter = new Date(Date.now() + 1000);
+    await limiter.setNextAvailableTime(retryAfter);
+    expect(await limiter.canProceed()).toBe(false);
+    expect((await limiter.getNextAvailableTime()).getTime()).toBe(retryAfter.getTime());
+    await limiter.clear();
+    expect(await limiter.canProceed()).toBe(true);
+  });
+});
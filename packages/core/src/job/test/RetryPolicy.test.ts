@@ -0,0 +1,128 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { RetryPolicy } from "../RetryPolicy";
+import {
+  AbortSignalJobError,
+  PermanentJobError,
+  RateLimitedJobError,
+  RetryableJobError,
+} from "../base/JobQueue";
+import { DEFAULT_MAX_RETRIES } from "../base/Job";
+
+describe("RetryPolicy", () => {
+  describe("delays", () => {
+    it("should grow exponentially up to the max delay", () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: 0 });
+      expect([1, 2, 3, 4, 5].map((attempt) => policy.delayFor(attempt))).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    it("should support linear and fixed backoff", () => {
+      const linear = new RetryPolicy({ backoff: "linear", baseDelayMs: 100, jitter: 0 });
+      expect([1, 2, 3].map((attempt) => linear.delayFor(attempt))).toEqual([100, 200, 300]);
+      const fixed = new RetryPolicy({ backoff: "fixed", baseDelayMs: 100, jitter: 0 });
+      expect([1, 2, 3].map((attempt) => fixed.delayFor(attempt))).toEqual([100, 100, 100]);
+    });
+
+    it("should only shorten delays by the jitter fraction", () => {
+      const low = new RetryPolicy({ baseDelayMs: 1000, jitter: 0.5, random: () => 1 });
+      expect(low.delayFor(1)).toBe(500);
+      const high = new RetryPolicy({ baseDelayMs: 1000, jitter: 0.5, random: () => 0 });
+      expect(high.delayFor(1)).toBe(1000);
+    });
+
+    it("should compute the next retry date from now", () => {
+      const policy = new RetryPolicy({ baseDelayMs: 250, jitter: 0 });
+      const now = new Date("2024-01-01T00:00:00Z");
+      expect(policy.nextRetryDate(2, now).getTime()).toBe(now.getTime() + 500);
+    });
+  });
+
+  describe("attempts", () => {
+    it("should use the lower of the policy and job limits", () => {
+      const policy = new RetryPolicy({ maxAttempts: 3 });
+      expect(policy.canRetry(2)).toBe(true);
+      expect(policy.canRetry(3)).toBe(false);
+      expect(policy.canRetry(1, 2)).toBe(true);
+      expect(policy.canRetry(2, 2)).toBe(false);
+    });
+
+    it("should default to the shared max retries", () => {
+      expect(new RetryPolicy().maxAttempts).toBe(DEFAULT_MAX_RETRIES);
+    });
+  });
+
+  describe("classify", () => {
+    const policy = new RetryPolicy();
+
+    it("should keep job errors as they are", () => {
+      const retryDate = new Date();
+      const retryable = new RetryableJobError("later", retryDate);
+      expect(policy.classify(retryable)).toBe(retryable);
+      const aborted = new AbortSignalJobError("stop");
+      expect(policy.classify(aborted)).toBe(aborted);
+    });
+
+    it("should treat plain errors as permanent", () => {
+      const error = policy.classify(new Error("Model not found"));
+      expect(error).toBeInstanceOf(PermanentJobError);
+      expect(error.message).toBe("Model not found");
+    });
+
+    it("should retry timeouts and network failures", () => {
+      expect(policy.classify(new Error("Request timed out"))).toBeInstanceOf(RetryableJobError);
+      const timeout = new Error("aborted");
+      timeout.name = "TimeoutError";
+      expect(policy.classify(timeout)).toBeInstanceOf(RetryableJobError);
+      expect(policy.classify(new Error("fetch failed"))).toBeInstanceOf(RetryableJobError);
+    });
+
+    it("should retry rate limits and honor retry-after", () => {
+      const error = Object.assign(new Error("Slow down"), {
+        status: 429,
+        headers: { "retry-after": "30" },
+      });
+      const classified = policy.classify(error) as RetryableJobError;
+      expect(classified).toBeInstanceOf(RetryableJobError);
+      const wait = classified.retryDate!.getTime() - Date.now();
+      expect(wait).toBeGreaterThan(29_000);
+      expect(wait).toBeLessThanOrEqual(30_000);
+    });
+
+    it("should read the remaining quota of rate limits", () => {
+      const error = Object.assign(new Error("Rate limit reached"), {
+        headers: new Headers({ "retry-after": "1", "x-ratelimit-remaining": "0" }),
+      });
+      const classified = policy.classify(error) as RateLimitedJobError;
+      expect(classified).toBeInstanceOf(RateLimitedJobError);
+      expect(classified.retryAfter).toEqual(classified.retryDate!);
+      expect(classified.remainingQuota).toBe(0);
+    });
+
+    it("should leave the retry date to the policy when there is no hint", () => {
+      const classified = policy.classify(new Error("Too Many Requests")) as RetryableJobError;
+      expect(classified).toBeInstanceOf(RetryableJobError);
+      expect(classified.retryDate).toBeUndefined();
+    });
+
+    it("should apply custom patterns, permanent ones first", () => {
+      const custom = new RetryPolicy({
+        retryablePatterns: [/busy/i],
+        permanentPatterns: [/invalid api key/i],
+        retryOnTimeout: false,
+      });
+      expect(custom.classify(new Error("Server busy"))).toBeInstanceOf(RetryableJobError);
+      expect(custom.classify(new Error("Invalid API key, rate limit"))).toBeInstanceOf(
+        PermanentJobError
+      );
+      expect(custom.classify(new Error("timed out"))).toBeInstanceOf(PermanentJobError);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import EventEmitter from "eventemitter3";
+import { TaskInput, TaskOutput, TaskStatus } from "../../task/base/Task";
+import { DataFlowIdType } from "../../task/base/TaskGraph";
+import { IKVRepository } from "../base/IKVRepository";
+
+/**
+ * Events that can be emitted by the GraphRunRepository
+ */
+export type GraphRunEvents = "run_saved" | "run_retrieved" | "run_deleted" | "run_cleared";
+
+/**
+ * The persisted state of a single task in a graph run
+ */
+export type GraphRunTaskState = {
+  id: unknown;
+  status: TaskStatus;
+  output?: TaskOutput;
+  error?: string;
+  provenance?: TaskInput;
+};
+
+/**
+ * The persisted value and provenance carried by a data flow in a graph run
+ */
+export type GraphRunDataFlowState = {
+  id: DataFlowIdType;
+  value: any;
+  provenance: TaskInput;
+  active?: boolean;
+};
+
+/**
+ * A checkpoint of a graph run, enough to resume it later
+ */
+export type GraphRun = {
+  runId: string;
+  status: TaskStatus;
+  parentProvenance: TaskInput;
+  tasks: GraphRunTaskState[];
+  dataFlows: GraphRunDataFlowState[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Abstract repository class for persisting graph run checkpoints, so that a run can be
+ * resumed after the process stops.
+ */
+export abstract class GraphRunRepository {
+  public type = "GraphRunRepository";
+  abstract kvRepository: IKVRepository;
+  private events = new EventEmitter<GraphRunEvents>();
+
+  /**
+   * Registers an event listener for the specified event
+   * @param name The event name to listen for
+   * @param fn The callback function to execute when the event occurs
+   */
+  on(name: GraphRunEvents, fn: (...args: any[]) => void) {
+    this.events.on.call(this.events, name, fn);
+  }
+
+  /**
+   * Removes an event listener for the specified event
+   * @param name The event name to stop listening for
+   * @param fn The callback function to remove
+   */
+  off(name: GraphRunEvents, fn: (...args: any[]) => void) {
+    this.events.off.call(this.events, name, fn);
+  }
+
+  /**
+   * Emits an event with the given arguments
+   * @param name The event name to emit
+   * @param args Additional arguments to pass to the event listeners
+   */
+  emit(name: GraphRunEvents, ...args: any[]) {
+    this.events.emit.call(this.events, name, ...args);
+  }
+
+  /**
+   * Saves a graph run checkpoint, replacing any previous checkpoint of the same run
+   * @param run The graph run to save
+   * @emits run_saved when the operation completes
+   */
+  async saveRun(run: GraphRun): Promise<void> {
+    await this.kvRepository.put(run.runId, JSON.stringify(run));
+    this.emit("run_saved", run.runId);
+  }
+
+  /**
+   * Retrieves a graph run checkpoint
+   * @param runId The id of the graph run to retrieve
+   * @returns The graph run, or undefined if not found
+   * @emits run_retrieved when the operation completes successfully
+   */
+  async getRun(runId: string): Promise<GraphRun | undefined> {
+    const jsonStr = (await this.kvRepository.get(runId)) as string;
+    if (!jsonStr) {
+      return undefined;
+    }
+    const run = JSON.parse(jsonStr) as GraphRun;
+    this.emit("run_retrieved", runId);
+    return run;
+  }
+
+  /**
+   * Deletes a graph run checkpoint
+   * @param runId The id of the graph run to delete
+   * @emits run_deleted when the operation completes
+   */
+  async deleteRun(runId: string): Promise<void> {
+    await this.kvRepository.delete({ key: runId });
+    this.emit("run_deleted", runId);
+  }
+
+  /**
+   * Clears all graph runs from the repository
+   * @emits run_cleared when the operation completes
+   */
+  async clear(): Promise<void> {
+    await this.kvRepository.deleteAll();
+    this.emit("run_cleared");
+  }
+
+  /**
+   * Returns the number of graph runs stored in the repository
+   * @returns The count of stored graph runs
+   */
+  async size(): Promise<number> {
+    return await this.kvRepository.size();
+  }
+}
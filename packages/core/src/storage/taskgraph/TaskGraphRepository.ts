@@ -9,6 +9,7 @@ import EventEmitter from "eventemitter3";
 import { DataFlow, TaskGraph, TaskGraphItemJson, TaskGraphJson } from "../../task/base/TaskGraph";
 import { CompoundTask } from "../../task/base/Task";
 import { TaskRegistry } from "../../task/base/TaskRegistry";
+import { ValueTypeRegistry } from "../../task/base/ValueTypeRegistry";
 import { IKVRepository } from "../base/IKVRepository";
 
 /**
@@ -72,8 +73,9 @@ export abstract class TaskGraphRepository {
     const taskConfig = {
       id: item.id,
       name: item.name,
-      input: item.input ?? {},
+      input: ValueTypeRegistry.deserializeInput(taskClass.inputs, item.input ?? {}),
       provenance: item.provenance ?? {},
+      ...(item.combination ? { combination: item.combination } : {}),
     };
     const task = new taskClass(taskConfig);
     if (item.subgraph) {
@@ -0,0 +1,168 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { SingleTask, TaskConfig } from "./base/Task";
+import { TaskGraphBuilder, TaskGraphBuilderHelper } from "./base/TaskGraphBuilder";
+import { TaskRegistry } from "./base/TaskRegistry";
+
+/**
+ * Comparisons that can be used instead of a condition, so the branch can be expressed in JSON
+ */
+export type ConditionalOperator =
+  | "truthy"
+  | "falsy"
+  | "equals"
+  | "not_equals"
+  | "greater_than"
+  | "less_than"
+  | "length_greater_than"
+  | "length_less_than";
+
+/**
+ * Type definitions for ConditionalTask input and output
+ */
+export type ConditionalTaskInput = {
+  value: any;
+  condition?: boolean | ((value: any) => boolean);
+  operator?: ConditionalOperator;
+  compareTo?: any;
+};
+export type ConditionalTaskOutput = {
+  then?: any;
+  else?: any;
+};
+
+/**
+ * Evaluates a comparison operator against a value
+ */
+function compare(value: any, operator: ConditionalOperator, compareTo: any): boolean {
+  switch (operator) {
+    case "truthy":
+      return !!value;
+    case "falsy":
+      return !value;
+    case "equals":
+      return value === compareTo;
+    case "not_equals":
+      return value !== compareTo;
+    case "greater_than":
+      return value > compareTo;
+    case "less_than":
+      return value < compareTo;
+    case "length_greater_than":
+      return (value?.length ?? 0) > compareTo;
+    case "length_less_than":
+      return (value?.length ?? 0) < compareTo;
+    default:
+      throw new Error(`Unknown operator: ${operator}`);
+  }
+}
+
+/**
+ * ConditionalTask routes its value to either the "then" or the "else" output. Only the chosen
+ * output is active, so the tasks downstream of the other one are skipped by the runner.
+ *
+ * The branch is chosen by the condition if given (a boolean, or a function called with the
+ * value), otherwise by comparing the value with the operator and compareTo inputs.
+ */
+export class ConditionalTask extends SingleTask {
+  static readonly type = "ConditionalTask";
+  static readonly category = "Utility";
+  declare runInputData: ConditionalTaskInput;
+  declare defaults: Partial<ConditionalTaskInput>;
+  declare runOutputData: ConditionalTaskOutput;
+
+  public static inputs = [
+    {
+      id: "value",
+      name: "Value",
+      valueType: "any",
+    },
+    {
+      id: "condition",
+      name: "Condition",
+      valueType: "any", // boolean or function
+      optional: true,
+    },
+    {
+      id: "operator",
+      name: "Operator",
+      valueType: "text",
+      defaultValue: "truthy",
+    },
+    {
+      id: "compareTo",
+      name: "Compare To",
+      valueType: "any",
+      optional: true,
+    },
+  ] as const;
+
+  public static outputs = [
+    {
+      id: "then",
+      name: "Then",
+      valueType: "any",
+    },
+    {
+      id: "else",
+      name: "Else",
+      valueType: "any",
+    },
+  ] as const;
+
+  constructor(config: TaskConfig & { input?: Partial<ConditionalTaskInput> } = {}) {
+    super(config);
+  }
+
+  /**
+   * Evaluates the condition and outputs the value on the chosen branch only
+   */
+  async runReactive(): Promise<ConditionalTaskOutput> {
+    const { value, condition, operator = "truthy", compareTo } = this.runInputData;
+    let taken: boolean;
+    if (typeof condition === "function") {
+      taken = !!condition(value);
+    } else if (condition !== undefined && condition !== null) {
+      taken = !!condition;
+    } else {
+      taken = compare(value, operator, compareTo);
+    }
+    this.runOutputData = taken ? { then: value } : { else: value };
+    return this.runOutputData;
+  }
+
+  isOutputActive(outputId: string): boolean {
+    return outputId in this.runOutputData;
+  }
+}
+
+// Register ConditionalTask with the task registry
+TaskRegistry.registerTask(ConditionalTask);
+
+/**
+ * Helper function to create and configure a ConditionalTask instance
+ */
+const ConditionalBuilder = (input: ConditionalTaskInput) => {
+  return new ConditionalTask({ input });
+};
+
+/**
+ * Convenience function to create and run a ConditionalTask
+ */
+export const Conditional = (input: ConditionalTaskInput) => {
+  return ConditionalBuilder(input).run();
+};
+
+// Add Conditional task builder to TaskGraphBuilder interface
+declare module "./base/TaskGraphBuilder" {
+  interface TaskGraphBuilder {
+    Conditional: TaskGraphBuilderHelper<ConditionalTaskInput>;
+  }
+}
+
+TaskGraphBuilder.prototype.Conditional = TaskGraphBuilderHelper(ConditionalTask);
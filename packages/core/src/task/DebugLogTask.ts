@@ -8,10 +8,20 @@
 import { OutputTask } from "./base/OutputTask";
 import { TaskGraphBuilder, TaskGraphBuilderHelper } from "./base/TaskGraphBuilder";
 import { TaskRegistry } from "./base/TaskRegistry";
+import { ValueTypeRegistry } from "./base/ValueTypeRegistry";
 
 const log_levels = ["dir", "log", "debug", "info", "warn", "error"] as const;
 type LogLevel = (typeof log_levels)[number];
 
+ValueTypeRegistry.registerValueType<LogLevel>({
+  name: "log_level",
+  tsType: log_levels.map((level) => `"${level}"`).join(" | "),
+  parent: "text",
+  color: "#6b7280",
+  schema: { type: "string", enum: log_levels },
+  validate: (value) => log_levels.includes(value as LogLevel),
+});
+
 export type DebugLogTaskInput = {
   message: any;
   level: LogLevel;
@@ -60,13 +70,6 @@ export class DebugLogTask extends OutputTask {
     this.runOutputData.output = this.runInputData.message;
     return this.runOutputData;
   }
-
-  async validateItem(valueType: string, item: any) {
-    if (valueType == "log_level") {
-      return log_levels.includes(item);
-    }
-    return super.validateItem(valueType, item);
-  }
 }
 
 TaskRegistry.registerTask(DebugLogTask);
@@ -9,6 +9,8 @@ import { CompoundTask, RegenerativeCompoundTask, TaskConfig, TaskInput } from ".
 import { DataFlow, TaskGraph } from "./base/TaskGraph";
 import { TaskGraphBuilder, TaskGraphBuilderHelper } from "./base/TaskGraphBuilder";
 import { TaskRegistry } from "./base/TaskRegistry";
+import { ValueTypeRegistry } from "./base/ValueTypeRegistry";
+import type { ArrayTaskCombination } from "./base/ArrayTask";
 
 /**
  * Represents a single task item in the JSON configuration.
@@ -33,6 +35,7 @@ export type JsonTaskItem = {
   };
   provenance?: TaskInput; // Optional metadata about task origin
   subtasks?: JsonTaskItem[]; // Nested tasks for compound operations
+  combination?: ArrayTaskCombination; // How array inputs are combined by array tasks
 };
 
 type JsonTaskInput = {
@@ -103,8 +106,9 @@ export class JsonTask extends RegenerativeCompoundTask {
     const taskConfig = {
       id: item.id,
       name: item.name,
-      input: item.input ?? {},
+      input: ValueTypeRegistry.deserializeInput(taskClass.inputs, item.input ?? {}),
       provenance: item.provenance ?? {},
+      ...(item.combination ? { combination: item.combination } : {}),
     };
     const task = new taskClass(taskConfig);
     if (item.subtasks) {
@@ -115,28 +119,14 @@ export class JsonTask extends RegenerativeCompoundTask {
 
   /**
    * Creates a task graph from an array of JSON task items
-   * Recursively processes subtasks for compound tasks
+   * Recursively processes subtasks for compound tasks, and connects the tasks of each
+   * level according to their dependencies
    */
   private createSubGraph(jsonItems: JsonTaskItem[]) {
     const subGraph = new TaskGraph();
     for (const subitem of jsonItems) {
       subGraph.addTask(this.createTask(subitem));
     }
-    return subGraph;
-  }
-
-  /**
-   * Regenerates the entire task graph based on the current JSON input
-   * Creates task nodes and establishes data flow connections between them
-   */
-  public regenerateGraph() {
-    if (!this.runInputData.json) return;
-    let data = JSON.parse(this.runInputData.json) as JsonTaskItem[] | JsonTaskItem;
-    if (!Array.isArray(data)) data = [data];
-    const jsonItems: JsonTaskItem[] = data as JsonTaskItem[];
-
-    // Create task nodes
-    this.subGraph = this.createSubGraph(jsonItems);
 
     // Establish data flow connections
     for (const item of jsonItems) {
@@ -144,15 +134,30 @@ export class JsonTask extends RegenerativeCompoundTask {
       for (const [input, dependency] of Object.entries(item.dependencies)) {
         const dependencies = Array.isArray(dependency) ? dependency : [dependency];
         for (const dep of dependencies) {
-          const sourceTask = this.subGraph.getTask(dep.id);
+          const sourceTask = subGraph.getTask(dep.id);
           if (!sourceTask) {
             throw new Error(`Dependency id ${dep.id} not found`);
           }
           const df = new DataFlow(sourceTask.config.id, dep.output, item.id, input);
-          this.subGraph.addDataFlow(df);
+          subGraph.addDataFlow(df);
         }
       }
     }
+    return subGraph;
+  }
+
+  /**
+   * Regenerates the entire task graph based on the current JSON input
+   * Creates task nodes and establishes data flow connections between them
+   */
+  public regenerateGraph() {
+    if (!this.runInputData.json) return;
+    let data = JSON.parse(this.runInputData.json) as JsonTaskItem[] | JsonTaskItem;
+    if (!Array.isArray(data)) data = [data];
+    const jsonItems: JsonTaskItem[] = data as JsonTaskItem[];
+
+    // Create task nodes and their data flow connections
+    this.subGraph = this.createSubGraph(jsonItems);
     super.regenerateGraph();
   }
 
@@ -0,0 +1,182 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { CompoundTask, Task, TaskConfig, TaskInput, TaskOutput, TaskStatus } from "./base/Task";
+import { TaskGraphDiagnostic } from "./base/TaskGraph";
+import { TaskGraphRunner } from "./base/TaskGraphRunner";
+import { TaskRegistry } from "./base/TaskRegistry";
+import { TaskOutputRepository } from "../storage/taskoutput/TaskOutputRepository";
+
+/**
+ * Type definitions for LoopTask input and output
+ */
+export type LoopTaskInput = {
+  input: TaskInput;
+  maxIterations: number;
+  conditionOutput: string;
+};
+export type LoopTaskOutput = {
+  output: TaskOutput;
+  iterations: number;
+  conditionMet: boolean;
+  history: TaskOutput[];
+};
+
+/**
+ * LoopTask runs its subGraph repeatedly, feeding the outputs of one iteration back in as the
+ * inputs of the next, until the condition output is truthy or maxIterations is reached.
+ *
+ * The output of an iteration is the merge of the outputs of every completed task of the
+ * subGraph, in topological order. The tasks of the subGraph without incoming data flows receive
+ * the values of that output (or of the input, on the first iteration) whose ids match their
+ * input ids.
+ */
+export class LoopTask extends CompoundTask {
+  static readonly type = "LoopTask";
+  static readonly category = "Utility";
+  declare runInputData: LoopTaskInput;
+  declare runOutputData: LoopTaskOutput;
+  declare defaults: Partial<LoopTaskInput>;
+
+  public static inputs = [
+    {
+      id: "input",
+      name: "Initial Input",
+      valueType: "any",
+      defaultValue: {},
+    },
+    {
+      id: "maxIterations",
+      name: "Max Iterations",
+      valueType: "number",
+      defaultValue: 5,
+    },
+    {
+      id: "conditionOutput",
+      name: "Condition Output",
+      valueType: "text",
+      defaultValue: "done",
+    },
+  ] as const;
+
+  public static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "any",
+    },
+    {
+      id: "iterations",
+      name: "Iterations",
+      valueType: "number",
+    },
+    {
+      id: "conditionMet",
+      name: "Condition Met",
+      valueType: "boolean",
+    },
+    {
+      id: "history",
+      name: "History",
+      valueType: "any",
+      isArray: true,
+    },
+  ] as const;
+
+  constructor(config: TaskConfig & { input?: Partial<LoopTaskInput> } = {}) {
+    super(config);
+  }
+
+  /**
+   * Picks the values of the loop state that match the inputs of a task
+   */
+  private pickInputs(task: Task, state: TaskOutput): TaskInput {
+    const picked: TaskInput = {};
+    for (const input of task.inputs) {
+      if (state[input.id] !== undefined) {
+        picked[input.id] = state[input.id];
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * Runs the subGraph until the condition output is truthy or maxIterations is reached, or
+   * until the loop is aborted
+   * @param nodeProvenance The provenance for the subtasks
+   * @param repository The repository to use for caching task outputs
+   * @returns The last output, the number of iterations and the output of each iteration
+   */
+  async run(
+    nodeProvenance: TaskInput = {},
+    repository?: TaskOutputRepository
+  ): Promise<LoopTaskOutput> {
+    if (!(await this.validateInputData(this.runInputData))) throw new Error("Invalid input data");
+    const { input = {}, maxIterations = 5, conditionOutput = "done" } = this.runInputData;
+    this._aborted = false;
+    this.emit("start");
+
+    const runner = new TaskGraphRunner(this.subGraph, repository);
+    const roots = this.subGraph
+      .getNodes()
+      .filter((node) => this.subGraph.getSourceDataFlows(node.config.id).length === 0);
+    const rootDefaults = new Map<unknown, TaskInput>(
+      roots.map((node) => [node.config.id, node.defaults])
+    );
+
+    const history: TaskOutput[] = [];
+    let state: TaskOutput = input;
+    let conditionMet = false;
+    try {
+      for (let iteration = 1; iteration <= maxIterations && !conditionMet; iteration++) {
+        // the runner resets the input data of each task to its defaults at the start of a run
+        for (const root of roots) {
+          root.defaults = { ...rootDefaults.get(root.config.id), ...this.pickInputs(root, state) };
+        }
+        // throws once the loop is aborted, between iterations as well
+        const result = await this.runSubGraph(runner, nodeProvenance);
+        state = Object.assign(
+          {},
+          ...result.tasks
+            .filter((task) => task.status === TaskStatus.COMPLETED)
+            .map((task) => task.output)
+        );
+        history.push(state);
+        conditionMet = !!state[conditionOutput];
+        this.emit(
+          "progress",
+          Math.round((100 * iteration) / maxIterations),
+          `Iteration ${iteration}`,
+          {
+            iteration,
+            output: state,
+          }
+        );
+      }
+    } finally {
+      for (const root of roots) {
+        root.defaults = rootDefaults.get(root.config.id)!;
+      }
+    }
+
+    this.runOutputData = { output: state, iterations: history.length, conditionMet, history };
+    this.emit("complete");
+    return this.runOutputData;
+  }
+
+  async runReactive(): Promise<LoopTaskOutput> {
+    return this.runOutputData;
+  }
+
+  validateSubGraph(): TaskGraphDiagnostic[] {
+    // the root tasks get their inputs from the loop state
+    return this.subGraph.validate({ requireRootInputs: false });
+  }
+}
+
+// Register LoopTask with the task registry
+TaskRegistry.registerTask(LoopTask);
@@ -0,0 +1,248 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import {
+  CompoundTask,
+  RegenerativeCompoundTask,
+  Task,
+  TaskConfig,
+  TaskInput,
+  TaskOutput,
+} from "./base/Task";
+import { DataFlow, TaskGraph, TaskGraphDiagnostic } from "./base/TaskGraph";
+import { TaskGraphRunner } from "./base/TaskGraphRunner";
+import { TaskRegistry } from "./base/TaskRegistry";
+import { TaskOutputRepository } from "../storage/taskoutput/TaskOutputRepository";
+
+/**
+ * Built in reducers. Any other value is taken as the type of a registered reducer task.
+ */
+export type MapTaskReducer = "concat" | "flatten" | "object-merge";
+
+/**
+ * Type definitions for MapTask input and output
+ */
+export type MapTaskInput = {
+  items: any[];
+  itemInput: string;
+  concurrency: number;
+  reducer: MapTaskReducer | string;
+};
+export type MapTaskOutput = {
+  output: any;
+};
+
+/**
+ * Creates a fresh copy of a task, with the given defaults merged into its input
+ */
+function cloneTask(task: Task, input: TaskInput = {}): Task {
+  const taskClass = task.constructor as typeof CompoundTask;
+  const clone = new taskClass({ ...task.config, input: { ...task.defaults, ...input } });
+  if (task.isCompound && !(clone instanceof RegenerativeCompoundTask)) {
+    (clone as CompoundTask).subGraph = cloneGraph(task.subGraph);
+  }
+  return clone;
+}
+
+/**
+ * Creates a fresh copy of a task graph, so it can be run concurrently with the original. The
+ * tasks without incoming data flows get the values of rootInput matching their inputs.
+ */
+function cloneGraph(graph: TaskGraph, rootInput: TaskInput = {}): TaskGraph {
+  const clone = new TaskGraph();
+  for (const task of graph.getNodes()) {
+    const input: TaskInput = {};
+    if (graph.getSourceDataFlows(task.config.id).length === 0) {
+      for (const def of task.inputs) {
+        if (def.id in rootInput) input[def.id] = rootInput[def.id];
+      }
+    }
+    clone.addTask(cloneTask(task, input));
+  }
+  for (const df of graph.getDataFlows()) {
+    clone.addDataFlow(
+      new DataFlow(df.sourceTaskId, df.sourceTaskOutputId, df.targetTaskId, df.targetTaskInputId)
+    );
+  }
+  return clone;
+}
+
+/**
+ * Collects the values of each property of the outputs into arrays, optionally flattening
+ * array values into a single list
+ */
+function collect(outputs: TaskOutput[], flatten: boolean): TaskOutput {
+  const result: TaskOutput = {};
+  for (const output of outputs) {
+    for (const [key, value] of Object.entries(output)) {
+      result[key] ??= [];
+      if (flatten && Array.isArray(value)) {
+        result[key].push(...value);
+      } else {
+        result[key].push(value);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * MapTask runs a copy of its subGraph for each item of the items input, at most concurrency
+ * at a time, then reduces the outputs of all the copies into one. When an item fails, the
+ * items still in progress are aborted and the task fails with the error of that item.
+ *
+ * Each item is given to the itemInput input of the tasks of the subGraph without incoming
+ * data flows. The output of a copy is the merge of the outputs of its last layer. The reducer
+ * is one of:
+ * - "concat": an array of values per output id
+ * - "flatten": like concat, but array values are spread into the list
+ * - "object-merge": the outputs merged into one object, later items winning
+ * - the type of a registered task, run with the array of outputs as its "items" input
+ */
+export class MapTask extends CompoundTask {
+  static readonly type = "MapTask";
+  static readonly category = "Utility";
+  declare runInputData: MapTaskInput;
+  declare runOutputData: MapTaskOutput;
+  declare defaults: Partial<MapTaskInput>;
+
+  public static inputs = [
+    {
+      id: "items",
+      name: "Items",
+      valueType: "any",
+      isArray: true,
+      defaultValue: [],
+    },
+    {
+      id: "itemInput",
+      name: "Item Input",
+      valueType: "text",
+      defaultValue: "input",
+    },
+    {
+      id: "concurrency",
+      name: "Concurrency",
+      valueType: "number",
+      defaultValue: 4,
+    },
+    {
+      id: "reducer",
+      name: "Reducer",
+      valueType: "text",
+      defaultValue: "concat",
+    },
+  ] as const;
+
+  public static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "any",
+    },
+  ] as const;
+
+  constructor(config: TaskConfig & { input?: Partial<MapTaskInput> } = {}) {
+    super(config);
+  }
+
+  /**
+   * Reduces the outputs of every item into the output of the task
+   */
+  private async reduce(
+    outputs: TaskOutput[],
+    reducer: string,
+    nodeProvenance: TaskInput,
+    repository?: TaskOutputRepository
+  ) {
+    switch (reducer) {
+      case "concat":
+        return collect(outputs, false);
+      case "flatten":
+        return collect(outputs, true);
+      case "object-merge":
+        return Object.assign({}, ...outputs);
+      default: {
+        const reducerClass = TaskRegistry.all.get(reducer);
+        if (!reducerClass) throw new Error(`Reducer ${reducer} not found`);
+        const reducerTask = new reducerClass({ input: { items: outputs } });
+        return await reducerTask.run(nodeProvenance, repository);
+      }
+    }
+  }
+
+  /**
+   * Runs a copy of the subGraph per item and reduces the results
+   * @param nodeProvenance The provenance for the subtasks
+   * @param repository The repository to use for caching task outputs
+   * @returns The reduced output
+   */
+  async run(
+    nodeProvenance: TaskInput = {},
+    repository?: TaskOutputRepository
+  ): Promise<MapTaskOutput> {
+    if (!(await this.validateInputData(this.runInputData))) throw new Error("Invalid input data");
+    const {
+      items = [],
+      itemInput = "input",
+      concurrency = 4,
+      reducer = "concat",
+    } = this.runInputData;
+    if (concurrency < 1) throw new Error(`Invalid concurrency: ${concurrency}`);
+    this._aborted = false;
+    this.emit("start");
+
+    const outputs: TaskOutput[] = new Array(items.length);
+    let next = 0;
+    let completed = 0;
+    let failure: { error: unknown } | undefined;
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        const graph = cloneGraph(this.subGraph, { [itemInput]: items[index] });
+        let result;
+        try {
+          // aborting the map aborts every item in progress, and no new item starts
+          result = await this.runSubGraph(new TaskGraphRunner(graph, repository), nodeProvenance);
+        } catch (err) {
+          if (failure) return;
+          failure = { error: err };
+          next = items.length; // stop the other workers from picking up more items
+          // and abort the items still in progress, rather than leave them running
+          await Promise.all(Array.from(this._subGraphRunners, (runner) => runner.abort()));
+          return;
+        }
+        outputs[index] = Object.assign({}, ...result.outputs);
+        completed++;
+        this.emit("progress", Math.round((100 * completed) / items.length), `Item ${index + 1}`, {
+          index,
+          output: outputs[index],
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    if (failure) throw failure.error;
+
+    this.runOutputData = {
+      output: await this.reduce(outputs, reducer, nodeProvenance, repository),
+    };
+    this.emit("complete");
+    return this.runOutputData;
+  }
+
+  async runReactive(): Promise<MapTaskOutput> {
+    return this.runOutputData;
+  }
+
+  validateSubGraph(): TaskGraphDiagnostic[] {
+    // the root tasks get their inputs from the items
+    return this.subGraph.validate({ requireRootInputs: false });
+  }
+}
+
+// Register MapTask with the task registry
+TaskRegistry.registerTask(MapTask);
@@ -0,0 +1,119 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { SingleTask, TaskConfig, TaskOutputDefinition } from "./base/Task";
+import { TaskGraphBuilder, TaskGraphBuilderHelper } from "./base/TaskGraphBuilder";
+import { TaskRegistry } from "./base/TaskRegistry";
+
+/**
+ * Type definitions for SwitchTask input and output
+ */
+export type SwitchTaskInput = {
+  value: any;
+  selected: string;
+  cases: string[];
+};
+export type SwitchTaskOutput = {
+  [caseName: string]: any;
+};
+
+/**
+ * SwitchTask routes its value to the output named by the selected input. There is one output
+ * per entry of the cases input, plus a "default" output used when the selected case is not
+ * listed. Only the chosen output is active, so the tasks downstream of the others are skipped.
+ */
+export class SwitchTask extends SingleTask {
+  static readonly type = "SwitchTask";
+  static readonly category = "Utility";
+  declare runInputData: SwitchTaskInput;
+  declare defaults: Partial<SwitchTaskInput>;
+  declare runOutputData: SwitchTaskOutput;
+
+  public static inputs = [
+    {
+      id: "value",
+      name: "Value",
+      valueType: "any",
+    },
+    {
+      id: "selected",
+      name: "Selected Case",
+      valueType: "text",
+      defaultValue: "",
+    },
+    {
+      id: "cases",
+      name: "Cases",
+      valueType: "text",
+      isArray: true,
+      defaultValue: [],
+    },
+  ] as const;
+
+  public static outputs = [
+    {
+      id: "default",
+      name: "Default",
+      valueType: "any",
+    },
+  ] as const;
+
+  /**
+   * The outputs depend on the cases given to this instance
+   */
+  get outputs(): TaskOutputDefinition[] {
+    const cases: string[] = this.runInputData.cases ?? [];
+    return [
+      ...cases.map((caseName) => ({ id: caseName, name: caseName, valueType: "any" })),
+      ...SwitchTask.outputs,
+    ];
+  }
+
+  constructor(config: TaskConfig & { input?: Partial<SwitchTaskInput> } = {}) {
+    super(config);
+  }
+
+  /**
+   * Outputs the value on the selected case, or on "default" if the case is unknown
+   */
+  async runReactive(): Promise<SwitchTaskOutput> {
+    const { value, selected, cases = [] } = this.runInputData;
+    const output = cases.includes(selected) ? selected : "default";
+    this.runOutputData = { [output]: value };
+    return this.runOutputData;
+  }
+
+  isOutputActive(outputId: string): boolean {
+    return outputId in this.runOutputData;
+  }
+}
+
+// Register SwitchTask with the task registry
+TaskRegistry.registerTask(SwitchTask);
+
+/**
+ * Helper function to create and configure a SwitchTask instance
+ */
+const SwitchBuilder = (input: SwitchTaskInput) => {
+  return new SwitchTask({ input });
+};
+
+/**
+ * Convenience function to create and run a SwitchTask
+ */
+export const Switch = (input: SwitchTaskInput) => {
+  return SwitchBuilder(input).run();
+};
+
+// Add Switch task builder to TaskGraphBuilder interface
+declare module "./base/TaskGraphBuilder" {
+  interface TaskGraphBuilder {
+    Switch: TaskGraphBuilderHelper<SwitchTaskInput>;
+  }
+}
+
+TaskGraphBuilder.prototype.Switch = TaskGraphBuilderHelper(SwitchTask);
@@ -16,8 +16,9 @@ import {
   RegenerativeCompoundTask,
   TaskInputDefinition,
   TaskOutputDefinition,
+  IConfig,
 } from "./Task";
-import { TaskGraph } from "./TaskGraph";
+import { TaskGraph, TaskGraphDiagnostic } from "./TaskGraph";
 import { TaskRegistry } from "./TaskRegistry";
 
 // Type utilities for array transformations
@@ -41,6 +42,22 @@ export type ConvertAllToArrays<T> = {
   [P in keyof T]: Array<T[P]>;
 };
 
+/**
+ * How the array inputs of an ArrayTask are combined into child task inputs
+ * - product: every combination of the array values (cartesian product)
+ * - zip: pairs values by index, stopping at the shortest array
+ * - zip-longest: pairs values by index up to the longest array, missing values fall back
+ *   to the child task defaults
+ */
+export type ArrayTaskCombination = "product" | "zip" | "zip-longest";
+
+export type ArrayTaskConfig = TaskConfig & { combination?: ArrayTaskCombination };
+
+export type ArrayTaskFactoryOptions = {
+  name?: string;
+  combination?: ArrayTaskCombination;
+};
+
 // Removes readonly modifiers from object properties
 type Writeable<T> = { -readonly [P in keyof T]: T[P] };
 
@@ -109,22 +126,13 @@ function convertMultipleToArray<D extends TaskInputDefinition | TaskOutputDefini
 }
 
 /**
- * Generates all possible combinations of array inputs
- * @param input Input object containing arrays
- * @param inputMakeArray Keys of properties to generate combinations for
- * @returns Array of input objects with all possible combinations
+ * Generates the index combinations of the arrays as a cartesian product
+ * @param lengths Lengths of the arrays to combine
+ * @returns Array of index combinations
  */
-function generateCombinations<T extends TaskInput>(input: T, inputMakeArray: (keyof T)[]): T[] {
-  // Helper function to check if a property is an array
-  const isArray = (value: any): value is Array<any> => Array.isArray(value);
-
-  // Prepare arrays for combination generation
-  const arraysToCombine: any[][] = inputMakeArray.map((key) =>
-    isArray(input[key]) ? input[key] : []
-  );
-
+function productIndices(lengths: number[]): number[][] {
   // Initialize indices and combinations
-  const indices = arraysToCombine.map(() => 0);
+  const indices = lengths.map(() => 0);
   const combinations: number[][] = [];
   let done = false;
 
@@ -133,13 +141,65 @@ function generateCombinations<T extends TaskInput>(input: T, inputMakeArray: (ke
 
     // Move to the next combination of indices
     for (let i = indices.length - 1; i >= 0; i--) {
-      if (++indices[i] < arraysToCombine[i].length) break; // Increment current index if possible
+      if (++indices[i] < lengths[i]) break; // Increment current index if possible
       if (i === 0)
         done = true; // All combinations have been generated
       else indices[i] = 0; // Reset current index and move to the next position
     }
   }
 
+  return combinations;
+}
+
+/**
+ * Generates the index combinations of the arrays by position
+ * @param lengths Lengths of the arrays to combine, undefined for non-array inputs
+ * @param longest Whether to stop at the longest array instead of the shortest
+ * @returns Array of index combinations
+ */
+function zipIndices(lengths: (number | undefined)[], longest: boolean): number[][] {
+  const arrayLengths = lengths.filter((length): length is number => length !== undefined);
+  if (arrayLengths.length === 0) return [lengths.map(() => 0)];
+  const count = longest ? Math.max(...arrayLengths) : Math.min(...arrayLengths);
+  return Array.from({ length: count }, (_, index) => lengths.map(() => index));
+}
+
+/**
+ * Generates the combinations of array inputs
+ * @param input Input object containing arrays
+ * @param inputMakeArray Keys of properties to generate combinations for
+ * @param combination Strategy used to combine the arrays
+ * @returns Array of input objects, one per combination
+ */
+function generateCombinations<T extends TaskInput>(
+  input: T,
+  inputMakeArray: (keyof T)[],
+  combination: ArrayTaskCombination = "product"
+): T[] {
+  // Helper function to check if a property is an array
+  const isArray = (value: any): value is Array<any> => Array.isArray(value);
+
+  // Prepare arrays for combination generation
+  const arraysToCombine: any[][] = inputMakeArray.map((key) =>
+    isArray(input[key]) ? input[key] : []
+  );
+
+  let combinations: number[][];
+  switch (combination) {
+    case "product":
+      combinations = productIndices(arraysToCombine.map((array) => array.length));
+      break;
+    case "zip":
+    case "zip-longest":
+      combinations = zipIndices(
+        inputMakeArray.map((key) => (isArray(input[key]) ? input[key].length : undefined)),
+        combination === "zip-longest"
+      );
+      break;
+    default:
+      throw new Error(`Unknown array combination ${combination}`);
+  }
+
   // Build objects based on the combinations
   return combinations.map((combination) => {
     const result = { ...input }; // Start with a shallow copy of the input
@@ -147,7 +207,9 @@ function generateCombinations<T extends TaskInput>(input: T, inputMakeArray: (ke
     // Set values from the arrays based on the current combination
     combination.forEach((valueIndex, arrayIndex) => {
       const key = inputMakeArray[arrayIndex];
-      if (isArray(input[key])) result[key as keyof T] = input[key][valueIndex];
+      if (!isArray(input[key])) return;
+      if (valueIndex < input[key].length) result[key as keyof T] = input[key][valueIndex];
+      else delete result[key as keyof T]; // Let the child task use its default
     });
 
     return result;
@@ -159,7 +221,8 @@ function generateCombinations<T extends TaskInput>(input: T, inputMakeArray: (ke
  * Creates a task that can process arrays of inputs in parallel
  * @param taskClass Base task class to wrap
  * @param inputMakeArray Array of input keys to process as arrays
- * @param name Optional name for the generated task class
+ * @param options Optional name for the generated task class, or an object with the name and
+ * the default combination strategy of the array inputs
  * @returns New task class that handles array inputs
  */
 export function arrayTaskFactory<
@@ -169,8 +232,10 @@ export function arrayTaskFactory<
 >(
   taskClass: typeof SingleTask | typeof CompoundTask,
   inputMakeArray: Array<keyof PluralInputType>,
-  name?: string
+  options: string | ArrayTaskFactoryOptions = {}
 ) {
+  const { name: givenName, combination = "product" }: ArrayTaskFactoryOptions =
+    typeof options === "string" ? { name: options } : options;
   const inputs = convertMultipleToArray<TaskInputDefinition>(
     Array.from(taskClass.inputs),
     inputMakeArray
@@ -178,7 +243,7 @@ export function arrayTaskFactory<
   const outputs = convertToArray<TaskOutputDefinition>(Array.from(taskClass.outputs));
 
   const nameWithoutTask = taskClass.type.slice(0, -4);
-  name ??= nameWithoutTask + "CompoundTask";
+  const name = givenName ?? nameWithoutTask + "CompoundTask";
 
   /**
    * A task class that handles array-based processing by creating subtasks for each combination of inputs
@@ -189,6 +254,8 @@ export function arrayTaskFactory<
     static readonly runtype = taskClass.type;
     static readonly category = taskClass.category;
     static readonly sideeffects = taskClass.sideeffects;
+    static readonly combination: ArrayTaskCombination = combination;
+    declare config: IConfig & { combination?: ArrayTaskCombination };
     declare runInputData: PluralInputType;
     declare runOutputData: PluralOutputType;
     declare defaults: Partial<PluralInputType>;
@@ -198,18 +265,29 @@ export function arrayTaskFactory<
     static inputs = inputs;
     static override outputs = outputs;
 
-    constructor(config: TaskConfig & { input?: Partial<PluralInputType> } = {}) {
+    constructor(config: ArrayTaskConfig & { input?: Partial<PluralInputType> } = {}) {
       super(config);
       this.regenerateGraph();
     }
 
+    /**
+     * The combination strategy of this instance, falling back to the one of the factory
+     */
+    get combination(): ArrayTaskCombination {
+      return this.config.combination ?? ArrayTask.combination;
+    }
+
     /**
      * Regenerates the task graph by creating child tasks for each input combination
      * Each child task processes a single combination of the array inputs
      */
     regenerateGraph() {
       this.subGraph = new TaskGraph();
-      const combinations = generateCombinations(this.runInputData, inputMakeArray);
+      const combinations = generateCombinations(
+        this.runInputData,
+        inputMakeArray,
+        this.combination
+      );
       combinations.forEach((input, index) => {
         const current = new taskClass({ id: this.config.id + "-child-" + (index + 1), input });
         this.subGraph.addTask(current);
@@ -253,17 +331,21 @@ export function arrayTaskFactory<
 
     toJSON(): JsonTaskItem {
       const { subgraph, ...result } = super.toJSON();
-      return result;
+      return { ...result, combination: this.combination };
     }
 
     toDependencyJSON(): JsonTaskItem {
       const { subtasks, ...result } = super.toDependencyJSON();
-      return result;
+      return { ...result, combination: this.combination };
     }
 
     async validateItem(valueType: string, item: any) {
       return true; // let children validate
     }
+
+    validateSubGraph(): TaskGraphDiagnostic[] {
+      return []; // children are generated from the inputs when the task runs
+    }
   }
 
   TaskRegistry.registerTask(ArrayTask);
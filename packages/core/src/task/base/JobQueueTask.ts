@@ -6,13 +6,19 @@
 //    *******************************************************************************
 
 import { getTaskQueueRegistry } from "../TaskQueueRegistry";
-import { SingleTask, TaskConfig, TaskOutput } from "./Task";
+import type { JobDedupePolicy } from "../../job/base/JobQueue";
+import { SingleTask, TaskBase, TaskConfig, TaskOutput } from "./Task";
 
 /**
  * Configuration interface for job queue tasks
  */
 export interface JobQueueTaskConfig extends TaskConfig {
   queue?: string;
+  /**
+   * What to do when the queue already has a job with the same input, defaults to
+   * "reuse-completed", or "always-new" for tasks with side effects
+   */
+  dedupe?: JobDedupePolicy;
   currentJobId?: unknown;
   currentJobRunId?: string;
 }
@@ -30,6 +36,19 @@ interface JobQueueTaskWithIdsConfig extends JobQueueTaskConfig {
 export abstract class JobQueueTask extends SingleTask {
   static readonly type: string = "JobQueueTask";
   declare config: JobQueueTaskWithIdsConfig;
+  /**
+   * Set when the task is aborted before its job made it to the queue
+   */
+  private abortRequested = false;
+  /**
+   * Whether the current job was added by this task rather than found in the queue. A job
+   * found in the queue may be shared with other runs, so aborting the task leaves it running.
+   */
+  private ownsJob = false;
+  /**
+   * Stops waiting for a job this task does not own
+   */
+  private stopWaiting?: (err: Error) => void;
   constructor(config: JobQueueTaskConfig) {
     super(config);
   }
@@ -40,6 +59,8 @@ export abstract class JobQueueTask extends SingleTask {
     }
     this.emit("start");
     this.runOutputData = {};
+    this.abortRequested = false;
+    this.ownsJob = false;
 
     try {
       const job = await this.createJob();
@@ -49,15 +70,25 @@ export abstract class JobQueueTask extends SingleTask {
         throw new Error("Queue not found");
       }
 
-      const jobId = await queue.add(job);
+      const { id: jobId, deduped } = await queue.addJob(job, { dedupe: this.dedupePolicy() });
       this.config.currentJobRunId = job.jobRunId; // no longer undefined
       this.config.currentJobId = jobId;
+      this.ownsJob = !deduped;
+      if (this.abortRequested) {
+        if (!this.ownsJob) throw new Error("Task aborted");
+        await this.abortJob();
+      }
+      const stopped = new Promise<never>((_resolve, reject) => (this.stopWaiting = reject));
 
       const cleanup = queue.onJobProgress(jobId, (progress, message, details) => {
         this.emit("progress", progress, message, details);
       });
-      this.runOutputData = await queue.waitFor(jobId);
-      cleanup();
+      try {
+        this.runOutputData = await Promise.race([queue.waitFor(jobId), stopped]);
+      } finally {
+        this.stopWaiting = undefined;
+        cleanup();
+      }
     } catch (err) {
       this.emit("error", err instanceof Error ? err.message : String(err));
       console.error(err);
@@ -69,6 +100,14 @@ export abstract class JobQueueTask extends SingleTask {
     return this.runOutputData;
   }
 
+  /**
+   * The dedupe policy used when adding the job of this task to its queue
+   */
+  dedupePolicy(): JobDedupePolicy {
+    if (this.config.dedupe) return this.config.dedupe;
+    return (this.constructor as typeof TaskBase).sideeffects ? "always-new" : "reuse-completed";
+  }
+
   /**
    * Override this method to create the right job class for the queue for this task
    * @returns Promise<Job> - The created job
@@ -87,16 +126,28 @@ export abstract class JobQueueTask extends SingleTask {
   }
 
   /**
-   * Aborts the task
-   * @returns A promise that resolves when the task is aborted
+   * Aborts the task, and its job when the task added it. A job the task found in the queue
+   * keeps running for whoever else waits on it, the task just stops waiting.
+   * @returns A promise that resolves once the queue has aborted the job
    */
   async abort(): Promise<void> {
-    if (this.config.queue) {
-      const queue = getTaskQueueRegistry().getQueue(this.config.queue);
-      if (queue) {
-        queue.abort(this.config.currentJobId);
-      }
+    this.abortRequested = true;
+    await this.abortJob();
+    await super.abort();
+  }
+
+  /**
+   * Aborts the current job if the task owns it, otherwise stops waiting for it
+   */
+  private async abortJob(): Promise<void> {
+    if (this.config.currentJobId === undefined) return;
+    if (!this.ownsJob) {
+      this.stopWaiting?.(new Error("Task aborted"));
+      return;
     }
-    super.abort();
+    const queue = this.config.queue
+      ? getTaskQueueRegistry().getQueue(this.config.queue)
+      : undefined;
+    await queue?.abort(this.config.currentJobId);
   }
 }
@@ -7,10 +7,11 @@
 
 import { EventEmitter } from "eventemitter3";
 import { nanoid } from "nanoid";
-import { TaskGraph, TaskGraphItemJson } from "./TaskGraph";
-import { TaskGraphRunner } from "./TaskGraphRunner";
+import { TaskGraph, TaskGraphDiagnostic, TaskGraphItemJson } from "./TaskGraph";
+import { TaskGraphRunner, TaskGraphRunResult } from "./TaskGraphRunner";
 import type { JsonTaskItem } from "../JsonTask";
 import { TaskOutputRepository } from "../../storage/taskoutput/TaskOutputRepository";
+import { ValueTypeRegistry } from "./ValueTypeRegistry";
 
 export enum TaskStatus {
   PENDING = "NEW",
@@ -18,6 +19,7 @@ export enum TaskStatus {
   COMPLETED = "COMPLETED",
   ABORTING = "ABORTING",
   FAILED = "FAILED",
+  SKIPPED = "SKIPPED",
 }
 
 /**
@@ -25,7 +27,22 @@ export enum TaskStatus {
  *
  * There is no job queue at the moement.
  */
-export type TaskEvents = "start" | "complete" | "abort" | "error" | "progress" | "regenerate";
+export type TaskEvents =
+  | "start"
+  | "complete"
+  | "abort"
+  | "error"
+  | "skip"
+  | "progress"
+  | "regenerate";
+
+/**
+ * What the task graph runner does when a task fails:
+ * - "fail-fast" aborts the whole graph run
+ * - "continue" keeps running every other task, including the dependents of the failed task
+ * - "skip-dependents" keeps running independent tasks but skips everything downstream of the failed task
+ */
+export type TaskFailurePolicy = "fail-fast" | "continue" | "skip-dependents";
 
 export interface TaskInput {
   [key: string]: any;
@@ -54,6 +71,7 @@ export interface IConfig {
   id: unknown;
   name?: string;
   provenance?: TaskInput;
+  failurePolicy?: TaskFailurePolicy;
 }
 
 export type TaskInputDefinition = {
@@ -62,6 +80,10 @@ export type TaskInputDefinition = {
   readonly valueType: string;
   readonly isArray?: boolean;
   readonly defaultValue?: unknown;
+  /**
+   * The task runs without this input, even though it has no default value
+   */
+  readonly optional?: boolean;
 };
 
 export type TaskOutputDefinition = {
@@ -156,6 +178,11 @@ export abstract class TaskBase {
       this.status = TaskStatus.FAILED;
       this.error = error;
     });
+    this.on("skip", () => {
+      this.completedAt = new Date();
+      this.progress = 100;
+      this.status = TaskStatus.SKIPPED;
+    });
   }
   /**
    * The defaults for the task. If no overrides at run time, then this would be equal to the
@@ -185,12 +212,16 @@ export abstract class TaskBase {
   }
 
   resetInputData() {
-    // Use deep clone to avoid state leakage.
+    // Use deep clone to avoid state leakage. Values are cloned in their serialized form so
+    // that value types like class instances come back as they were.
+    const serialized = ValueTypeRegistry.serializeInput(this.inputs, this.defaults);
+    let cloned: TaskInput;
     if (typeof structuredClone === "function") {
-      this.runInputData = structuredClone(this.defaults);
+      cloned = structuredClone(serialized);
     } else {
-      this.runInputData = JSON.parse(JSON.stringify(this.defaults));
+      cloned = JSON.parse(JSON.stringify(serialized));
     }
+    this.runInputData = ValueTypeRegistry.deserializeInput(this.inputs, cloned);
   }
 
   /**
@@ -231,27 +262,18 @@ export abstract class TaskBase {
   /**
    * Validates an item against the task's input definition
    *
-   * By default, we only check "number", "text", "boolean", and "function"
+   * By default, the item is checked by the validator of its type in the ValueTypeRegistry
    * @param valueType The type of the item
    * @param item The item to validate
    * @returns True if the item is valid, false otherwise
    */
   async validateItem(valueType: string, item: any) {
-    switch (valueType) {
-      case "any":
-        return true;
-      case "number":
-        return typeof item === "bigint" || typeof item === "number";
-      case "text":
-        return typeof item === "string";
-      case "boolean":
-        return typeof item === "boolean";
-      case "function":
-        return typeof item === "function";
-      default:
-        console.warn(`validateItem: Unknown value type: ${valueType}`);
-        return false;
+    const type = ValueTypeRegistry.get(valueType);
+    if (!type) {
+      console.warn(`validateItem: Unknown value type: ${valueType}`);
+      return false;
     }
+    return await type.validate(item, this);
   }
 
   /**
@@ -281,13 +303,22 @@ export abstract class TaskBase {
     }
 
     const inputlist: any[] = inputdef.isArray ? input[inputId] : [input[inputId]];
-
-    // Rewritten using Promise.all for asynchronous validation
-    const validationPromises = inputlist.map((item) =>
-      this.validateItem(inputdef.valueType as string, item)
-    );
+    const valueType = inputdef.valueType as string;
+
+    // Rewritten using Promise.all for asynchronous validation, items that are not valid
+    // are coerced to the value type when the ValueTypeRegistry knows how
+    const validationPromises = inputlist.map(async (item) => {
+      if (await this.validateItem(valueType, item)) return { value: item };
+      const coerced = await ValueTypeRegistry.coerce(valueType, item, this);
+      if (coerced && (await this.validateItem(valueType, coerced.value))) return coerced;
+      return undefined;
+    });
     const validationResults = await Promise.all(validationPromises);
-    return validationResults.every(Boolean);
+    if (!validationResults.every(Boolean)) return false;
+
+    const values = validationResults.map((result) => result!.value);
+    input[inputId] = inputdef.isArray ? values : values[0];
+    return true;
   }
 
   /**
@@ -326,6 +357,16 @@ export abstract class TaskBase {
     return this.runOutputData;
   }
 
+  /**
+   * Whether an output was taken by the last run of the task. Branching tasks only activate
+   * some of their outputs, and the runner skips the tasks that only depend on inactive ones.
+   * @param outputId The id of the output
+   * @returns True if the output is active
+   */
+  isOutputActive(outputId: string): boolean {
+    return true;
+  }
+
   /**
    * Converts the task to a JSON format suitable for dependency tracking
    * @returns The task in JSON format
@@ -335,7 +376,7 @@ export abstract class TaskBase {
     return {
       id: this.config.id,
       type: (this.constructor as typeof TaskBase).type,
-      input: this.defaults,
+      input: ValueTypeRegistry.serializeInput(this.inputs, this.defaults),
       ...(Object.keys(p).length ? { provenance: p } : {}),
     };
   }
@@ -375,6 +416,15 @@ export class CompoundTask extends TaskBase implements ITaskCompound {
   declare runOutputData: TaskOutput;
   readonly isCompound = true;
   _subGraph: TaskGraph | null = null;
+  /**
+   * The runners of the subgraph while the task runs, so aborting the task aborts them. Tasks
+   * that run copies of the subgraph side by side, like MapTask, have one per copy.
+   */
+  _subGraphRunners: Set<TaskGraphRunner> = new Set();
+  /**
+   * Set once the task is aborted, so tasks that run their subgraph more than once stop
+   */
+  _aborted = false;
   /**
    * Sets the subtask graph for the compound task
    * @param subGraph The subtask graph to set
@@ -392,6 +442,13 @@ export class CompoundTask extends TaskBase implements ITaskCompound {
     }
     return this._subGraph;
   }
+  /**
+   * Checks the subtask graph for problems, see TaskGraph.validate()
+   * @returns The problems found in the subtask graph
+   */
+  validateSubGraph(): TaskGraphDiagnostic[] {
+    return this.subGraph.validate();
+  }
   /**
    * Resets the input data for the compound task and its subtasks
    */
@@ -412,9 +469,13 @@ export class CompoundTask extends TaskBase implements ITaskCompound {
     repository?: TaskOutputRepository
   ): Promise<TaskOutput> {
     if (!this.validateInputData(this.runInputData)) throw new Error("Invalid input data");
+    this._aborted = false;
     this.emit("start");
-    const runner = new TaskGraphRunner(this.subGraph, repository);
-    this.runOutputData.outputs = await runner.runGraph(nodeProvenance);
+    const result = await this.runSubGraph(
+      new TaskGraphRunner(this.subGraph, repository),
+      nodeProvenance
+    );
+    this.runOutputData.outputs = result.outputs;
     this.emit("complete");
     return this.runOutputData;
   }
@@ -424,6 +485,35 @@ export class CompoundTask extends TaskBase implements ITaskCompound {
     return this.runOutputData;
   }
 
+  /**
+   * Runs the subgraph, or a copy of it, with its runner registered so abort() reaches it
+   * @param runner The runner of the subgraph
+   * @param nodeProvenance The provenance for the subtasks
+   * @returns The result of the subgraph run
+   */
+  async runSubGraph(
+    runner: TaskGraphRunner,
+    nodeProvenance: TaskInput = {}
+  ): Promise<TaskGraphRunResult> {
+    if (this._aborted) throw new Error("Task aborted");
+    this._subGraphRunners.add(runner);
+    try {
+      return await runner.runGraph(nodeProvenance);
+    } finally {
+      this._subGraphRunners.delete(runner);
+    }
+  }
+
+  /**
+   * Aborts the task along with every run of its subgraph, and keeps it from starting new ones
+   * @returns A promise that resolves once every subtask has settled
+   */
+  async abort(): Promise<void> {
+    this._aborted = true;
+    await Promise.all(Array.from(this._subGraphRunners, (runner) => runner.abort()));
+    await super.abort();
+  }
+
   /**
    * This serializes the task and its subtasks into a format that can be stored in a database
    * @returns TaskExportFormat
@@ -9,6 +9,10 @@ import { DirectedAcyclicGraph } from "@sroussey/typescript-graph";
 import { TaskIdType, TaskInput, TaskOutput } from "./Task";
 import { Task, TaskStream } from "./Task";
 import type { JsonTaskItem } from "../JsonTask";
+import type { ArrayTaskCombination } from "./ArrayTask";
+import type { CompoundTask, TaskBase } from "./Task";
+import { TaskRegistry } from "./TaskRegistry";
+import { ValueTypeRegistry } from "./ValueTypeRegistry";
 
 export type DataFlowIdType = string;
 
@@ -25,8 +29,15 @@ export class DataFlow {
   get id(): string {
     return `${this.sourceTaskId}.${this.sourceTaskOutputId} -> ${this.targetTaskId}.${this.targetTaskInputId}`;
   }
-  public value: TaskOutput = {};
+  /**
+   * Undefined until the source task outputs it in the current run
+   */
+  public value?: TaskOutput;
   public provenance: TaskInput = {};
+  /**
+   * False when the source task did not take the branch this data flow belongs to
+   */
+  public active: boolean = true;
 
   toJSON(): DataFlowJson {
     return {
@@ -48,6 +59,7 @@ export type TaskGraphItemJson = {
   input?: TaskInput;
   provenance?: TaskInput;
   subgraph?: TaskGraphJson;
+  combination?: ArrayTaskCombination;
 };
 
 export type TaskGraphJson = {
@@ -62,6 +74,41 @@ export type DataFlowJson = {
   targetTaskInputId: string;
 };
 
+export type TaskGraphDiagnosticSeverity = "error" | "warning";
+
+export type TaskGraphDiagnosticCode =
+  | "missing-input"
+  | "dangling-edge"
+  | "type-mismatch"
+  | "duplicate-edge"
+  | "unregistered-task-type"
+  | "unknown-value-type";
+
+/**
+ * A problem found by TaskGraph.validate()
+ */
+export type TaskGraphDiagnostic = {
+  code: TaskGraphDiagnosticCode;
+  severity: TaskGraphDiagnosticSeverity;
+  /** The task with the problem */
+  taskId: TaskIdType;
+  /** The input or output of the task with the problem, if any */
+  portId?: string;
+  /** The data flow with the problem, if any */
+  dataFlowId?: DataFlowIdType;
+  /** The ids of the compound tasks containing the task, from the outermost one */
+  path?: TaskIdType[];
+  message: string;
+};
+
+export type TaskGraphValidateOptions = {
+  /**
+   * Whether the inputs of the root tasks (the ones without data flows into them) need to be
+   * given, which is not the case for subgraphs that get them from their compound task
+   */
+  requireRootInputs?: boolean;
+};
+
 /**
  * Represents a task graph, a directed acyclic graph of tasks and data flows
  */
@@ -180,6 +227,126 @@ export class TaskGraph extends DirectedAcyclicGraph<Task, DataFlow, TaskIdType,
     return this.getTargetDataFlows(taskId).map((dataFlow) => this.getNode(dataFlow.targetTaskId)!);
   }
 
+  /**
+   * Checks the graph for problems that would otherwise only show up when it runs: missing
+   * required inputs, data flows between tasks or ports that do not exist, incompatible value
+   * types, several data flows into an input that is not an array, and task or value types
+   * that are not registered. Subgraphs of compound tasks are checked as well.
+   * @returns The problems found, an empty array if there are none
+   */
+  public validate({ requireRootInputs = true }: TaskGraphValidateOptions = {}) {
+    const diagnostics: TaskGraphDiagnostic[] = [];
+
+    for (const task of this.getNodes()) {
+      const taskId = task.config.id;
+      const type = (task.constructor as typeof TaskBase).type;
+      if (TaskRegistry.all.get(type) !== task.constructor) {
+        diagnostics.push({
+          code: "unregistered-task-type",
+          severity: "warning",
+          taskId,
+          message: `Task type ${type} is not registered, so the graph can not be loaded from JSON`,
+        });
+      }
+
+      for (const port of [...task.inputs, ...task.outputs]) {
+        if (!ValueTypeRegistry.get(port.valueType)) {
+          diagnostics.push({
+            code: "unknown-value-type",
+            severity: "error",
+            taskId,
+            portId: port.id,
+            message: `Unknown value type ${port.valueType} for ${port.id} of ${type}`,
+          });
+        }
+      }
+
+      const sourceDataFlows = this.getSourceDataFlows(taskId);
+      for (const input of task.inputs) {
+        const dataFlows = sourceDataFlows.filter((df) => df.targetTaskInputId === input.id);
+        if (
+          dataFlows.length === 0 &&
+          input.defaultValue === undefined &&
+          !input.optional &&
+          task.defaults[input.id] === undefined &&
+          (requireRootInputs || sourceDataFlows.length > 0)
+        ) {
+          diagnostics.push({
+            code: "missing-input",
+            severity: "error",
+            taskId,
+            portId: input.id,
+            message: `Required input ${input.id} of ${type} is not given and has no data flow`,
+          });
+        }
+        if (dataFlows.length > 1 && !input.isArray) {
+          diagnostics.push({
+            code: "duplicate-edge",
+            severity: "warning",
+            taskId,
+            portId: input.id,
+            message: `Input ${input.id} of ${type} is not an array but has ${dataFlows.length} data flows, only one value is kept`,
+          });
+        }
+      }
+
+      if (task.isCompound) {
+        for (const diagnostic of (task as CompoundTask).validateSubGraph()) {
+          diagnostics.push({ ...diagnostic, path: [taskId, ...(diagnostic.path ?? [])] });
+        }
+      }
+    }
+
+    for (const dataFlow of this.getDataFlows()) {
+      const source = this.getTask(dataFlow.sourceTaskId);
+      const target = this.getTask(dataFlow.targetTaskId);
+      if (!source || !target) {
+        diagnostics.push({
+          code: "dangling-edge",
+          severity: "error",
+          taskId: source ? dataFlow.targetTaskId : dataFlow.sourceTaskId,
+          dataFlowId: dataFlow.id,
+          message: `Data flow ${dataFlow.id} connects a task that is not in the graph`,
+        });
+        continue;
+      }
+      const output = source.outputs.find((def) => def.id === dataFlow.sourceTaskOutputId);
+      const input = target.inputs.find((def) => def.id === dataFlow.targetTaskInputId);
+      if (!output) {
+        diagnostics.push({
+          code: "dangling-edge",
+          severity: "error",
+          taskId: source.config.id,
+          portId: dataFlow.sourceTaskOutputId,
+          dataFlowId: dataFlow.id,
+          message: `Data flow ${dataFlow.id} starts at output ${dataFlow.sourceTaskOutputId} which does not exist`,
+        });
+      }
+      if (!input) {
+        diagnostics.push({
+          code: "dangling-edge",
+          severity: "error",
+          taskId: target.config.id,
+          portId: dataFlow.targetTaskInputId,
+          dataFlowId: dataFlow.id,
+          message: `Data flow ${dataFlow.id} ends at input ${dataFlow.targetTaskInputId} which does not exist`,
+        });
+      }
+      if (output && input && !ValueTypeRegistry.isCompatible(output.valueType, input.valueType)) {
+        diagnostics.push({
+          code: "type-mismatch",
+          severity: "error",
+          taskId: target.config.id,
+          portId: input.id,
+          dataFlowId: dataFlow.id,
+          message: `Data flow ${dataFlow.id} connects a ${output.valueType} output to a ${input.valueType} input`,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
   /**
    * Converts the task graph to a JSON format suitable for dependency tracking
    * @returns An array of JsonTaskItem objects, each representing a task and its dependencies
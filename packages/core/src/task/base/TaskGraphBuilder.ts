@@ -7,7 +7,7 @@
 
 import EventEmitter from "eventemitter3";
 import { GraphEvents } from "@sroussey/typescript-graph";
-import { DataFlow, TaskGraph, TaskGraphJson } from "./TaskGraph";
+import { DataFlow, TaskGraph, TaskGraphDiagnostic, TaskGraphJson } from "./TaskGraph";
 import { TaskGraphRunner } from "./TaskGraphRunner";
 import {
   CompoundTask,
@@ -19,6 +19,7 @@ import {
 } from "./Task";
 import { TaskOutputRepository } from "../../storage/taskoutput/TaskOutputRepository";
 import { JsonTaskItem } from "../JsonTask";
+import { ValueTypeRegistry } from "./ValueTypeRegistry";
 
 export type TaskGraphBuilderHelper<I extends TaskInput> = (input?: Partial<I>) => TaskGraphBuilder;
 
@@ -76,6 +77,17 @@ export function TaskGraphBuilderHelper<I extends TaskInput>(
           output.valueType === input.valueType && output.id === "output" && input.id === "input"
       );
       makeMatch((output, input) => output.valueType === input.valueType);
+      if (matches.size === 0) {
+        // fall back to value types that are compatible (subtypes, coercions, "any")
+        makeMatch(
+          (output, input) =>
+            ValueTypeRegistry.isCompatible(output.valueType, input.valueType) &&
+            output.id === input.id
+        );
+        makeMatch((output, input) =>
+          ValueTypeRegistry.isCompatible(output.valueType, input.valueType)
+        );
+      }
       if (matches.size === 0) {
         this._error = `Could not find a match between the outputs of ${
           (parent.constructor as any).type
@@ -200,6 +212,14 @@ export class TaskGraphBuilder {
     return this._graph.toDependencyJSON();
   }
 
+  /**
+   * Checks the task graph for problems before it is run
+   * @returns The problems found, see TaskGraph.validate()
+   */
+  validate(): TaskGraphDiagnostic[] {
+    return this._graph.validate();
+  }
+
   /**
    * Creates a new task graph builder that runs multiple task graph builders in parallel
    * @param args The task graph builders to run in parallel
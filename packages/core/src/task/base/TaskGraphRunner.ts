@@ -6,10 +6,80 @@
 //    *******************************************************************************
 
 import { TaskOutputRepository } from "../../storage/taskoutput/TaskOutputRepository";
-import { TaskInput, Task, TaskOutput, TaskStatus } from "./Task";
+import { GraphRun, GraphRunRepository } from "../../storage/graphrun/GraphRunRepository";
+import {
+  TaskInput,
+  Task,
+  TaskOutput,
+  TaskStatus,
+  TaskBase,
+  TaskFailurePolicy,
+  TaskTypeName,
+} from "./Task";
 import { TaskGraph } from "./TaskGraph";
 import { nanoid } from "nanoid";
 
+/**
+ * How the runner schedules tasks:
+ * - "layered" runs each layer as a set and waits for the whole layer before starting the next
+ * - "streaming" starts each task as soon as all of the tasks feeding its DataFlows have completed
+ */
+export type TaskGraphRunnerMode = "layered" | "streaming";
+
+export interface TaskGraphRunnerOptions {
+  /**
+   * Scheduling mode, defaults to "layered"
+   */
+  mode?: TaskGraphRunnerMode;
+  /**
+   * Maximum number of tasks running at the same time in "streaming" mode, defaults to unlimited
+   */
+  maxParallelism?: number;
+  /**
+   * What to do when a task fails, defaults to "fail-fast". A task can override this
+   * with its own `failurePolicy` config.
+   */
+  failurePolicy?: TaskFailurePolicy;
+  /**
+   * Where to checkpoint the run after each task, so it can be continued with `resumeRun`
+   */
+  graphRunRepository?: GraphRunRepository;
+  /**
+   * Aborts the run when it fires, the same as calling `abort` on the runner
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The final state of a single task after a graph run
+ */
+export interface TaskRunResult {
+  id: unknown;
+  type: TaskTypeName;
+  status: TaskStatus;
+  output?: TaskOutput;
+  error?: string;
+}
+
+/**
+ * The result of a graph run
+ */
+export interface TaskGraphRunResult {
+  runId: string;
+  /**
+   * COMPLETED if every task completed or was skipped by a branch not taken, FAILED otherwise
+   */
+  status: TaskStatus;
+  /**
+   * Every task of the graph in topological order
+   */
+  tasks: TaskRunResult[];
+  /**
+   * The outputs of the completed tasks in the last layer of the graph
+   */
+  outputs: TaskOutput[];
+}
+
 /**
  * Class for running a task graph
  * Manages the execution of tasks in a task graph, including provenance tracking and caching
@@ -27,14 +97,46 @@ export class TaskGraphRunner {
    */
   public provenanceInput: Map<unknown, TaskInput>;
 
+  /**
+   * The run currently being checkpointed, if any
+   */
+  private currentRun?: Pick<GraphRun, "runId" | "parentProvenance" | "createdAt">;
+
+  /**
+   * Ids of the tasks restored as completed by `resumeRun`, these are not run again
+   */
+  private restoredTaskIds = new Set<unknown>();
+
+  /**
+   * Ids of the tasks skipped because of an upstream failure, their dependents are skipped too
+   */
+  private failureSkippedTaskIds = new Set<unknown>();
+
+  /**
+   * Checkpoint writes are chained so they land in the order they were taken
+   */
+  private checkpointQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Why the run was aborted, once it is. No new tasks are started after that.
+   */
+  private abortReason?: string;
+
+  /**
+   * The run in progress, `abort` waits for it to settle
+   */
+  private runPromise?: Promise<TaskGraphRunResult>;
+
   /**
    * Constructor for TaskGraphRunner
    * @param dag The task graph to run
    * @param repository The task output repository to use for caching task outputs
+   * @param options Scheduling options for the runner
    */
   constructor(
     public dag: TaskGraph,
-    public repository?: TaskOutputRepository
+    public repository?: TaskOutputRepository,
+    public options: TaskGraphRunnerOptions = {}
   ) {
     this.layers = new Map();
     this.provenanceInput = new Map();
@@ -77,6 +179,8 @@ export class TaskGraphRunner {
 
   private copyInputFromEdgesToNode(node: Task) {
     this.dag.getSourceDataFlows(node.config.id).forEach((dataFlow) => {
+      // a source that failed under the "continue" policy left no value, keep the default
+      if (!dataFlow.active || dataFlow.value === undefined) return;
       const toInput: TaskInput = {};
       toInput[dataFlow.targetTaskInputId] = dataFlow.value;
       node.addInputData(toInput);
@@ -108,6 +212,7 @@ export class TaskGraphRunner {
         dataFlow.value = results[dataFlow.sourceTaskOutputId];
       }
       if (nodeProvenance) dataFlow.provenance = nodeProvenance;
+      dataFlow.active = node.isOutputActive(dataFlow.sourceTaskOutputId);
     });
   }
 
@@ -159,56 +264,416 @@ export class TaskGraphRunner {
     return results;
   }
 
+  /**
+   * Aborts the tasks that are still running and marks the ones that never started as failed
+   * @param reason The error given to the tasks that never started
+   */
+  private async abortRemainingTasks(reason: string = "Aborted") {
+    await Promise.all(
+      this.dag.getNodes().map(async (node: Task) => {
+        if ([TaskStatus.PROCESSING].includes(node.status)) {
+          await node.abort();
+        }
+        if ([TaskStatus.PENDING].includes(node.status)) {
+          node.emit("error", reason);
+        }
+      })
+    );
+  }
+
+  /**
+   * Aborts the run in progress: no new tasks are started, running tasks are aborted (job queue
+   * tasks through their queue, compound tasks by aborting their subgraph run) and the tasks
+   * that never started are marked as failed. The run itself rejects.
+   * @param reason Why the run is aborted
+   * @returns A promise that resolves once every task of the run has settled
+   */
+  public async abort(reason: string = "Aborted"): Promise<void> {
+    const run = this.runPromise;
+    if (!run) return;
+    this.abortReason ??= reason;
+    await this.abortRemainingTasks(this.abortReason);
+    await run.catch(() => {});
+  }
+
+  /**
+   * Throws if the run was aborted
+   */
+  private throwIfAborted() {
+    if (this.abortReason !== undefined) {
+      throw new Error(`Task graph aborted: ${this.abortReason}`);
+    }
+  }
+
+  /**
+   * Gets the failure policy that applies when the given task fails
+   * @param task The task that failed
+   */
+  private getFailurePolicy(task: Task): TaskFailurePolicy {
+    return task.config.failurePolicy ?? this.options.failurePolicy ?? "fail-fast";
+  }
+
+  /**
+   * A task is skipped when any of its sources failed with the "skip-dependents" policy (or was
+   * skipped because of such a failure), or when one of its inputs is only fed by inactive data
+   * flows, meaning the branch leading to it was not taken.
+   * @param task The task to check
+   * @returns Why the task should be skipped, or undefined if it should run
+   */
+  private getSkipReason(task: Task): "failure" | "branch" | undefined {
+    const dataFlows = this.dag.getSourceDataFlows(task.config.id);
+    const failedUpstream = dataFlows.some((dataFlow) => {
+      const source = this.dag.getTask(dataFlow.sourceTaskId)!;
+      return (
+        this.failureSkippedTaskIds.has(source.config.id) ||
+        (source.status === TaskStatus.FAILED && this.getFailurePolicy(source) === "skip-dependents")
+      );
+    });
+    if (failedUpstream) return "failure";
+
+    const activeInputs = new Map<string, boolean>();
+    for (const dataFlow of dataFlows) {
+      const id = dataFlow.targetTaskInputId;
+      activeInputs.set(id, (activeInputs.get(id) ?? false) || dataFlow.active);
+    }
+    if ([...activeInputs.values()].some((active) => !active)) return "branch";
+    return undefined;
+  }
+
+  /**
+   * Marks a task as skipped, along with the data flows leaving it
+   * @param task The task to skip
+   */
+  private skipTask(task: Task) {
+    task.emit("skip");
+    this.dag.getTargetDataFlows(task.config.id).forEach((dataFlow) => {
+      dataFlow.active = false;
+    });
+  }
+
+  /**
+   * Runs a task, or skips it if an upstream failure or branch requires it. Failed tasks are
+   * marked as such before the error is rethrown.
+   * @param task The task to run
+   * @param parentProvenance The provenance input for the task
+   */
+  private async runOrSkipTask(task: Task, parentProvenance: TaskInput): Promise<void> {
+    if (this.restoredTaskIds.has(task.config.id) || this.abortReason !== undefined) {
+      return;
+    }
+    try {
+      const skipReason = this.getSkipReason(task);
+      if (skipReason) {
+        if (skipReason === "failure") this.failureSkippedTaskIds.add(task.config.id);
+        this.skipTask(task);
+        return;
+      }
+      await this.runTaskWithProvenance(task, parentProvenance);
+    } catch (err) {
+      if (task.status !== TaskStatus.FAILED) {
+        task.emit("error", err instanceof Error ? err.message : String(err));
+      }
+      throw err;
+    } finally {
+      await this.saveCheckpoint(TaskStatus.PROCESSING);
+    }
+  }
+
+  /**
+   * Saves the current state of the run to the graph run repository, if there is one
+   * @param status The status of the run as a whole
+   */
+  private saveCheckpoint(status: TaskStatus): Promise<void> {
+    const repository = this.options.graphRunRepository;
+    if (!repository || !this.currentRun) return Promise.resolve();
+    const run: GraphRun = {
+      ...this.currentRun,
+      status,
+      tasks: this.dag.getNodes().map((node) => ({
+        id: node.config.id,
+        status: node.status,
+        ...(node.status === TaskStatus.COMPLETED ? { output: node.runOutputData } : {}),
+        ...(node.status === TaskStatus.FAILED ? { error: node.error } : {}),
+        provenance: this.provenanceInput.get(node.config.id),
+      })),
+      dataFlows: this.dag.getDataFlows().map((dataFlow) => ({
+        id: dataFlow.id,
+        value: dataFlow.value,
+        provenance: dataFlow.provenance,
+        active: dataFlow.active,
+      })),
+      updatedAt: new Date().toISOString(),
+    };
+    this.checkpointQueue = this.checkpointQueue.then(() => repository.saveRun(run));
+    return this.checkpointQueue;
+  }
+
+  /**
+   * Builds the structured result of a graph run from the final state of the tasks
+   * @param runId The id of the run
+   * @param sortedNodes The topologically sorted list of tasks
+   */
+  private buildRunResult(runId: string, sortedNodes: Task[]): TaskGraphRunResult {
+    const tasks: TaskRunResult[] = sortedNodes.map((node) => ({
+      id: node.config.id,
+      type: (node.constructor as typeof TaskBase).type,
+      status: node.status,
+      ...(node.status === TaskStatus.COMPLETED ? { output: node.runOutputData } : {}),
+      ...(node.status === TaskStatus.FAILED ? { error: node.error } : {}),
+    }));
+    const lastLayer = this.layers.get(this.layers.size - 1) ?? [];
+    // tasks on a branch that was not taken are skipped too, that is not a failure
+    const succeeded = tasks.every(
+      (task) =>
+        task.status === TaskStatus.COMPLETED ||
+        (task.status === TaskStatus.SKIPPED && !this.failureSkippedTaskIds.has(task.id))
+    );
+    return {
+      runId,
+      status: succeeded ? TaskStatus.COMPLETED : TaskStatus.FAILED,
+      tasks,
+      outputs: lastLayer
+        .filter((node) => node.status === TaskStatus.COMPLETED)
+        .map((node) => node.runOutputData),
+    };
+  }
+
   /**
    * Runs the task graph
    * @param parentProvenance The provenance input for the task graph
-   * @returns The output of the task graph
+   * @returns The final status, output or error of every task in the graph
    */
-  public async runGraph(parentProvenance: TaskInput = {}) {
-    const taskRunId = nanoid();
+  public async runGraph(parentProvenance: TaskInput = {}): Promise<TaskGraphRunResult> {
+    const runId = nanoid();
+    this.prepareRun(runId);
+    this.currentRun = { runId, parentProvenance, createdAt: new Date().toISOString() };
+    return await this.executeRun(runId, parentProvenance);
+  }
+
+  /**
+   * Continues a checkpointed run of this graph. Tasks that completed in the earlier run keep
+   * their output and are not run again, everything else is run as usual.
+   * @param runId The id of the run to resume, as returned in the run result
+   * @returns The final status, output or error of every task in the graph
+   */
+  public async resumeRun(runId: string): Promise<TaskGraphRunResult> {
+    const repository = this.options.graphRunRepository;
+    if (!repository) {
+      throw new Error("Resuming a run requires a graphRunRepository");
+    }
+    const run = await repository.getRun(runId);
+    if (!run) {
+      throw new Error(`Graph run ${runId} not found`);
+    }
+
+    this.prepareRun(runId);
+    for (const state of run.tasks) {
+      const task = this.dag.getTask(state.id);
+      if (!task) {
+        throw new Error(`Task ${state.id} of graph run ${runId} not found in graph`);
+      }
+      if (state.provenance) {
+        this.provenanceInput.set(state.id, state.provenance);
+      }
+      if (state.status === TaskStatus.COMPLETED) {
+        task.runOutputData = state.output ?? {};
+        task.emit("complete");
+        this.restoredTaskIds.add(state.id);
+      }
+    }
+    for (const state of run.dataFlows) {
+      const dataFlow = this.dag.getDataFlow(state.id);
+      if (dataFlow) {
+        dataFlow.value = state.value;
+        dataFlow.provenance = state.provenance;
+        dataFlow.active = state.active ?? true;
+      }
+    }
+    this.currentRun = {
+      runId,
+      parentProvenance: run.parentProvenance,
+      createdAt: run.createdAt,
+    };
+    return await this.executeRun(runId, run.parentProvenance);
+  }
+
+  /**
+   * Resets the runner and the tasks of the graph for a new run
+   * @param runId The id of the run
+   */
+  private prepareRun(runId: string) {
     this.dag.getNodes().forEach((node) => {
       if (node.config) {
         // @ts-ignore
-        node.config.currentJobRunId = taskRunId;
+        node.config.currentJobRunId = runId;
       }
       node.resetInputData();
     });
+    this.dag.getDataFlows().forEach((dataFlow) => {
+      dataFlow.value = undefined;
+      dataFlow.provenance = {};
+      dataFlow.active = true;
+    });
     this.provenanceInput = new Map();
+    this.restoredTaskIds = new Set();
+    this.failureSkippedTaskIds = new Set();
+    this.currentRun = undefined;
+    this.abortReason = undefined;
+  }
+
+  /**
+   * Runs the tasks of the graph with the configured scheduler, checkpointing as it goes
+   * @param runId The id of the run
+   * @param parentProvenance The provenance input for the task graph
+   */
+  private executeRun(runId: string, parentProvenance: TaskInput): Promise<TaskGraphRunResult> {
+    const run = this.runTasks(runId, parentProvenance).finally(() => {
+      if (this.runPromise === run) this.runPromise = undefined;
+    });
+    this.runPromise = run;
+    return run;
+  }
+
+  /**
+   * Runs the tasks of the graph with the configured scheduler, checkpointing as it goes
+   * @param runId The id of the run
+   * @param parentProvenance The provenance input for the task graph
+   */
+  private async runTasks(runId: string, parentProvenance: TaskInput) {
+    const signal = this.options.signal;
+    const signalReason = () =>
+      signal?.reason instanceof Error ? signal.reason.message : String(signal?.reason ?? "Aborted");
+    const onAbort = () => this.abort(signalReason());
+    if (signal?.aborted) {
+      this.abortReason = signalReason();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
     const sortedNodes = this.dag.topologicallySortedNodes();
     this.assignLayers(sortedNodes);
+    await this.saveCheckpoint(TaskStatus.PROCESSING);
 
-    let results: TaskOutput[] = [];
+    try {
+      if (this.options.mode === "streaming") {
+        await this.runTasksStreaming(sortedNodes, parentProvenance);
+      } else {
+        await this.runTasksLayered(parentProvenance);
+      }
+    } catch (err) {
+      if (this.abortReason !== undefined) {
+        await this.abortRemainingTasks(this.abortReason);
+      }
+      await this.saveCheckpoint(TaskStatus.FAILED);
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+    const result = this.buildRunResult(runId, sortedNodes);
+    await this.saveCheckpoint(result.status);
+    return result;
+  }
+
+  /**
+   * Runs the task graph one layer at a time
+   * @param parentProvenance The provenance input for the task graph
+   */
+  private async runTasksLayered(parentProvenance: TaskInput) {
     for (const [layerNumber, nodes] of this.layers.entries()) {
+      this.throwIfAborted();
       const settledResults = await Promise.allSettled(
-        nodes.map((node) =>
-          this.runTaskWithProvenance(node, layerNumber === 0 ? parentProvenance : {})
-        )
+        nodes.map((node) => this.runOrSkipTask(node, layerNumber === 0 ? parentProvenance : {}))
       );
+      this.throwIfAborted();
 
-      for (const result of settledResults) {
-        if (result.status === "rejected") {
+      for (let i = 0; i < settledResults.length; i++) {
+        const result = settledResults[i];
+        if (result.status === "rejected" && this.getFailurePolicy(nodes[i]) === "fail-fast") {
           // Abort tasks that support aborting by calling their abort method
-          await Promise.all(
-            this.dag.getNodes().map(async (node: Task) => {
-              if ([TaskStatus.PROCESSING].includes(node.status)) {
-                await node.abort();
-              }
-              if ([TaskStatus.PENDING].includes(node.status)) {
-                node.emit("error", "Aborted");
-              }
-            })
-          );
+          await this.abortRemainingTasks();
           throw new Error(
             `Task graph aborted due to error in layer ${layerNumber}: ${result.reason}`
           );
         }
       }
+    }
+  }
+
+  /**
+   * Runs the task graph by starting each task as soon as its dependencies have completed,
+   * without waiting for the rest of the layer.
+   * @param sortedNodes The topologically sorted list of tasks
+   * @param parentProvenance The provenance input for the task graph
+   */
+  private async runTasksStreaming(sortedNodes: Task[], parentProvenance: TaskInput) {
+    const maxParallelism = this.options.maxParallelism ?? Infinity;
+    if (maxParallelism < 1) {
+      throw new Error(`Invalid maxParallelism: ${maxParallelism}`);
+    }
+
+    // For each task, the set of source tasks it is still waiting on
+    const waitingOn = new Map<unknown, Set<unknown>>();
+    for (const node of sortedNodes) {
+      waitingOn.set(
+        node.config.id,
+        new Set(this.dag.getSourceDataFlows(node.config.id).map((df) => df.sourceTaskId))
+      );
+    }
+
+    const ready: Task[] = sortedNodes.filter((node) => waitingOn.get(node.config.id)!.size === 0);
+    const rootIds = new Set(ready.map((node) => node.config.id));
+    const inFlight = new Map<unknown, Promise<void>>();
+    let failure: { task: Task; reason: unknown } | undefined;
+
+    const release = (id: unknown) => {
+      for (const target of this.dag.getTargetTasks(id)) {
+        const remaining = waitingOn.get(target.config.id)!;
+        if (remaining.delete(id) && remaining.size === 0) {
+          ready.push(target);
+        }
+      }
+    };
 
-      results = settledResults
-        .filter((r): r is PromiseFulfilledResult<TaskOutput> => r.status === "fulfilled") //ts
-        .map((r) => r.value);
+    const start = (node: Task) => {
+      const id = node.config.id;
+      const promise = this.runOrSkipTask(node, rootIds.has(id) ? parentProvenance : {})
+        .then(() => release(id))
+        .catch((reason) => {
+          if (this.getFailurePolicy(node) === "fail-fast") {
+            failure ??= { task: node, reason };
+          } else {
+            release(id);
+          }
+        })
+        .finally(() => {
+          inFlight.delete(id);
+        });
+      inFlight.set(id, promise);
+    };
+
+    const stopped = () => failure !== undefined || this.abortReason !== undefined;
+    while (!stopped() && (ready.length > 0 || inFlight.size > 0)) {
+      while (!stopped() && ready.length > 0 && inFlight.size < maxParallelism) {
+        start(ready.shift()!);
+      }
+      if (inFlight.size > 0) {
+        await Promise.race(inFlight.values());
+      }
+    }
+
+    if (this.abortReason !== undefined) {
+      await Promise.allSettled(inFlight.values());
+      this.throwIfAborted();
+    }
+
+    if (failure) {
+      // Abort tasks that support aborting by calling their abort method
+      await this.abortRemainingTasks();
+      await Promise.allSettled(inFlight.values());
+      throw new Error(
+        `Task graph aborted due to error in task ${failure.task.config.id}: ${failure.reason}`
+      );
     }
-    return results;
   }
 
   /**
@@ -6,6 +6,12 @@
 //    *******************************************************************************
 
 import { CompoundTask, SingleTask } from "./Task";
+import {
+  jsonTaskItemsSchema,
+  taskGraphJsonSchema,
+  taskInputSchema,
+  taskOutputSchema,
+} from "./TaskSchema";
 
 const all = new Map<string, typeof SingleTask | typeof CompoundTask>();
 
@@ -13,7 +19,37 @@ const registerTask = (baseClass: typeof SingleTask | typeof CompoundTask) => {
   all.set(baseClass.type, baseClass);
 };
 
+const getTaskClass = (type: string) => {
+  const taskClass = all.get(type);
+  if (!taskClass) throw new Error(`Task type ${type} not found`);
+  return taskClass;
+};
+
+/**
+ * JSON Schema (draft 2020-12) of the inputs of a registered task type
+ */
+const inputSchema = (type: string) => taskInputSchema(getTaskClass(type));
+
+/**
+ * JSON Schema (draft 2020-12) of the outputs of a registered task type
+ */
+const outputSchema = (type: string) => taskOutputSchema(getTaskClass(type));
+
+/**
+ * JSON Schema (draft 2020-12) of the JsonTaskItem[] format, for the registered task types
+ */
+const jsonTaskSchema = () => jsonTaskItemsSchema(Array.from(all.values()));
+
+/**
+ * JSON Schema (draft 2020-12) of the TaskGraphJson format, for the registered task types
+ */
+const graphJsonSchema = () => taskGraphJsonSchema(Array.from(all.values()));
+
 export const TaskRegistry = {
   registerTask,
+  inputSchema,
+  outputSchema,
+  jsonTaskSchema,
+  graphJsonSchema,
   all,
 };
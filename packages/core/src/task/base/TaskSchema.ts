@@ -0,0 +1,209 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import type { ArrayTaskCombination } from "./ArrayTask";
+import type { CompoundTask, SingleTask, TaskInputDefinition, TaskOutputDefinition } from "./Task";
+import { JsonSchema, ValueTypeRegistry } from "./ValueTypeRegistry";
+
+type TaskClass = typeof SingleTask | typeof CompoundTask;
+
+const SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+const combinations: ArrayTaskCombination[] = ["product", "zip", "zip-longest"];
+
+/**
+ * Schema of a single input or output, array inputs also accept a single value since they
+ * are wrapped in an array when validated
+ */
+function definitionSchema(
+  definition: TaskInputDefinition | TaskOutputDefinition,
+  kind: "input" | "output"
+): JsonSchema {
+  const item = ValueTypeRegistry.schemaOf(definition.valueType);
+  let schema: JsonSchema = item;
+  if (definition.isArray) {
+    const array: JsonSchema = { type: "array", items: item };
+    schema = kind === "input" ? { anyOf: [item, array] } : array;
+  }
+  const result: JsonSchema = { title: definition.name, ...schema };
+  if ("defaultValue" in definition && definition.defaultValue !== undefined) {
+    const value = ValueTypeRegistry.serialize(definition.valueType, definition.defaultValue);
+    if (typeof value !== "function") result.default = value;
+  }
+  return result;
+}
+
+function objectSchema(
+  title: string,
+  definitions: ReadonlyArray<TaskInputDefinition | TaskOutputDefinition>,
+  kind: "input" | "output",
+  required: string[]
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const definition of definitions) {
+    properties[definition.id] = definitionSchema(definition, kind);
+  }
+  return {
+    title,
+    type: "object",
+    properties,
+    ...(required.length ? { required } : {}),
+  };
+}
+
+/**
+ * JSON Schema of the inputs of a task class
+ * @param taskClass The task class
+ * @param options.required Whether inputs without a default value that are not optional are
+ * required, which is not the case inside a graph where they can be given by data flows instead
+ */
+export function taskInputSchema(
+  taskClass: TaskClass,
+  { required = true }: { required?: boolean } = {}
+): JsonSchema {
+  const inputs = Array.from(taskClass.inputs ?? []);
+  return {
+    $schema: SCHEMA_DIALECT,
+    ...objectSchema(
+      `${taskClass.type} input`,
+      inputs,
+      "input",
+      required
+        ? inputs
+            .filter((input) => input.defaultValue === undefined && !input.optional)
+            .map((i) => i.id)
+        : []
+    ),
+  };
+}
+
+/**
+ * JSON Schema of the outputs of a task class
+ * @param taskClass The task class
+ */
+export function taskOutputSchema(taskClass: TaskClass): JsonSchema {
+  return {
+    $schema: SCHEMA_DIALECT,
+    ...objectSchema(`${taskClass.type} output`, Array.from(taskClass.outputs ?? []), "output", []),
+  };
+}
+
+/**
+ * The $defs with the input schema of each task class, and conditions that apply the right one
+ * to the "input" of an item according to its "type"
+ */
+function taskTypeSchemas(taskClasses: TaskClass[], dependencies: boolean) {
+  const defs: Record<string, JsonSchema> = {};
+  const conditions: JsonSchema[] = [];
+  for (const taskClass of taskClasses) {
+    const { $schema, ...input } = taskInputSchema(taskClass, { required: false });
+    defs[`${taskClass.type}Input`] = input;
+    const inputIds = Array.from(taskClass.inputs ?? []).map((i) => i.id);
+    conditions.push({
+      if: { properties: { type: { const: taskClass.type } }, required: ["type"] },
+      then: {
+        properties: {
+          input: { $ref: `#/$defs/${taskClass.type}Input` },
+          ...(dependencies ? { dependencies: { propertyNames: { enum: inputIds } } } : {}),
+        },
+      },
+    });
+  }
+  return { defs, conditions };
+}
+
+/**
+ * JSON Schema of the JsonTaskItem[] format used by JsonTask
+ * @param taskClasses The task classes that can be used, usually all registered ones
+ */
+export function jsonTaskItemsSchema(taskClasses: TaskClass[]): JsonSchema {
+  const { defs, conditions } = taskTypeSchemas(taskClasses, true);
+  const dependency: JsonSchema = { $ref: "#/$defs/JsonTaskDependency" };
+  return {
+    $schema: SCHEMA_DIALECT,
+    title: "JsonTaskItem[]",
+    type: "array",
+    items: { $ref: "#/$defs/JsonTaskItem" },
+    $defs: {
+      JsonTaskItem: {
+        type: "object",
+        required: ["id", "type"],
+        properties: {
+          id: {},
+          type: { type: "string", enum: taskClasses.map((taskClass) => taskClass.type) },
+          name: { type: "string" },
+          input: { type: "object" },
+          dependencies: {
+            type: "object",
+            additionalProperties: { anyOf: [dependency, { type: "array", items: dependency }] },
+          },
+          provenance: { type: "object" },
+          subtasks: { type: "array", items: { $ref: "#/$defs/JsonTaskItem" } },
+          combination: { enum: combinations },
+        },
+        allOf: conditions,
+      },
+      JsonTaskDependency: {
+        type: "object",
+        required: ["id", "output"],
+        properties: {
+          id: {},
+          output: { type: "string" },
+        },
+      },
+      ...defs,
+    },
+  };
+}
+
+/**
+ * JSON Schema of the TaskGraphJson format used by TaskGraph.toJSON and the TaskGraphRepository
+ * @param taskClasses The task classes that can be used, usually all registered ones
+ */
+export function taskGraphJsonSchema(taskClasses: TaskClass[]): JsonSchema {
+  const { defs, conditions } = taskTypeSchemas(taskClasses, false);
+  return {
+    $schema: SCHEMA_DIALECT,
+    title: "TaskGraphJson",
+    $ref: "#/$defs/TaskGraphJson",
+    $defs: {
+      TaskGraphJson: {
+        type: "object",
+        required: ["nodes", "edges"],
+        properties: {
+          nodes: { type: "array", items: { $ref: "#/$defs/TaskGraphItemJson" } },
+          edges: { type: "array", items: { $ref: "#/$defs/DataFlowJson" } },
+        },
+      },
+      TaskGraphItemJson: {
+        type: "object",
+        required: ["id", "type"],
+        properties: {
+          id: {},
+          type: { type: "string", enum: taskClasses.map((taskClass) => taskClass.type) },
+          name: { type: "string" },
+          input: { type: "object" },
+          provenance: { type: "object" },
+          subgraph: { $ref: "#/$defs/TaskGraphJson" },
+          combination: { enum: combinations },
+        },
+        allOf: conditions,
+      },
+      DataFlowJson: {
+        type: "object",
+        required: ["sourceTaskId", "sourceTaskOutputId", "targetTaskId", "targetTaskInputId"],
+        properties: {
+          sourceTaskId: {},
+          sourceTaskOutputId: { type: "string" },
+          targetTaskId: {},
+          targetTaskInputId: { type: "string" },
+        },
+      },
+      ...defs,
+    },
+  };
+}
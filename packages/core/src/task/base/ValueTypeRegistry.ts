@@ -0,0 +1,264 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import type { TaskBase, TaskInputDefinition } from "./Task";
+
+export type ValueTypeName = string;
+
+/**
+ * A JSON Schema (draft 2020-12), only the keywords we generate are typed
+ */
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+/**
+ * Describes a value type that task inputs and outputs can use as their valueType
+ */
+export interface ValueTypeDefinition<T = any> {
+  /** Name used as the valueType of inputs and outputs */
+  readonly name: ValueTypeName;
+  /** The TypeScript type of the values, for documentation and code generation */
+  readonly tsType: string;
+  /** A more general value type that this one can be used as, like "embedding_model" as "model" */
+  readonly parent?: ValueTypeName;
+  /** Color used to show the value type in editors */
+  readonly color?: string;
+  /** JSON Schema of the (serialized) values, the schema of the parent type is used when missing */
+  readonly schema?: JsonSchema;
+  /**
+   * Checks a single value (not an array of them)
+   * @param value The value to check
+   * @param task The task the value is given to, for validators that depend on it
+   */
+  validate(value: unknown, task?: TaskBase): boolean | Promise<boolean>;
+  /**
+   * Converts a value to something JSON can hold. Returns undefined if the value is not one it
+   * knows how to convert, in which case (and for all values when missing) it is used as is.
+   * It is called without validating the value first, as validators can be async.
+   */
+  serialize?(value: unknown): unknown;
+  /**
+   * Converts a value back from its JSON form. Returns undefined if the json is not a
+   * serialized value, in which case (and for all values when missing) it is used as is.
+   */
+  deserialize?(json: unknown): T | undefined;
+  /**
+   * Converters from other value types, keyed by the name of the other value type. A converter
+   * returns undefined if it can not convert the value.
+   */
+  readonly coercions?: Readonly<Record<ValueTypeName, (value: any) => T | undefined>>;
+}
+
+const all = new Map<ValueTypeName, ValueTypeDefinition>();
+
+const registerValueType = <T>(definition: ValueTypeDefinition<T>) => {
+  all.set(definition.name, definition);
+};
+
+const get = (name: ValueTypeName) => all.get(name);
+
+/**
+ * Whether a value type is the same as, or a descendant of, another value type
+ */
+const isSubtypeOf = (name: ValueTypeName, ancestor: ValueTypeName): boolean => {
+  const seen = new Set<ValueTypeName>();
+  let current: ValueTypeName | undefined = name;
+  while (current !== undefined && !seen.has(current)) {
+    if (current === ancestor) return true;
+    seen.add(current);
+    current = all.get(current)?.parent;
+  }
+  return false;
+};
+
+/**
+ * Whether an output of one value type can feed an input of another value type: "any" on
+ * either side, the same type or a subtype, or a type the input can be coerced from
+ */
+const isCompatible = (from: ValueTypeName, to: ValueTypeName): boolean => {
+  if (from === "any" || to === "any") return true;
+  if (isSubtypeOf(from, to)) return true;
+  return all.get(to)?.coercions?.[from] !== undefined;
+};
+
+/**
+ * Validates a single value against a value type, unknown value types are invalid
+ */
+const validate = async (name: ValueTypeName, value: unknown, task?: TaskBase) => {
+  const type = all.get(name);
+  if (!type) return false;
+  return await type.validate(value, task);
+};
+
+/**
+ * Tries to convert a value to a value type using the coercions of that type
+ * @returns The converted value, or undefined if no coercion applies
+ */
+const coerce = async (
+  name: ValueTypeName,
+  value: unknown,
+  task?: TaskBase
+): Promise<{ value: unknown } | undefined> => {
+  const coercions = all.get(name)?.coercions ?? {};
+  for (const [from, convert] of Object.entries(coercions)) {
+    if (!(await validate(from, value, task))) continue;
+    const converted = convert(value);
+    if (converted !== undefined) return { value: converted };
+  }
+  return undefined;
+};
+
+/**
+ * The JSON Schema of a value type, from the type itself or the closest parent that has one
+ */
+const schemaOf = (name: ValueTypeName): JsonSchema => {
+  const seen = new Set<ValueTypeName>();
+  let type = all.get(name);
+  while (type && !seen.has(type.name)) {
+    if (type.schema) return type.schema;
+    seen.add(type.name);
+    type = type.parent !== undefined ? all.get(type.parent) : undefined;
+  }
+  return {};
+};
+
+const serialize = (name: ValueTypeName, value: unknown) => {
+  const type = all.get(name);
+  if (!type?.serialize || value === undefined) return value;
+  return type.serialize(value) ?? value;
+};
+
+const deserialize = (name: ValueTypeName, json: unknown) => {
+  const type = all.get(name);
+  if (!type?.deserialize || json === undefined) return json;
+  return type.deserialize(json) ?? json;
+};
+
+const mapInput = (
+  definitions: ReadonlyArray<TaskInputDefinition>,
+  input: Record<string, unknown>,
+  convert: (name: ValueTypeName, value: unknown) => unknown
+) => {
+  const result: Record<string, unknown> = { ...input };
+  for (const definition of definitions) {
+    if (!(definition.id in result)) continue;
+    const value = result[definition.id];
+    // a value type can serialize to an array, only array inputs hold one value per item
+    result[definition.id] =
+      definition.isArray && Array.isArray(value)
+        ? value.map((item) => convert(definition.valueType, item))
+        : convert(definition.valueType, value);
+  }
+  return result;
+};
+
+/**
+ * Serializes the values of a task input according to the value types of its definitions
+ */
+const serializeInput = (
+  definitions: ReadonlyArray<TaskInputDefinition>,
+  input: Record<string, unknown>
+) => mapInput(definitions, input, serialize);
+
+/**
+ * Deserializes the values of a task input according to the value types of its definitions
+ */
+const deserializeInput = (
+  definitions: ReadonlyArray<TaskInputDefinition>,
+  input: Record<string, unknown>
+) => mapInput(definitions, input, deserialize);
+
+export const ValueTypeRegistry = {
+  registerValueType,
+  get,
+  isSubtypeOf,
+  isCompatible,
+  validate,
+  coerce,
+  schemaOf,
+  serialize,
+  deserialize,
+  serializeInput,
+  deserializeInput,
+  all,
+};
+
+// ========================================================================
+// Built-in value types
+// ========================================================================
+
+registerValueType<any>({
+  name: "any",
+  tsType: "any",
+  color: "#9ca3af",
+  validate: () => true,
+});
+
+registerValueType<number | bigint>({
+  name: "number",
+  tsType: "number",
+  color: "#2a8af6",
+  schema: { type: "number" },
+  validate: (value) => typeof value === "bigint" || typeof value === "number",
+  coercions: {
+    text: (value: string) =>
+      value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : undefined,
+  },
+});
+
+registerValueType<string>({
+  name: "text",
+  tsType: "string",
+  color: "#e92a67",
+  schema: { type: "string" },
+  validate: (value) => typeof value === "string",
+  coercions: {
+    number: (value: number | bigint) => String(value),
+    boolean: (value: boolean) => String(value),
+  },
+});
+
+registerValueType<boolean>({
+  name: "boolean",
+  tsType: "boolean",
+  color: "#a853ba",
+  schema: { type: "boolean" },
+  validate: (value) => typeof value === "boolean",
+  coercions: {
+    text: (value: string) => (value === "true" ? true : value === "false" ? false : undefined),
+  },
+});
+
+registerValueType<Function>({
+  name: "function",
+  tsType: "Function",
+  color: "#f59e0b",
+  validate: (value) => typeof value === "function",
+});
@@ -7,6 +7,8 @@
 
 export * from "./base/Task";
 export * from "./base/TaskRegistry";
+export * from "./base/ValueTypeRegistry";
+export * from "./base/TaskSchema";
 export * from "./base/TaskGraph";
 export * from "./base/TaskGraphRunner";
 export * from "./base/TaskGraphBuilder";
@@ -15,4 +17,8 @@ export * from "./base/JobQueueTask";
 export * from "./LambdaTask";
 export * from "./DebugLogTask";
 export * from "./JsonTask";
+export * from "./ConditionalTask";
+export * from "./SwitchTask";
+export * from "./LoopTask";
+export * from "./MapTask";
 export * from "./TaskQueueRegistry";
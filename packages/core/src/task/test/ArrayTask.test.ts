@@ -0,0 +1,141 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import {
+  ArrayTaskCombination,
+  ConvertAllToArrays,
+  ConvertSomeToOptionalArray,
+  arrayTaskFactory,
+} from "../base/ArrayTask";
+import { SingleTask } from "../base/Task";
+import { TaskGraph } from "../base/TaskGraph";
+import { JsonTask } from "../JsonTask";
+
+type TestMultiplyTaskInput = {
+  a: number;
+  b: number;
+};
+type TestMultiplyTaskOutput = {
+  output: number;
+};
+class TestMultiplyTask extends SingleTask {
+  static readonly type = "TestMultiplyTask";
+  declare runInputData: TestMultiplyTaskInput;
+  declare runOutputData: TestMultiplyTaskOutput;
+  static inputs = [
+    {
+      id: "a",
+      name: "A",
+      valueType: "number",
+      defaultValue: 0,
+    },
+    {
+      id: "b",
+      name: "B",
+      valueType: "number",
+      defaultValue: 1,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  async runReactive(): Promise<TestMultiplyTaskOutput> {
+    return { output: this.runInputData.a * this.runInputData.b };
+  }
+}
+
+type TestMultiplyCompoundTaskInput = ConvertSomeToOptionalArray<TestMultiplyTaskInput, "a" | "b">;
+type TestMultiplyCompoundTaskOutput = ConvertAllToArrays<TestMultiplyTaskOutput>;
+
+const TestMultiplyCompoundTask = arrayTaskFactory<
+  TestMultiplyCompoundTaskInput,
+  TestMultiplyCompoundTaskOutput,
+  TestMultiplyTaskOutput
+>(TestMultiplyTask, ["a", "b"]);
+
+const TestMultiplyZipTask = arrayTaskFactory<
+  TestMultiplyCompoundTaskInput,
+  TestMultiplyCompoundTaskOutput,
+  TestMultiplyTaskOutput
+>(TestMultiplyTask, ["a", "b"], { name: "TestMultiplyZipTask", combination: "zip" });
+
+describe("ArrayTask", () => {
+  const run = (input: TestMultiplyCompoundTaskInput, combination?: ArrayTaskCombination) =>
+    new TestMultiplyCompoundTask({ id: "multiply", input, combination }).run();
+
+  it("should build the cartesian product by default", async () => {
+    const output = await run({ a: [1, 2], b: [3, 4, 5] });
+
+    expect(output.output).toEqual([3, 4, 5, 6, 8, 10]);
+  });
+
+  it("should pair the array inputs by index with zip", async () => {
+    const output = await run({ a: [1, 2], b: [3, 4, 5] }, "zip");
+
+    expect(output.output).toEqual([3, 8]);
+  });
+
+  it("should fall back to the defaults with zip-longest", async () => {
+    const output = await run({ a: [1, 2], b: [3, 4, 5] }, "zip-longest");
+
+    expect(output.output).toEqual([3, 8, 0]);
+  });
+
+  it("should broadcast non-array inputs with zip", async () => {
+    const output = await run({ a: 2, b: [3, 4, 5] }, "zip");
+
+    expect(output.output).toEqual([6, 8, 10]);
+  });
+
+  it("should use the factory combination unless overridden", async () => {
+    const task = new TestMultiplyZipTask({ id: "zip", input: { a: [1, 2], b: [3, 4] } });
+    expect(task.combination).toEqual("zip");
+    expect((await task.run()).output).toEqual([3, 8]);
+
+    const product = new TestMultiplyZipTask({
+      id: "product",
+      input: { a: [1, 2], b: [3, 4] },
+      combination: "product",
+    });
+    expect((await product.run()).output).toEqual([3, 4, 6, 8]);
+  });
+
+  it("should record the combination in toJSON", () => {
+    const graph = new TaskGraph();
+    graph.addTask(new TestMultiplyCompoundTask({ id: "multiply", combination: "zip-longest" }));
+    graph.addTask(new TestMultiplyZipTask({ id: "zip" }));
+
+    const json = graph.toJSON();
+
+    expect(json.nodes.map((node) => node.combination)).toEqual(["zip-longest", "zip"]);
+    expect(graph.toDependencyJSON().map((node) => node.combination)).toEqual([
+      "zip-longest",
+      "zip",
+    ]);
+  });
+
+  it("should replay the combination from JSON", async () => {
+    const json = JSON.stringify([
+      {
+        id: "multiply",
+        type: "TestMultiplyCompoundTask",
+        input: { a: [1, 2], b: [3, 4] },
+        combination: "zip",
+      },
+    ]);
+    const task = new JsonTask({ input: { json } });
+
+    await task.run();
+
+    expect(task.subGraph.getTask("multiply")?.runOutputData).toEqual({ output: [3, 8] });
+  });
+});
@@ -0,0 +1,148 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { ConditionalTask } from "../ConditionalTask";
+import { SwitchTask } from "../SwitchTask";
+import { JsonTask } from "../JsonTask";
+import { SingleTask, TaskOutput, TaskStatus } from "../base/Task";
+import { DataFlow, TaskGraph } from "../base/TaskGraph";
+import { TaskGraphRunner } from "../base/TaskGraphRunner";
+import { TaskRegistry } from "../base/TaskRegistry";
+
+class TestEchoTask extends SingleTask {
+  static readonly type = "TestEchoTask";
+  static inputs = [
+    {
+      id: "input",
+      name: "Input",
+      valueType: "any",
+      defaultValue: null,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "any",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    return { output: this.runInputData.input };
+  }
+}
+TaskRegistry.registerTask(TestEchoTask);
+
+const statusById = (tasks: { id: unknown; status: TaskStatus }[]) =>
+  Object.fromEntries(tasks.map((task) => [task.id, task.status]));
+
+describe("ConditionalTask", () => {
+  it("should output the value on the chosen branch only", async () => {
+    const task = new ConditionalTask({ input: { value: "abc", condition: false } });
+    const output = await task.run();
+    expect(output).toEqual({ else: "abc" });
+    expect(task.isOutputActive("then")).toBe(false);
+    expect(task.isOutputActive("else")).toBe(true);
+  });
+
+  it("should compare the value when there is no condition", async () => {
+    const task = new ConditionalTask({
+      input: { value: "a long summary", operator: "length_greater_than", compareTo: 5 },
+    });
+    expect(await task.run()).toEqual({ then: "a long summary" });
+  });
+
+  it("should skip the tasks downstream of the branch not taken", async () => {
+    const graph = new TaskGraph();
+    graph.addTasks([
+      new ConditionalTask({ id: "if", input: { value: "text", operator: "falsy" } }),
+      new TestEchoTask({ id: "thenTask" }),
+      new TestEchoTask({ id: "afterThen" }),
+      new TestEchoTask({ id: "elseTask" }),
+      new TestEchoTask({ id: "merge" }),
+    ]);
+    graph.addDataFlows([
+      new DataFlow("if", "then", "thenTask", "input"),
+      new DataFlow("thenTask", "output", "afterThen", "input"),
+      new DataFlow("if", "else", "elseTask", "input"),
+      new DataFlow("afterThen", "output", "merge", "input"),
+      new DataFlow("elseTask", "output", "merge", "input"),
+    ]);
+
+    for (const mode of ["layered", "streaming"] as const) {
+      const result = await new TaskGraphRunner(graph, undefined, { mode }).runGraph();
+
+      expect(statusById(result.tasks)).toEqual({
+        if: TaskStatus.COMPLETED,
+        thenTask: TaskStatus.SKIPPED,
+        afterThen: TaskStatus.SKIPPED,
+        elseTask: TaskStatus.COMPLETED,
+        merge: TaskStatus.COMPLETED,
+      });
+      expect(result.status).toEqual(TaskStatus.COMPLETED);
+      expect(result.outputs).toEqual([{ output: "text" }]);
+    }
+  });
+});
+
+describe("SwitchTask", () => {
+  it("should expose one output per case", () => {
+    const task = new SwitchTask({ input: { cases: ["a", "b"] } });
+    expect(task.outputs.map((output) => output.id)).toEqual(["a", "b", "default"]);
+  });
+
+  it("should only run the selected case", async () => {
+    const graph = new TaskGraph();
+    graph.addTasks([
+      new SwitchTask({ id: "switch", input: { value: 1, selected: "b", cases: ["a", "b"] } }),
+      new TestEchoTask({ id: "a" }),
+      new TestEchoTask({ id: "b" }),
+      new TestEchoTask({ id: "other" }),
+    ]);
+    graph.addDataFlows([
+      new DataFlow("switch", "a", "a", "input"),
+      new DataFlow("switch", "b", "b", "input"),
+      new DataFlow("switch", "default", "other", "input"),
+    ]);
+
+    const result = await new TaskGraphRunner(graph).runGraph();
+
+    expect(statusById(result.tasks)).toEqual({
+      switch: TaskStatus.COMPLETED,
+      a: TaskStatus.SKIPPED,
+      b: TaskStatus.COMPLETED,
+      other: TaskStatus.SKIPPED,
+    });
+    expect(result.status).toEqual(TaskStatus.COMPLETED);
+  });
+
+  it("should be usable from a JsonTask", async () => {
+    const json = JSON.stringify([
+      {
+        id: "if",
+        type: "ConditionalTask",
+        input: { value: 10, operator: "greater_than", compareTo: 5 },
+      },
+      {
+        id: "big",
+        type: "TestEchoTask",
+        dependencies: { input: { id: "if", output: "then" } },
+      },
+      {
+        id: "small",
+        type: "TestEchoTask",
+        dependencies: { input: { id: "if", output: "else" } },
+      },
+    ]);
+    const task = new JsonTask({ input: { json } });
+
+    await task.run();
+
+    expect(task.subGraph.getTask("big")?.status).toEqual(TaskStatus.COMPLETED);
+    expect(task.subGraph.getTask("small")?.status).toEqual(TaskStatus.SKIPPED);
+  });
+});
@@ -0,0 +1,121 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { LoopTask } from "../LoopTask";
+import { SingleTask, TaskOutput } from "../base/Task";
+import { DataFlow, TaskGraph } from "../base/TaskGraph";
+
+class TestIncrementTask extends SingleTask {
+  static readonly type = "TestIncrementTask";
+  static inputs = [
+    {
+      id: "value",
+      name: "Value",
+      valueType: "number",
+      defaultValue: 0,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "value",
+      name: "Value",
+      valueType: "number",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    return { value: this.runInputData.value + 1 };
+  }
+}
+
+class TestAtLeastTask extends SingleTask {
+  static readonly type = "TestAtLeastTask";
+  static inputs = [
+    {
+      id: "value",
+      name: "Value",
+      valueType: "number",
+      defaultValue: 0,
+    },
+    {
+      id: "min",
+      name: "Minimum",
+      valueType: "number",
+      defaultValue: 3,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "done",
+      name: "Done",
+      valueType: "boolean",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    return { done: this.runInputData.value >= this.runInputData.min };
+  }
+}
+
+describe("LoopTask", () => {
+  const createLoop = (input: Record<string, any>) => {
+    const loop = new LoopTask({ input });
+    const subGraph = new TaskGraph();
+    subGraph.addTasks([
+      new TestIncrementTask({ id: "increment" }),
+      new TestAtLeastTask({ id: "check" }),
+    ]);
+    subGraph.addDataFlow(new DataFlow("increment", "value", "check", "value"));
+    loop.subGraph = subGraph;
+    return loop;
+  };
+
+  it("should iterate until the condition output is true", async () => {
+    const loop = createLoop({ input: { value: 0 } });
+    const progress: number[] = [];
+    loop.on("progress", (_progress, _text, details) => progress.push(details.iteration));
+
+    const output = await loop.run();
+
+    expect(output.iterations).toEqual(3);
+    expect(output.conditionMet).toBe(true);
+    expect(output.output).toEqual({ value: 3, done: true });
+    expect(output.history.map((item) => item.value)).toEqual([1, 2, 3]);
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it("should stop at maxIterations", async () => {
+    const loop = createLoop({ input: { value: -10 }, maxIterations: 2 });
+
+    const output = await loop.run();
+
+    expect(output.iterations).toEqual(2);
+    expect(output.conditionMet).toBe(false);
+    expect(output.output.value).toEqual(-8);
+  });
+
+  it("should restore the defaults of the subgraph tasks", async () => {
+    const loop = createLoop({ input: { value: 0 } });
+
+    await loop.run();
+
+    expect(loop.subGraph.getTask("increment")?.defaults).toEqual({ value: 0 });
+  });
+
+  it("should not start another iteration once aborted", async () => {
+    const loop = createLoop({ input: { value: -10 }, maxIterations: 10 });
+    const progress: number[] = [];
+    loop.on("progress", (_progress, _text, details) => {
+      progress.push(details.iteration);
+      if (details.iteration === 2) loop.abort();
+    });
+
+    await expect(loop.run()).rejects.toThrow("Task aborted");
+
+    expect(progress).toEqual([1, 2]);
+    expect(loop.subGraph.getTask("increment")?.defaults).toEqual({ value: 0 });
+  });
+});
@@ -0,0 +1,192 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it, beforeEach } from "bun:test";
+import { MapTask } from "../MapTask";
+import { JsonTask } from "../JsonTask";
+import { SingleTask, TaskOutput } from "../base/Task";
+import { DataFlow, TaskGraph } from "../base/TaskGraph";
+import { TaskRegistry } from "../base/TaskRegistry";
+import { sleep } from "../../util/Misc";
+
+class TestSplitTask extends SingleTask {
+  static readonly type = "TestSplitTask";
+  static inputs = [
+    {
+      id: "input",
+      name: "Input",
+      valueType: "text",
+      defaultValue: "",
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "parts",
+      name: "Parts",
+      valueType: "text",
+      isArray: true,
+    },
+  ] as const;
+  static running = 0;
+  static maxRunning = 0;
+  static started = 0;
+  async runReactive(): Promise<TaskOutput> {
+    TestSplitTask.started++;
+    if (this.runInputData.input === "fail") throw new Error("Item failed");
+    TestSplitTask.running++;
+    TestSplitTask.maxRunning = Math.max(TestSplitTask.maxRunning, TestSplitTask.running);
+    await sleep(5);
+    TestSplitTask.running--;
+    return { parts: this.runInputData.input.split(" ") };
+  }
+}
+TaskRegistry.registerTask(TestSplitTask);
+
+class TestUpperTask extends SingleTask {
+  static readonly type = "TestUpperTask";
+  static inputs = [
+    {
+      id: "parts",
+      name: "Parts",
+      valueType: "text",
+      isArray: true,
+      defaultValue: [],
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "parts",
+      name: "Parts",
+      valueType: "text",
+      isArray: true,
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    return { parts: this.runInputData.parts.map((part: string) => part.toUpperCase()) };
+  }
+}
+TaskRegistry.registerTask(TestUpperTask);
+
+class TestCountReducerTask extends SingleTask {
+  static readonly type = "TestCountReducerTask";
+  static inputs = [
+    {
+      id: "items",
+      name: "Items",
+      valueType: "any",
+      isArray: true,
+      defaultValue: [],
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "count",
+      name: "Count",
+      valueType: "number",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    return {
+      count: this.runInputData.items.reduce(
+        (sum: number, item: TaskOutput) => sum + item.parts.length,
+        0
+      ),
+    };
+  }
+}
+TaskRegistry.registerTask(TestCountReducerTask);
+
+describe("MapTask", () => {
+  const createMap = (input: Record<string, any>) => {
+    const map = new MapTask({ input });
+    const subGraph = new TaskGraph();
+    subGraph.addTasks([new TestSplitTask({ id: "split" }), new TestUpperTask({ id: "upper" })]);
+    subGraph.addDataFlow(new DataFlow("split", "parts", "upper", "parts"));
+    map.subGraph = subGraph;
+    return map;
+  };
+
+  beforeEach(() => {
+    TestSplitTask.running = 0;
+    TestSplitTask.maxRunning = 0;
+    TestSplitTask.started = 0;
+  });
+
+  it("should run the subgraph per item and concat the outputs", async () => {
+    const map = createMap({ items: ["a b", "c"] });
+
+    const output = await map.run();
+
+    expect(output.output).toEqual({ parts: [["A", "B"], ["C"]] });
+  });
+
+  it("should flatten the outputs", async () => {
+    const map = createMap({ items: ["a b", "c"], reducer: "flatten" });
+
+    const output = await map.run();
+
+    expect(output.output).toEqual({ parts: ["A", "B", "C"] });
+  });
+
+  it("should merge the outputs", async () => {
+    const map = createMap({ items: ["a b", "c"], reducer: "object-merge" });
+
+    const output = await map.run();
+
+    expect(output.output).toEqual({ parts: ["C"] });
+  });
+
+  it("should use a registered reducer task", async () => {
+    const map = createMap({ items: ["a b", "c"], reducer: "TestCountReducerTask" });
+
+    const output = await map.run();
+
+    expect(output.output).toEqual({ count: 3 });
+  });
+
+  it("should bound the concurrency", async () => {
+    const map = createMap({ items: ["a", "b", "c", "d", "e"], concurrency: 2 });
+
+    await map.run();
+
+    expect(TestSplitTask.maxRunning).toEqual(2);
+  });
+
+  it("should abort the items in progress when one fails", async () => {
+    const map = createMap({ items: ["a", "fail", "b", "c"], concurrency: 2 });
+
+    await expect(map.run()).rejects.toThrow("Item failed");
+
+    expect(TestSplitTask.running).toEqual(0);
+    expect(TestSplitTask.started).toEqual(2);
+  });
+
+  it("should work from JSON", async () => {
+    const json = JSON.stringify([
+      {
+        id: "map",
+        type: "MapTask",
+        input: { items: ["x y", "z"], reducer: "flatten" },
+        subtasks: [
+          { id: "split", type: "TestSplitTask" },
+          {
+            id: "upper",
+            type: "TestUpperTask",
+            dependencies: { parts: { id: "split", output: "parts" } },
+          },
+        ],
+      },
+    ]);
+    const task = new JsonTask({ input: { json } });
+
+    await task.run();
+
+    expect(task.subGraph.getTask("map")?.runOutputData).toEqual({
+      output: { parts: ["X", "Y", "Z"] },
+    });
+  });
+});
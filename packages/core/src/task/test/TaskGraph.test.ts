@@ -6,8 +6,11 @@
 //    *******************************************************************************
 
 import { describe, expect, it, beforeEach } from "bun:test";
-import { SingleTask, Task, TaskOutput } from "../base/Task";
+import { CompoundTask, SingleTask, Task, TaskOutput } from "../base/Task";
 import { TaskGraph, DataFlow, serialGraph } from "../base/TaskGraph";
+import { TaskRegistry } from "../base/TaskRegistry";
+import { LoopTask } from "../LoopTask";
+import { ConditionalTask } from "../ConditionalTask";
 
 class TestTask extends SingleTask {
   static readonly type = "TestTask";
@@ -16,6 +19,56 @@ class TestTask extends SingleTask {
   }
 }
 
+class TestNumberTask extends SingleTask {
+  static readonly type = "TestNumberTask";
+  static inputs = [
+    {
+      id: "required",
+      name: "Required",
+      valueType: "number",
+    },
+    {
+      id: "optional",
+      name: "Optional",
+      valueType: "number",
+      defaultValue: 0,
+    },
+    {
+      id: "many",
+      name: "Many",
+      valueType: "number",
+      isArray: true,
+      defaultValue: [],
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "number",
+      name: "Number",
+      valueType: "number",
+    },
+    {
+      id: "flag",
+      name: "Flag",
+      valueType: "boolean",
+    },
+  ] as const;
+}
+TaskRegistry.registerTask(TestNumberTask);
+
+class TestOddTypeTask extends SingleTask {
+  static readonly type = "TestOddTypeTask";
+  static inputs = [
+    {
+      id: "odd",
+      name: "Odd",
+      valueType: "not_a_value_type",
+      defaultValue: 1,
+    },
+  ] as const;
+}
+TaskRegistry.registerTask(TestOddTypeTask);
+
 describe("TaskGraph", () => {
   let graph = new TaskGraph();
   let tasks: Task[];
@@ -64,4 +117,127 @@ describe("TaskGraph", () => {
     expect(result).toBeInstanceOf(TaskGraph);
     expect(result.getDataFlows()).toEqual(expectedDataFlows);
   });
+
+  describe("validate", () => {
+    const number = (id: string, input: Record<string, unknown> = { required: 1 }) =>
+      new TestNumberTask({ id, input });
+
+    it("should find no problems in a valid graph", () => {
+      graph.addTasks([number("a"), number("b"), number("c", {})]);
+      graph.addDataFlow(new DataFlow("a", "number", "c", "required"));
+      graph.addDataFlow(new DataFlow("a", "number", "c", "many"));
+      graph.addDataFlow(new DataFlow("b", "number", "c", "many"));
+
+      expect(graph.validate()).toEqual([]);
+    });
+
+    it("should not require the optional inputs of a ConditionalTask", () => {
+      graph.addTasks([
+        number("a"),
+        new ConditionalTask({ id: "if", input: { operator: "greater_than", compareTo: 5 } }),
+      ]);
+      graph.addDataFlow(new DataFlow("a", "number", "if", "value"));
+
+      expect(graph.validate()).toEqual([]);
+    });
+
+    it("should report missing required inputs", () => {
+      graph.addTasks([number("a", {})]);
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({
+          code: "missing-input",
+          severity: "error",
+          taskId: "a",
+          portId: "required",
+        }),
+      ]);
+    });
+
+    it("should report dangling edges", () => {
+      graph.addTasks([number("a"), number("b")]);
+      graph.addDataFlow(new DataFlow("a", "missing", "b", "optional"));
+      graph.addDataFlow(new DataFlow("a", "number", "b", "missing"));
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({ code: "dangling-edge", taskId: "a", portId: "missing" }),
+        expect.objectContaining({ code: "dangling-edge", taskId: "b", portId: "missing" }),
+      ]);
+    });
+
+    it("should report incompatible value types", () => {
+      graph.addTasks([number("a"), number("b")]);
+      graph.addDataFlow(new DataFlow("a", "flag", "b", "optional"));
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({
+          code: "type-mismatch",
+          severity: "error",
+          taskId: "b",
+          portId: "optional",
+          dataFlowId: "a.flag -> b.optional",
+        }),
+      ]);
+    });
+
+    it("should warn about several data flows into an input that is not an array", () => {
+      graph.addTasks([number("a"), number("b"), number("c")]);
+      graph.addDataFlow(new DataFlow("a", "number", "c", "optional"));
+      graph.addDataFlow(new DataFlow("b", "number", "c", "optional"));
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({
+          code: "duplicate-edge",
+          severity: "warning",
+          taskId: "c",
+          portId: "optional",
+        }),
+      ]);
+    });
+
+    it("should report unregistered task types and unknown value types", () => {
+      graph.addTasks([new TestTask({ id: "task1" }), new TestOddTypeTask({ id: "odd" })]);
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({
+          code: "unregistered-task-type",
+          severity: "warning",
+          taskId: "task1",
+        }),
+        expect.objectContaining({
+          code: "unknown-value-type",
+          severity: "error",
+          taskId: "odd",
+          portId: "odd",
+        }),
+      ]);
+    });
+
+    it("should validate the subgraphs of compound tasks", () => {
+      const compound = new CompoundTask({ id: "compound" });
+      compound.subGraph.addTasks([number("inner", {})]);
+      graph.addTask(compound);
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({ code: "unregistered-task-type", taskId: "compound" }),
+        expect.objectContaining({
+          code: "missing-input",
+          taskId: "inner",
+          portId: "required",
+          path: ["compound"],
+        }),
+      ]);
+    });
+
+    it("should not require the root inputs of a loop subgraph", () => {
+      const loop = new LoopTask({ id: "loop" });
+      loop.subGraph.addTasks([number("first", {}), number("second", {})]);
+      loop.subGraph.addDataFlow(new DataFlow("first", "number", "second", "optional"));
+      graph.addTask(loop);
+
+      expect(graph.validate()).toEqual([
+        expect.objectContaining({ code: "missing-input", taskId: "second", path: ["loop"] }),
+      ]);
+    });
+  });
 });
@@ -7,8 +7,69 @@
 
 import { describe, expect, it, beforeEach, spyOn } from "bun:test";
 import { TaskGraphRunner } from "../base/TaskGraphRunner";
-import { Task, SingleTask, TaskOutput } from "../base/Task";
+import { Task, SingleTask, CompoundTask, TaskOutput, TaskStatus } from "../base/Task";
 import { DataFlow, TaskGraph } from "../base/TaskGraph";
+import { JobQueueTask } from "../base/JobQueueTask";
+import { LoopTask } from "../LoopTask";
+import { MapTask } from "../MapTask";
+import {
+  TaskQueueRegistry,
+  setTaskQueueRegistry,
+  getTaskQueueRegistry,
+} from "../TaskQueueRegistry";
+import { Job } from "../../job/base/Job";
+import { sleep } from "../../util/Misc";
+
+class TestDelayTask extends SingleTask {
+  static readonly type = "TestDelayTask";
+  static inputs = [
+    {
+      id: "input",
+      name: "Input",
+      valueType: "number",
+      defaultValue: 0,
+    },
+    {
+      id: "delay",
+      name: "Delay",
+      valueType: "number",
+      defaultValue: 0,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  static running = 0;
+  static maxRunning = 0;
+  static completed: unknown[] = [];
+  async runReactive(): Promise<TaskOutput> {
+    TestDelayTask.running++;
+    TestDelayTask.maxRunning = Math.max(TestDelayTask.maxRunning, TestDelayTask.running);
+    await sleep(this.runInputData.delay);
+    TestDelayTask.running--;
+    TestDelayTask.completed.push(this.config.id);
+    return { output: this.runInputData.input + 1 };
+  }
+}
+
+class TestFailTask extends SingleTask {
+  static readonly type = "TestFailTask";
+  static inputs = [] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    throw new Error("Task failed");
+  }
+}
 
 class TestTask extends SingleTask {
   static readonly type = "TestTask";
@@ -116,6 +177,78 @@ class TestAddTask extends SingleTask {
   }
 }
 
+/**
+ * Runs until it is aborted
+ */
+class TestAbortableTask extends SingleTask {
+  static readonly type = "TestAbortableTask";
+  static inputs = [] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  private controller = new AbortController();
+  async runReactive(): Promise<TaskOutput> {
+    this.controller = new AbortController();
+    const signal = this.controller.signal;
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, 5000);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new Error("Task aborted"));
+      });
+    });
+    return { output: 1 };
+  }
+  async abort(): Promise<void> {
+    this.controller.abort();
+    await super.abort();
+  }
+}
+
+/**
+ * Stands in for a job queue whose jobs run until they are aborted
+ */
+class TestAbortQueue {
+  readonly queue = "abort-queue";
+  readonly jobClass = Job;
+  aborted: unknown[] = [];
+  /** Hands out the last job again, as if the new one had the same input */
+  dedupe = false;
+  private lastJobId = 0;
+  private waiting = new Map<unknown, Array<(err: Error) => void>>();
+
+  async addJob() {
+    if (this.dedupe && this.lastJobId) return { id: this.lastJobId, deduped: true };
+    return { id: ++this.lastJobId, deduped: false };
+  }
+
+  waitFor(jobId: unknown) {
+    return new Promise((_resolve, reject) => {
+      this.waiting.set(jobId, [...(this.waiting.get(jobId) ?? []), reject]);
+    });
+  }
+
+  onJobProgress() {
+    return () => {};
+  }
+
+  async abort(jobId: unknown) {
+    this.aborted.push(jobId);
+    this.waiting.get(jobId)?.forEach((reject) => reject(new Error("Job aborted")));
+    this.waiting.delete(jobId);
+  }
+}
+
+class TestQueueTask extends JobQueueTask {
+  static readonly type = "TestQueueTask";
+  static inputs = [] as const;
+  static outputs = [] as const;
+}
+
 describe("TaskGraphRunner", () => {
   let runner: TaskGraphRunner;
   let graph: TaskGraph;
@@ -172,7 +305,7 @@ describe("TaskGraphRunner", () => {
     it("should run the graph in the correct order", async () => {
       const assignLayersSpy = spyOn(runner, "assignLayers");
 
-      const results = await runner.runGraph();
+      const { outputs: results } = await runner.runGraph();
 
       expect(assignLayersSpy).toHaveBeenCalled();
       expect(results[1].output).toEqual(25);
@@ -190,11 +323,314 @@ describe("TaskGraphRunner", () => {
       const nodeRunSpy = spyOn(task, "run");
       const assignLayersSpy = spyOn(runner, "assignLayers");
 
-      const results = await runner.runGraph();
+      const { outputs: results } = await runner.runGraph();
 
       expect(assignLayersSpy).toHaveBeenCalled();
       expect(nodeRunSpy).toHaveBeenCalledTimes(1);
       expect(results[0].output).toEqual(35);
     });
   });
+
+  describe("runGraph streaming", () => {
+    beforeEach(() => {
+      TestDelayTask.running = 0;
+      TestDelayTask.maxRunning = 0;
+      TestDelayTask.completed = [];
+    });
+
+    it("should start a task as soon as its own dependencies complete", async () => {
+      const streamGraph = new TaskGraph();
+      streamGraph.addTasks([
+        new TestDelayTask({ id: "slow", input: { input: 1, delay: 50 } }),
+        new TestDelayTask({ id: "fast", input: { input: 1, delay: 1 } }),
+        new TestDelayTask({ id: "afterFast", input: { delay: 1 } }),
+      ]);
+      streamGraph.addDataFlow(new DataFlow("fast", "output", "afterFast", "input"));
+      const streamRunner = new TaskGraphRunner(streamGraph, undefined, { mode: "streaming" });
+
+      const { outputs: results } = await streamRunner.runGraph();
+
+      expect(TestDelayTask.completed).toEqual(["fast", "afterFast", "slow"]);
+      expect(results).toEqual([{ output: 3 }]);
+    });
+
+    it("should respect maxParallelism", async () => {
+      const streamGraph = new TaskGraph();
+      streamGraph.addTasks(
+        [1, 2, 3, 4, 5].map((i) => new TestDelayTask({ id: `t${i}`, input: { delay: 5 } }))
+      );
+      const streamRunner = new TaskGraphRunner(streamGraph, undefined, {
+        mode: "streaming",
+        maxParallelism: 2,
+      });
+
+      const { outputs: results } = await streamRunner.runGraph();
+
+      expect(TestDelayTask.maxRunning).toEqual(2);
+      expect(results.length).toEqual(5);
+    });
+
+    it("should give the same results as the layered mode", async () => {
+      const task = new TestAddTask({ id: "task4" });
+      graph.addTask(task);
+      graph.addDataFlow(new DataFlow("task2", "output", "task4", "a"));
+      graph.addDataFlow(new DataFlow("task3", "output", "task4", "b"));
+      const streamRunner = new TaskGraphRunner(graph, undefined, { mode: "streaming" });
+
+      const { outputs: results } = await streamRunner.runGraph();
+
+      expect(results[0].output).toEqual(35);
+    });
+  });
+
+  describe("runGraph failure policies", () => {
+    let failGraph: TaskGraph;
+
+    beforeEach(() => {
+      failGraph = new TaskGraph();
+      failGraph.addTasks([
+        new TestFailTask({ id: "fail" }),
+        new TestSquareTask({ id: "square", input: { input: 3 } }),
+        new TestDoubleTask({ id: "afterFail" }),
+        new TestDoubleTask({ id: "afterSquare" }),
+        new TestDoubleTask({ id: "afterAfterFail" }),
+      ]);
+      failGraph.addDataFlows([
+        new DataFlow("fail", "output", "afterFail", "input"),
+        new DataFlow("square", "output", "afterSquare", "input"),
+        new DataFlow("afterFail", "output", "afterAfterFail", "input"),
+      ]);
+    });
+
+    const statusById = (tasks: { id: unknown; status: TaskStatus }[]) =>
+      Object.fromEntries(tasks.map((task) => [task.id, task.status]));
+
+    it("should throw with fail-fast", async () => {
+      const failRunner = new TaskGraphRunner(failGraph);
+      await expect(failRunner.runGraph()).rejects.toThrow("Task graph aborted");
+    });
+
+    it("should run every task with continue", async () => {
+      const failRunner = new TaskGraphRunner(failGraph, undefined, { failurePolicy: "continue" });
+
+      const result = await failRunner.runGraph();
+
+      expect(result.status).toEqual(TaskStatus.FAILED);
+      expect(statusById(result.tasks)).toEqual({
+        fail: TaskStatus.FAILED,
+        square: TaskStatus.COMPLETED,
+        afterFail: TaskStatus.COMPLETED,
+        afterSquare: TaskStatus.COMPLETED,
+        afterAfterFail: TaskStatus.COMPLETED,
+      });
+      expect(result.tasks.find((task) => task.id === "fail")?.error).toEqual("Task failed");
+    });
+
+    it("should not hand a dependent the output of an earlier run", async () => {
+      const failRunner = new TaskGraphRunner(failGraph, undefined, { failurePolicy: "continue" });
+      await failRunner.runGraph();
+      const square = failGraph.getTask("square")!;
+      square.runReactive = async () => {
+        throw new Error("Task failed");
+      };
+
+      const result = await failRunner.runGraph();
+
+      expect(result.tasks.find((task) => task.id === "square")?.status).toEqual(TaskStatus.FAILED);
+      expect(result.tasks.find((task) => task.id === "afterSquare")?.output).toEqual({
+        output: 0,
+      });
+    });
+
+    for (const mode of ["layered", "streaming"] as const) {
+      it(`should skip only downstream tasks with skip-dependents (${mode})`, async () => {
+        const failRunner = new TaskGraphRunner(failGraph, undefined, {
+          mode,
+          failurePolicy: "skip-dependents",
+        });
+
+        const result = await failRunner.runGraph();
+
+        expect(statusById(result.tasks)).toEqual({
+          fail: TaskStatus.FAILED,
+          square: TaskStatus.COMPLETED,
+          afterFail: TaskStatus.SKIPPED,
+          afterSquare: TaskStatus.COMPLETED,
+          afterAfterFail: TaskStatus.SKIPPED,
+        });
+        expect(result.tasks.find((task) => task.id === "afterSquare")?.output).toEqual({
+          output: 18,
+        });
+      });
+    }
+
+    it("should let a task override the run policy", async () => {
+      failGraph.getTask("fail")!.config.failurePolicy = "fail-fast";
+      const failRunner = new TaskGraphRunner(failGraph, undefined, {
+        failurePolicy: "skip-dependents",
+      });
+      await expect(failRunner.runGraph()).rejects.toThrow("Task graph aborted");
+    });
+  });
+
+  describe("abort", () => {
+    let queue: TestAbortQueue;
+
+    beforeEach(() => {
+      queue = new TestAbortQueue();
+      setTaskQueueRegistry(new TaskQueueRegistry());
+      getTaskQueueRegistry().registerQueue(queue as any);
+      spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    for (const mode of ["layered", "streaming"] as const) {
+      it(`should abort running tasks and not start new ones (${mode})`, async () => {
+        const abortGraph = new TaskGraph();
+        abortGraph.addTasks([
+          new TestAbortableTask({ id: "slow" }),
+          new TestDoubleTask({ id: "after" }),
+        ]);
+        abortGraph.addDataFlow(new DataFlow("slow", "output", "after", "input"));
+        const abortRunner = new TaskGraphRunner(abortGraph, undefined, { mode });
+
+        const run = abortRunner.runGraph();
+        await sleep(10);
+        await abortRunner.abort("Stop");
+
+        expect(abortGraph.getTask("slow")!.status).toEqual(TaskStatus.FAILED);
+        expect(abortGraph.getTask("after")!.status).toEqual(TaskStatus.FAILED);
+        expect(abortGraph.getTask("after")!.error).toEqual("Stop");
+        await expect(run).rejects.toThrow("Task graph aborted: Stop");
+      });
+    }
+
+    it("should abort when the signal fires", async () => {
+      const abortGraph = new TaskGraph();
+      abortGraph.addTask(new TestAbortableTask({ id: "slow" }));
+      const controller = new AbortController();
+      const abortRunner = new TaskGraphRunner(abortGraph, undefined, {
+        signal: controller.signal,
+      });
+
+      const run = abortRunner.runGraph();
+      await sleep(10);
+      controller.abort("Cancelled");
+
+      await expect(run).rejects.toThrow("Task graph aborted: Cancelled");
+      expect(abortGraph.getTask("slow")!.status).toEqual(TaskStatus.FAILED);
+    });
+
+    it("should not start a run whose signal already fired", async () => {
+      const controller = new AbortController();
+      controller.abort("Cancelled");
+      const abortRunner = new TaskGraphRunner(graph, undefined, { signal: controller.signal });
+
+      await expect(abortRunner.runGraph()).rejects.toThrow("Task graph aborted: Cancelled");
+      expect(nodes.map((node) => node.status)).toEqual([
+        TaskStatus.FAILED,
+        TaskStatus.FAILED,
+        TaskStatus.FAILED,
+      ]);
+    });
+
+    it("should abort the jobs of job queue tasks through their queue", async () => {
+      const abortGraph = new TaskGraph();
+      abortGraph.addTasks([
+        new TestQueueTask({ id: "job1", queue: queue.queue }),
+        new TestQueueTask({ id: "job2", queue: queue.queue }),
+      ]);
+      const abortRunner = new TaskGraphRunner(abortGraph);
+
+      const run = abortRunner.runGraph();
+      await sleep(10);
+      await abortRunner.abort();
+
+      expect(queue.aborted.sort()).toEqual([1, 2]);
+      expect(abortGraph.getTask("job1")!.status).toEqual(TaskStatus.FAILED);
+      expect(abortGraph.getTask("job2")!.status).toEqual(TaskStatus.FAILED);
+      await expect(run).rejects.toThrow("Task graph aborted");
+    });
+
+    it("should not abort a job shared with another run", async () => {
+      const firstGraph = new TaskGraph();
+      firstGraph.addTask(new TestQueueTask({ id: "job", queue: queue.queue }));
+      const firstRunner = new TaskGraphRunner(firstGraph);
+      const secondGraph = new TaskGraph();
+      secondGraph.addTask(new TestQueueTask({ id: "job", queue: queue.queue }));
+      const secondRunner = new TaskGraphRunner(secondGraph);
+
+      const firstRun = firstRunner.runGraph();
+      await sleep(10);
+      queue.dedupe = true;
+      const secondRun = secondRunner.runGraph();
+      await sleep(10);
+      await secondRunner.abort();
+
+      expect(queue.aborted).toEqual([]);
+      expect(secondGraph.getTask("job")!.status).toEqual(TaskStatus.FAILED);
+      expect(firstGraph.getTask("job")!.status).toEqual(TaskStatus.PROCESSING);
+      await expect(secondRun).rejects.toThrow("Task graph aborted");
+
+      await firstRunner.abort();
+      expect(queue.aborted).toEqual([1]);
+      await expect(firstRun).rejects.toThrow("Task graph aborted");
+    });
+
+    it("should abort the subgraphs of compound tasks", async () => {
+      const compound = new CompoundTask({ id: "compound" });
+      compound.subGraph.addTasks([
+        new TestAbortableTask({ id: "inner" }),
+        new TestQueueTask({ id: "innerJob", queue: queue.queue }),
+      ]);
+      const abortGraph = new TaskGraph();
+      abortGraph.addTask(compound);
+      const abortRunner = new TaskGraphRunner(abortGraph);
+
+      const run = abortRunner.runGraph();
+      await sleep(10);
+      await abortRunner.abort();
+
+      expect(queue.aborted).toEqual([1]);
+      expect(compound.subGraph.getTask("inner")!.status).toEqual(TaskStatus.FAILED);
+      expect(compound.subGraph.getTask("innerJob")!.status).toEqual(TaskStatus.FAILED);
+      expect(compound.status).toEqual(TaskStatus.FAILED);
+      await expect(run).rejects.toThrow("Task graph aborted");
+    });
+
+    it("should abort the running iteration of a loop task", async () => {
+      const loop = new LoopTask({ id: "loop", input: { maxIterations: 3 } });
+      loop.subGraph.addTask(new TestQueueTask({ id: "innerJob", queue: queue.queue }));
+      const abortGraph = new TaskGraph();
+      abortGraph.addTask(loop);
+      const abortRunner = new TaskGraphRunner(abortGraph);
+
+      const run = abortRunner.runGraph();
+      await sleep(10);
+      await abortRunner.abort();
+
+      expect(queue.aborted).toEqual([1]);
+      expect(loop.status).toEqual(TaskStatus.FAILED);
+      await expect(run).rejects.toThrow("Task graph aborted");
+      await sleep(10);
+      expect((await queue.addJob()).id).toEqual(2); // no other iteration added a job
+    });
+
+    it("should abort every running item of a map task", async () => {
+      const map = new MapTask({ id: "map", input: { items: [1, 2, 3, 4], concurrency: 2 } });
+      map.subGraph.addTask(new TestQueueTask({ id: "innerJob", queue: queue.queue }));
+      const abortGraph = new TaskGraph();
+      abortGraph.addTask(map);
+      const abortRunner = new TaskGraphRunner(abortGraph);
+
+      const run = abortRunner.runGraph();
+      await sleep(10);
+      await abortRunner.abort();
+
+      expect(queue.aborted.sort()).toEqual([1, 2]);
+      expect(map.status).toEqual(TaskStatus.FAILED);
+      await expect(run).rejects.toThrow("Task graph aborted");
+      await sleep(10);
+      expect((await queue.addJob()).id).toEqual(3); // no other item added a job
+    });
+  });
 });
@@ -0,0 +1,114 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { TaskRegistry } from "../base/TaskRegistry";
+import { SingleTask } from "../base/Task";
+import "../DebugLogTask";
+
+class TestSchemaTask extends SingleTask {
+  static readonly type = "TestSchemaTask";
+  static inputs = [
+    {
+      id: "text",
+      name: "Text",
+      valueType: "text",
+    },
+    {
+      id: "numbers",
+      name: "Numbers",
+      valueType: "number",
+      isArray: true,
+      defaultValue: [1, 2],
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "numbers",
+      name: "Numbers",
+      valueType: "number",
+      isArray: true,
+    },
+  ] as const;
+}
+TaskRegistry.registerTask(TestSchemaTask);
+
+describe("TaskSchema", () => {
+  it("should describe the inputs of a task", () => {
+    const schema = TaskRegistry.inputSchema("TestSchemaTask");
+
+    expect(schema).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: "TestSchemaTask input",
+      type: "object",
+      properties: {
+        text: { title: "Text", type: "string" },
+        numbers: {
+          title: "Numbers",
+          anyOf: [{ type: "number" }, { type: "array", items: { type: "number" } }],
+          default: [1, 2],
+        },
+      },
+      required: ["text"],
+    });
+  });
+
+  it("should describe the outputs of a task", () => {
+    const schema = TaskRegistry.outputSchema("TestSchemaTask");
+
+    expect(schema.properties).toEqual({
+      numbers: { title: "Numbers", type: "array", items: { type: "number" } },
+    });
+    expect(schema.required).toBeUndefined();
+  });
+
+  it("should include enumerations of value types", () => {
+    const schema = TaskRegistry.inputSchema("DebugLogTask");
+
+    expect(schema.properties?.level).toEqual({
+      title: "Level",
+      type: "string",
+      enum: ["dir", "log", "debug", "info", "warn", "error"],
+      default: "info",
+    });
+    expect(schema.properties?.message).toEqual({ title: "Input" });
+  });
+
+  it("should throw for unknown task types", () => {
+    expect(() => TaskRegistry.inputSchema("NotATask")).toThrow("Task type NotATask not found");
+  });
+
+  it("should describe the JsonTaskItem[] format", () => {
+    const schema = TaskRegistry.jsonTaskSchema();
+    const item = schema.$defs!.JsonTaskItem;
+
+    expect(schema.type).toEqual("array");
+    expect(item.required).toEqual(["id", "type"]);
+    expect(item.properties!.type.enum).toContain("TestSchemaTask");
+    expect(item.allOf).toContainEqual({
+      if: { properties: { type: { const: "TestSchemaTask" } }, required: ["type"] },
+      then: {
+        properties: {
+          input: { $ref: "#/$defs/TestSchemaTaskInput" },
+          dependencies: { propertyNames: { enum: ["text", "numbers"] } },
+        },
+      },
+    });
+    expect(schema.$defs!.TestSchemaTaskInput.required).toBeUndefined();
+  });
+
+  it("should describe the TaskGraphJson format", () => {
+    const schema = TaskRegistry.graphJsonSchema();
+
+    expect(schema.$ref).toEqual("#/$defs/TaskGraphJson");
+    expect(schema.$defs!.TaskGraphJson.required).toEqual(["nodes", "edges"]);
+    expect(schema.$defs!.TaskGraphItemJson.properties!.subgraph).toEqual({
+      $ref: "#/$defs/TaskGraphJson",
+    });
+    expect(schema.$defs!.DataFlowJson.required).toHaveLength(4);
+  });
+});
@@ -134,7 +134,7 @@ describe("TaskGraphRunner", () => {
     it("should be able to have multiple inputs for array input type", async () => {
       const nodeRunSpy = spyOn(nodes[0], "run");
 
-      const results = await runner.runGraph();
+      const { outputs: results } = await runner.runGraph();
 
       expect(nodeRunSpy).toHaveBeenCalledTimes(1);
       expect(results[0]).toEqual({ output: [36, 49] });
@@ -151,7 +151,7 @@ describe("TaskGraphRunner", () => {
 
       await runner.runGraph();
       await runner.runGraph();
-      const results = await runner.runGraph();
+      const { outputs: results } = await runner.runGraph();
 
       expect(assignLayersSpy).toHaveBeenCalled();
       expect(nodeRunSpy).toHaveBeenCalledTimes(3);
@@ -0,0 +1,134 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { ValueTypeRegistry } from "../base/ValueTypeRegistry";
+import { SingleTask, TaskOutput } from "../base/Task";
+import { JsonTask } from "../JsonTask";
+import { TaskRegistry } from "../base/TaskRegistry";
+
+class TestPoint {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+}
+
+ValueTypeRegistry.registerValueType<TestPoint>({
+  name: "test_point",
+  tsType: "TestPoint",
+  validate: (value) => value instanceof TestPoint,
+  serialize: (value) => (value instanceof TestPoint ? [value.x, value.y] : undefined),
+  deserialize: (json) =>
+    Array.isArray(json) ? new TestPoint(...(json as [number, number])) : undefined,
+  coercions: {
+    number: (value: number) => new TestPoint(value, value),
+  },
+});
+
+ValueTypeRegistry.registerValueType<TestPoint>({
+  name: "test_checked_point",
+  tsType: "TestPoint",
+  validate: async (value) => value instanceof TestPoint,
+  serialize: (value) => (value instanceof TestPoint ? [value.x, value.y] : undefined),
+});
+
+ValueTypeRegistry.registerValueType<string>({
+  name: "test_name",
+  tsType: "string",
+  parent: "text",
+  validate: (value) => typeof value === "string" && value.length > 0,
+});
+
+class TestPointTask extends SingleTask {
+  static readonly type = "TestPointTask";
+  static inputs = [
+    {
+      id: "point",
+      name: "Point",
+      valueType: "test_point",
+      defaultValue: new TestPoint(0, 0),
+    },
+    {
+      id: "count",
+      name: "Count",
+      valueType: "number",
+      defaultValue: 1,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  async runReactive(): Promise<TaskOutput> {
+    const { point, count } = this.runInputData;
+    return { output: (point.x + point.y) * count };
+  }
+}
+TaskRegistry.registerTask(TestPointTask);
+
+describe("ValueTypeRegistry", () => {
+  it("should validate the built-in value types", async () => {
+    expect(await ValueTypeRegistry.validate("number", 1)).toBe(true);
+    expect(await ValueTypeRegistry.validate("number", "1")).toBe(false);
+    expect(await ValueTypeRegistry.validate("text", "a")).toBe(true);
+    expect(await ValueTypeRegistry.validate("boolean", false)).toBe(true);
+    expect(await ValueTypeRegistry.validate("any", undefined)).toBe(true);
+    expect(await ValueTypeRegistry.validate("not_a_type", 1)).toBe(false);
+  });
+
+  it("should know the compatibility between value types", () => {
+    expect(ValueTypeRegistry.isCompatible("test_name", "text")).toBe(true);
+    expect(ValueTypeRegistry.isCompatible("text", "test_name")).toBe(false);
+    expect(ValueTypeRegistry.isCompatible("number", "test_point")).toBe(true);
+    expect(ValueTypeRegistry.isCompatible("test_point", "number")).toBe(false);
+    expect(ValueTypeRegistry.isCompatible("test_point", "any")).toBe(true);
+  });
+
+  it("should coerce values", async () => {
+    expect(await ValueTypeRegistry.coerce("number", "42")).toEqual({ value: 42 });
+    expect(await ValueTypeRegistry.coerce("number", "forty two")).toBeUndefined();
+    expect(await ValueTypeRegistry.coerce("boolean", "true")).toEqual({ value: true });
+    expect(await ValueTypeRegistry.coerce("test_point", 2)).toEqual({
+      value: new TestPoint(2, 2),
+    });
+  });
+
+  it("should coerce task inputs while validating", async () => {
+    const task = new TestPointTask({ input: { point: 3 as any, count: "2" as any } });
+
+    const output = await task.run();
+
+    expect(task.runInputData.point).toEqual(new TestPoint(3, 3));
+    expect(output).toEqual({ output: 12 });
+  });
+
+  it("should reject task inputs that can not be coerced", async () => {
+    const task = new TestPointTask({ input: { count: "two" as any } });
+
+    expect(task.run()).rejects.toThrow("Invalid input data");
+  });
+
+  it("should serialize the values of types with an async validator", () => {
+    expect(ValueTypeRegistry.serialize("test_checked_point", new TestPoint(1, 2))).toEqual([1, 2]);
+    expect(ValueTypeRegistry.serialize("test_checked_point", "origin")).toEqual("origin");
+  });
+
+  it("should serialize task inputs to JSON and back", async () => {
+    const task = new TestPointTask({ id: "point", input: { point: new TestPoint(1, 2) } });
+
+    const json = task.toJSON();
+    expect(json.input?.point).toEqual([1, 2]);
+
+    const jsonTask = new JsonTask({ input: { json: JSON.stringify([json]) } });
+    await jsonTask.run();
+    expect(jsonTask.subGraph.getTask("point")?.runOutputData).toEqual({ output: 3 });
+  });
+});
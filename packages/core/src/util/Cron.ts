@@ -0,0 +1,211 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+/**
+ * A parsed five field cron expression: minute hour day-of-month month day-of-week
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not "*"), see dayMatches */
+  daysOfMonthRestricted: boolean;
+  /** Whether day-of-week was restricted (not "*"), see dayMatches */
+  daysOfWeekRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function parseCronValue(value: string, names: string[] | undefined, offset: number): number {
+  const index = names?.indexOf(value.toUpperCase()) ?? -1;
+  if (index >= 0) return index + offset;
+  if (!/^\d+$/.test(value)) return NaN;
+  return Number(value);
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseCronValue(from, names, nameOffset);
+      end = parseCronValue(to, names, nameOffset);
+    } else {
+      start = parseCronValue(range, names, nameOffset);
+      end = stepText === undefined ? start : max;
+    }
+    if (
+      !Number.isInteger(step) ||
+      step < 1 ||
+      Number.isNaN(start) ||
+      Number.isNaN(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`"${part}" is not valid, expected values between ${min} and ${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression with five fields (minute hour day-of-month month day-of-week).
+ * Supports "*", lists, ranges, steps, month and day names (JAN, MON) and the macros
+ * @yearly, @monthly, @weekly, @daily and @hourly. Day-of-week 7 is Sunday like 0.
+ * @throws Error if the expression is not valid
+ */
+export function parseCron(expression: string): CronExpression {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  try {
+    const daysOfWeek = parseCronField(dayOfWeek, 0, 7, DAY_NAMES);
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+    return {
+      minutes: parseCronField(minute, 0, 59),
+      hours: parseCronField(hour, 0, 23),
+      daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+      months: parseCronField(month, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      daysOfMonthRestricted: !dayOfMonth.startsWith("*"),
+      daysOfWeekRestricted: !dayOfWeek.startsWith("*"),
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+  }
+}
+
+interface WallClock {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the calendar fields of a date as seen on a wall clock in the given time zone
+ */
+function wallClock(date: Date, timeZone: string): WallClock {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  const parts: Record<string, string> = {};
+  for (const { type, value } of format.formatToParts(date)) parts[type] = value;
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+/**
+ * Like classic cron, when both day-of-month and day-of-week are restricted a day matching
+ * either one is enough
+ */
+function dayMatches(cron: CronExpression, clock: WallClock): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(clock.day);
+  const dayOfWeek = cron.daysOfWeek.has(clock.weekday);
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  if (cron.daysOfMonthRestricted) return dayOfMonth;
+  if (cron.daysOfWeekRestricted) return dayOfWeek;
+  return true;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Returns the first time strictly after `after` that matches the cron expression
+ * @param cron - Cron expression or a parsed one
+ * @param after - Start searching after this date
+ * @param timeZone - IANA time zone the expression is read in (default "UTC")
+ * @throws Error if nothing matches within the next five years (like "0 0 30 2 *")
+ */
+export function nextCronDate(
+  cron: string | CronExpression,
+  after: Date,
+  timeZone: string = "UTC"
+): Date {
+  const expression = typeof cron === "string" ? parseCron(cron) : cron;
+  let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * MINUTE;
+  while (time <= limit) {
+    const clock = wallClock(new Date(time), timeZone);
+    if (!expression.months.has(clock.month) || !dayMatches(expression, clock)) {
+      // skip to the next local midnight, the last hours one at a time as a day is 23 or 25
+      // hours long when daylight saving time starts or ends
+      const day = clock.day;
+      time += Math.max(23 * 60 - (clock.hour * 60 + clock.minute), 60 - clock.minute) * MINUTE;
+      while (wallClock(new Date(time), timeZone).day === day) time += 60 * MINUTE;
+    } else if (!expression.hours.has(clock.hour)) {
+      time += (60 - clock.minute) * MINUTE;
+    } else if (!expression.minutes.has(clock.minute)) {
+      time += MINUTE;
+    } else {
+      return new Date(time);
+    }
+  }
+  throw new Error(`Cron expression never matches within five years`);
+}
@@ -0,0 +1,74 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { nextCronDate, parseCron } from "../Cron";
+
+describe("Cron", () => {
+  describe("parseCron", () => {
+    it("should parse lists, ranges, steps and names", () => {
+      const cron = parseCron("*/15 9-17 1,15 JAN-MAR mon-fri");
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect(cron.hours.size).toBe(9);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect([...cron.months]).toEqual([1, 2, 3]);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should treat day-of-week 7 as Sunday", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("should reject invalid expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("expected 5 fields");
+      expect(() => parseCron("60 * * * *")).toThrow("Invalid cron expression");
+      expect(() => parseCron("*/0 * * * *")).toThrow("Invalid cron expression");
+      expect(() => parseCron("0 0 * FOO *")).toThrow("Invalid cron expression");
+    });
+  });
+
+  describe("nextCronDate", () => {
+    const after = new Date("2025-01-01T10:20:30Z");
+
+    it("should find the next matching minute strictly after the date", () => {
+      expect(nextCronDate("* * * * *", after)).toEqual(new Date("2025-01-01T10:21:00Z"));
+      expect(nextCronDate("20 * * * *", after)).toEqual(new Date("2025-01-01T11:20:00Z"));
+      expect(nextCronDate("@daily", after)).toEqual(new Date("2025-01-02T00:00:00Z"));
+      expect(nextCronDate("@monthly", after)).toEqual(new Date("2025-02-01T00:00:00Z"));
+    });
+
+    it("should match either day field when both are restricted", () => {
+      // the 15th or the next Monday (2025-01-06), whichever comes first
+      expect(nextCronDate("0 0 15 * 1", after)).toEqual(new Date("2025-01-06T00:00:00Z"));
+    });
+
+    it("should read the expression in the given time zone", () => {
+      expect(nextCronDate("0 9 * * *", after, "Europe/Paris")).toEqual(
+        new Date("2025-01-02T08:00:00Z")
+      );
+      // daylight saving time has started in New York by then
+      expect(
+        nextCronDate("0 9 * * *", new Date("2025-07-01T00:00:00Z"), "America/New_York")
+      ).toEqual(new Date("2025-07-01T13:00:00Z"));
+    });
+
+    it("should not miss a midnight across a daylight saving time change", () => {
+      // the 8th of March 2026 is only 23 hours long in New York
+      expect(
+        nextCronDate("0 0 * * 1", new Date("2026-03-07T12:00:00-05:00"), "America/New_York")
+      ).toEqual(new Date("2026-03-09T04:00:00Z"));
+      // and the 1st of November 2026 is 25 hours long
+      expect(
+        nextCronDate("0 0 * * 1", new Date("2026-10-31T12:00:00-04:00"), "America/New_York")
+      ).toEqual(new Date("2026-11-02T05:00:00Z"));
+    });
+
+    it("should throw for expressions that never match", () => {
+      expect(() => nextCronDate("0 0 30 2 *", after)).toThrow();
+    });
+  });
+});
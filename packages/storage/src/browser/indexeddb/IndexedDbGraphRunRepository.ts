@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { GraphRunRepository } from "ellmers-core";
+import { IndexedDbKVRepository } from "./base/IndexedDbKVRepository";
+
+/**
+ * IndexedDB implementation of a graph run repository.
+ * Provides storage and retrieval for graph run checkpoints using IndexedDB.
+ */
+export class IndexedDbGraphRunRepository extends GraphRunRepository {
+  kvRepository: IndexedDbKVRepository;
+  public type = "IndexedDbGraphRunRepository" as const;
+  constructor(table: string = "graph_runs") {
+    super();
+    this.kvRepository = new IndexedDbKVRepository(table);
+  }
+}
@@ -0,0 +1,42 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { IJobNotifier, JobNotification, JobNotificationListener } from "ellmers-core";
+
+/**
+ * BroadcastChannel implementation of a job notifier, so queues on the same IndexedDB
+ * database in other browser tabs (and workers) hear each other
+ */
+export class IndexedDbJobNotifier implements IJobNotifier {
+  public readonly pushes = true;
+  private channels: Map<string, BroadcastChannel> = new Map();
+
+  /**
+   * @param channelPrefix - Prefix of the channel names, use the queue's table name prefix
+   */
+  constructor(private readonly channelPrefix: string) {}
+
+  private channelName(queue: string): string {
+    return `${this.channelPrefix}_${queue}_jobs`;
+  }
+
+  async notify(notification: JobNotification): Promise<void> {
+    let channel = this.channels.get(notification.queue);
+    if (!channel) {
+      channel = new BroadcastChannel(this.channelName(notification.queue));
+      this.channels.set(notification.queue, channel);
+    }
+    channel.postMessage(notification);
+  }
+
+  async subscribe(queue: string, listener: JobNotificationListener): Promise<() => void> {
+    // a channel does not receive its own messages, so listeners get one of their own
+    const channel = new BroadcastChannel(this.channelName(queue));
+    channel.onmessage = (event: MessageEvent<JobNotification>) => listener(event.data);
+    return () => channel.close();
+  }
+}
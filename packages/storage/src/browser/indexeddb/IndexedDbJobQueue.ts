@@ -11,12 +11,20 @@ import {
   JobQueue,
   ILimiter,
   JobError,
+  JobCleanupFilter,
+  JobQueueAddOptions,
+  JobQueueAddResult,
+  JobQueueFailedFilter,
+  JobQueueRequeueOptions,
+  JobSchedule,
+  JobRunRecord,
   RetryableJobError,
   PermanentJobError,
   JobStatus,
 } from "ellmers-core";
 import { makeFingerprint } from "../../util/Misc";
 import { ensureIndexedDbTable, ExpectedIndexDefinition } from "./base/IndexedDbTable";
+import { IndexedDbJobNotifier } from "./IndexedDbJobNotifier";
 
 /**
  * IndexedDB implementation of a job queue.
@@ -25,6 +33,10 @@ import { ensureIndexedDbTable, ExpectedIndexDefinition } from "./base/IndexedDbT
 export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
   private dbPromise: Promise<IDBDatabase>;
   private tableName: string;
+  private scheduleDbPromise: Promise<IDBDatabase>;
+  private scheduleTableName: string;
+  private runDbPromise: Promise<IDBDatabase>;
+  private runTableName: string;
   constructor(
     tableNamePrefix: string,
     queue: string,
@@ -68,46 +80,98 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
 
     // Now initialize the database
     this.dbPromise = ensureIndexedDbTable(this.tableName, "id", expectedIndexes);
-  }
 
-  async add(job: Job<Input, Output>): Promise<unknown> {
-    job.id = job.id ?? nanoid();
-    job.jobRunId = job.jobRunId ?? nanoid();
-    job.queueName = this.queue;
-    job.fingerprint = await makeFingerprint(job.input);
-    job.status = JobStatus.PENDING;
-    job.progress = 0;
-    job.progressMessage = "";
-    job.progressDetails = null;
-    job.queue = this;
+    // Schedules live in their own database next to the queue's
+    this.scheduleTableName = `${this.tableName}_schedules`;
+    this.scheduleDbPromise = ensureIndexedDbTable(this.scheduleTableName, "id", []);
+
+    // As do the finished runs kept for the stats
+    this.runTableName = `${this.tableName}_runs`;
+    this.runDbPromise = ensureIndexedDbTable(this.runTableName, "id", [
+      { name: "finishedAt", keyPath: "finishedAt", options: { unique: false } },
+    ]);
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.notifier = new IndexedDbJobNotifier(tableNamePrefix);
+    }
+  }
 
-    this.createAbortController(job.id);
+  /**
+   * Adds a new job to the queue, unless the dedupe policy finds one with the same input.
+   * The lookup and the insert share a transaction, so tabs adding the same input agree.
+   */
+  async addJob(
+    job: Job<Input, Output>,
+    options: JobQueueAddOptions = {}
+  ): Promise<JobQueueAddResult> {
+    const fingerprint = await makeFingerprint(job.input);
+    const statuses = this.dedupeStatuses(options);
 
     const db = await this.dbPromise;
     const tx = db.transaction(this.tableName, "readwrite");
     const store = tx.objectStore(this.tableName);
-    const request = store.add({
-      id: job.id,
-      jobRunId: job.jobRunId,
-      queueName: this.queue,
-      fingerprint: job.fingerprint,
-      input: job.input,
-      status: job.status,
-      output: job.output,
-      error: job.error,
-      errorCode: job.errorCode,
-      retries: job.retries,
-      runAfter: job.runAfter,
-      createdAt: job.createdAt,
-      progress: job.progress,
-      progressMessage: job.progressMessage,
-      progressDetails: job.progressDetails,
-    });
+    const index = store.index("fingerprint_status");
 
     return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve(job.id);
-      request.onerror = () => reject(request.error);
       tx.onerror = () => reject(tx.error);
+
+      const insert = () => {
+        job.id = job.id ?? nanoid();
+        job.jobRunId = job.jobRunId ?? nanoid();
+        job.queueName = this.queue;
+        job.fingerprint = fingerprint;
+        job.status = JobStatus.PENDING;
+        job.progress = 0;
+        job.progressMessage = "";
+        job.progressDetails = null;
+        job.queue = this;
+
+        this.createAbortController(job.id);
+        const request = store.add({
+          id: job.id,
+          jobRunId: job.jobRunId,
+          queueName: this.queue,
+          fingerprint: job.fingerprint,
+          input: job.input,
+          status: job.status,
+          output: job.output,
+          error: job.error,
+          errorCode: job.errorCode,
+          retries: job.retries,
+          maxRetries: job.maxRetries,
+          priority: job.priority,
+          timeoutMs: job.timeoutMs,
+          batchKey: job.batchKey(),
+          dependsOn: job.dependsOn,
+          dependencyInputs: job.dependencyInputs,
+          onDependencyFailure: job.onDependencyFailure,
+          runAfter: job.runAfter,
+          createdAt: job.createdAt,
+          progress: job.progress,
+          progressMessage: job.progressMessage,
+          progressDetails: job.progressDetails,
+        });
+        request.onsuccess = () => resolve({ id: job.id, deduped: false });
+        request.onerror = () => reject(request.error);
+        // tell other tabs only once the job is committed and they can see it
+        tx.oncomplete = () => this.onAdded(job.id);
+      };
+
+      // tries the statuses in order, taking the most recent job with the first one that matches
+      const findDuplicate = (i: number) => {
+        if (i >= statuses.length) return insert();
+        const request = index.getAll([fingerprint, statuses[i]]);
+        request.onsuccess = () => {
+          const jobs = request.result || [];
+          if (jobs.length === 0) return findDuplicate(i + 1);
+          const latest = jobs.reduce((a, b) =>
+            new Date(a.createdAt) > new Date(b.createdAt) ? a : b
+          );
+          resolve({ id: latest.id, deduped: true });
+        };
+        request.onerror = () => reject(request.error);
+      };
+      findDuplicate(0);
     });
   }
 
@@ -178,7 +242,44 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
     });
   }
 
+  /**
+   * Retrieves the next available job that is ready to be processed.
+   * Jobs are picked by priority (highest first), then oldest first. In fair-share
+   * mode the job runs with pending jobs take turns.
+   */
   async next(): Promise<Job<Input, Output> | undefined> {
+    const [job] = await this.claimReady((ready) => {
+      let job = ready[0];
+      if (job && this.fairShare) {
+        const candidates = new Map<string, number>();
+        for (const j of ready) {
+          if (!candidates.has(j.jobRunId)) candidates.set(j.jobRunId, j.priority || 0);
+        }
+        const jobRunId = this.nextFairShareJobRunId(
+          Array.from(candidates, ([jobRunId, priority]) => ({ jobRunId, priority }))
+        );
+        job = ready.find((j) => j.jobRunId === jobRunId) ?? job;
+      }
+      return job ? [job] : [];
+    });
+    return job;
+  }
+
+  /**
+   * Claims up to `limit` ready jobs with the given batch key.
+   */
+  async nextBatch(batchKey: string, limit: number): Promise<Job<Input, Output>[]> {
+    if (limit <= 0) return [];
+    return await this.claimReady((ready) =>
+      ready.filter((job) => job.batchKey === batchKey).slice(0, limit)
+    );
+  }
+
+  /**
+   * Marks jobs as PROCESSING in one transaction, picked by `select` from the jobs that are
+   * ready to run (in the order they should run)
+   */
+  private async claimReady(select: (ready: any[]) => any[]): Promise<Job<Input, Output>[]> {
     const db = await this.dbPromise;
     const tx = db.transaction(this.tableName, "readwrite");
     const store = tx.objectStore(this.tableName);
@@ -186,43 +287,65 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
     const now = new Date();
 
     return new Promise((resolve, reject) => {
-      const cursorRequest = index.openCursor(
+      const request = index.getAll(
         IDBKeyRange.bound([JobStatus.PENDING, 0], [JobStatus.PENDING, now], false, true)
       );
 
-      cursorRequest.onsuccess = (e) => {
-        const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
-        if (!cursor) {
-          resolve(undefined);
+      request.onsuccess = () => {
+        const pending = (request.result || [])
+          .filter((job) => job.status === JobStatus.PENDING)
+          .sort(
+            (a, b) =>
+              (b.priority || 0) - (a.priority || 0) ||
+              new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+          );
+        if (!pending.some((job) => job.dependsOn?.length)) {
+          claim(select(pending));
           return;
         }
+        // look up the status of the dependencies to skip jobs that are still waiting
+        const allRequest = store.getAll();
+        allRequest.onsuccess = () => {
+          const statuses = new Map<unknown, JobStatus>(
+            (allRequest.result || []).map((job) => [job.id, job.status])
+          );
+          claim(
+            select(
+              pending.filter((job) =>
+                (job.dependsOn ?? []).every(
+                  (id: unknown) =>
+                    statuses.get(id) === JobStatus.COMPLETED ||
+                    (statuses.get(id) === JobStatus.FAILED && job.onDependencyFailure === "run")
+                )
+              )
+            )
+          );
+        };
+        allRequest.onerror = () => reject(allRequest.error);
+      };
 
-        const job = cursor.value;
-        // Verify the job is still in PENDING state
-        if (job.status !== JobStatus.PENDING) {
-          cursor.continue();
+      const claim = (jobs: any[]) => {
+        if (jobs.length === 0) {
+          resolve([]);
           return;
         }
+        let updated = 0;
+        for (const job of jobs) {
+          job.status = JobStatus.PROCESSING;
+          job.processingStarted = now;
+          job.lastHeartbeatAt = now;
 
-        job.status = JobStatus.PROCESSING;
-        job.processingStarted = now;
-
-        try {
           const updateRequest = store.put(job);
           updateRequest.onsuccess = () => {
-            return job ? resolve(this.createNewJob(job, false)) : resolve(undefined);
-          };
-          updateRequest.onerror = (err) => {
-            console.error("Failed to update job status:", err);
-            cursor.continue();
+            if (++updated === jobs.length) {
+              resolve(jobs.map((job) => this.createNewJob(job, false)));
+            }
           };
-        } catch (err) {
-          console.error("Error updating job:", err);
-          cursor.continue();
+          updateRequest.onerror = () => reject(updateRequest.error);
         }
       };
 
-      cursorRequest.onerror = () => reject(cursorRequest.error);
+      request.onerror = () => reject(request.error);
       tx.onerror = () => reject(tx.error);
     });
   }
@@ -267,13 +390,13 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
           job.error = error.message;
           job.errorCode = error.name;
           job.retries = (job.retries || 0) + 1;
-          if (error instanceof RetryableJobError) {
-            if (job.retries >= job.maxRetries) {
+          if (error instanceof RetryableJobError && error.retryable) {
+            if (!this.canRetry(job)) {
               job.status = JobStatus.FAILED;
               job.completedAt = new Date();
             } else {
               job.status = JobStatus.PENDING;
-              job.runAfter = error.retryDate;
+              job.runAfter = this.retryDateFor(error, job.retries);
             }
           } else if (error instanceof PermanentJobError) {
             job.status = JobStatus.FAILED;
@@ -355,21 +478,164 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
   }
 
   /**
-   * Clears all jobs from the queue.
+   * Lists permanently failed jobs, most recent failures first.
    */
-  async deleteAll(): Promise<void> {
+  async listFailed({ errorCode, since, limit = 100 }: JobQueueFailedFilter = {}): Promise<
+    Job<Input, Output>[]
+  > {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readonly");
+    const store = tx.objectStore(this.tableName);
+    const request = store.index("status").getAll(JobStatus.FAILED);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const failedAt = (job: any) => (job.completedAt ? new Date(job.completedAt).getTime() : 0);
+        const ret = (request.result || [])
+          .filter((job) => !errorCode || job.errorCode === errorCode)
+          .filter((job) => !since || failedAt(job) >= since.getTime())
+          .sort((a, b) => failedAt(b) - failedAt(a))
+          .slice(0, limit)
+          .map((job) => this.createNewJob(job, false));
+        resolve(ret);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Puts a failed job back in the queue to run as soon as possible.
+   */
+  async requeue(
+    jobId: unknown,
+    { resetRetries = false }: JobQueueRequeueOptions = {}
+  ): Promise<void> {
     const db = await this.dbPromise;
     const tx = db.transaction(this.tableName, "readwrite");
     const store = tx.objectStore(this.tableName);
-    const request = store.clear();
+    const request = store.get(jobId as string);
 
     return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        const job = request.result;
+        if (!job) {
+          reject(new Error(`Job ${jobId} not found`));
+          return;
+        }
+        if (job.status !== JobStatus.FAILED) {
+          reject(new Error(`Job ${jobId} has not failed`));
+          return;
+        }
+
+        job.status = JobStatus.PENDING;
+        job.runAfter = new Date();
+        job.completedAt = null;
+        job.error = null;
+        job.errorCode = null;
+        job.progress = 0;
+        job.progressMessage = "";
+        job.progressDetails = null;
+        if (resetRetries) job.retries = 0;
+
+        const updateRequest = store.put(job);
+        updateRequest.onsuccess = () => {
+          this.prepareRequeuedJob(job.id);
+          resolve();
+        };
+        updateRequest.onerror = () => reject(updateRequest.error);
+      };
       request.onerror = () => reject(request.error);
       tx.onerror = () => reject(tx.error);
     });
   }
 
+  /**
+   * Deletes failed jobs that failed before the given date.
+   * Returns the number of jobs deleted.
+   */
+  async purgeFailed(olderThan: Date): Promise<number> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
+    const cursorRequest = store.index("status").openCursor(IDBKeyRange.only(JobStatus.FAILED));
+    let deleted = 0;
+
+    return new Promise((resolve, reject) => {
+      cursorRequest.onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+        if (!cursor) return;
+        const completedAt = cursor.value.completedAt;
+        if (completedAt && new Date(completedAt).getTime() < olderThan.getTime()) {
+          cursor.delete();
+          deleted++;
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      tx.oncomplete = () => resolve(deleted);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  protected async cleanupJobs(filter: JobCleanupFilter, stripPayloads: boolean): Promise<number> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
+    const index = store.index("status");
+    const finishedRequest = index.getAll(filter.status);
+    const pendingRequest = index.getAll(JobStatus.PENDING);
+    const processingRequest = index.getAll(JobStatus.PROCESSING);
+    let removed = 0;
+
+    return new Promise((resolve, reject) => {
+      // the requests of a transaction succeed in order, so all three are done by now
+      processingRequest.onsuccess = () => {
+        const neededIds = new Set(
+          [...pendingRequest.result, ...processingRequest.result].flatMap(
+            (job) => job.dependsOn ?? []
+          )
+        );
+        const expired = this.selectExpiredJobs(
+          finishedRequest.result,
+          filter,
+          stripPayloads,
+          neededIds
+        );
+        for (const job of expired) {
+          if (stripPayloads) {
+            store.put({ ...job, input: {}, output: null, fingerprint: "" });
+          } else {
+            store.delete(job.id);
+          }
+        }
+        removed = expired.length;
+      };
+      processingRequest.onerror = () => reject(processingRequest.error);
+      tx.oncomplete = () => resolve(removed);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Clears all jobs from the queue, along with its finished runs.
+   */
+  async deleteAll(): Promise<void> {
+    const clear = async (dbPromise: Promise<IDBDatabase>, tableName: string) => {
+      const db = await dbPromise;
+      const tx = db.transaction(tableName, "readwrite");
+      const request = tx.objectStore(tableName).clear();
+
+      return new Promise<void>((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        tx.onerror = () => reject(tx.error);
+      });
+    };
+    await clear(this.dbPromise, this.tableName);
+    await clear(this.runDbPromise, this.runTableName);
+  }
+
   /**
    * Retrieves the output for a job based input.
    * Uses a compound key to query the IndexedDB for the job's output.
@@ -392,6 +658,235 @@ export class IndexedDbJobQueue<Input, Output> extends JobQueue<Input, Output> {
     });
   }
 
+  /**
+   * Retrieves pending jobs that have a failed dependency and should fail with it.
+   */
+  async dependencyFailed(): Promise<Job<Input, Output>[]> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readonly");
+    const store = tx.objectStore(this.tableName);
+    const request = store.index("status").getAll(JobStatus.FAILED);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const failed = new Set((request.result || []).map((job) => job.id));
+        if (failed.size === 0) {
+          resolve([]);
+          return;
+        }
+        const pendingRequest = store.index("status").getAll(JobStatus.PENDING);
+        pendingRequest.onsuccess = () => {
+          const ret = (pendingRequest.result || [])
+            .filter((job) => (job.onDependencyFailure ?? "fail") === "fail")
+            .filter((job) => (job.dependsOn ?? []).some((id: unknown) => failed.has(id)))
+            .map((job) => this.createNewJob(job, false));
+          resolve(ret);
+        };
+        pendingRequest.onerror = () => reject(pendingRequest.error);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Retrieves processing jobs whose last heartbeat is older than the given date.
+   */
+  async stalled(olderThan: Date): Promise<Job<Input, Output>[]> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readonly");
+    const store = tx.objectStore(this.tableName);
+    const request = store.index("status").getAll(JobStatus.PROCESSING);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const ret = (request.result || [])
+          .filter(
+            (job) => new Date(job.lastHeartbeatAt ?? job.createdAt).getTime() < olderThan.getTime()
+          )
+          .map((job) => this.createNewJob(job, false));
+        resolve(ret);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Lists the schedules of the queue.
+   */
+  async listSchedules(): Promise<JobSchedule<Input>[]> {
+    const db = await this.scheduleDbPromise;
+    const tx = db.transaction(this.scheduleTableName, "readonly");
+    const store = tx.objectStore(this.scheduleTableName);
+    const request = store.getAll();
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const ret = (request.result || [])
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map((schedule) => this.createNewSchedule(schedule, false));
+        resolve(ret);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Retrieves a schedule by its ID.
+   */
+  async getSchedule(id: string): Promise<JobSchedule<Input> | undefined> {
+    const db = await this.scheduleDbPromise;
+    const tx = db.transaction(this.scheduleTableName, "readonly");
+    const store = tx.objectStore(this.scheduleTableName);
+    const request = store.get(id);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () =>
+        resolve(request.result ? this.createNewSchedule(request.result, false) : undefined);
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Deletes a schedule.
+   */
+  async deleteSchedule(id: string): Promise<void> {
+    const db = await this.scheduleDbPromise;
+    const tx = db.transaction(this.scheduleTableName, "readwrite");
+    const store = tx.objectStore(this.scheduleTableName);
+    const request = store.delete(id);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Implements the abstract saveSchedule method from JobQueue
+   */
+  protected async saveSchedule(schedule: JobSchedule<Input>): Promise<void> {
+    const db = await this.scheduleDbPromise;
+    const tx = db.transaction(this.scheduleTableName, "readwrite");
+    const store = tx.objectStore(this.scheduleTableName);
+    const request = store.put({ ...schedule });
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Implements the abstract claimSchedule method from JobQueue.
+   * The check and the update share one readwrite transaction.
+   */
+  protected async claimSchedule(
+    id: string,
+    expectedNextRunAt: Date,
+    nextRunAt: Date
+  ): Promise<boolean> {
+    const db = await this.scheduleDbPromise;
+    const tx = db.transaction(this.scheduleTableName, "readwrite");
+    const store = tx.objectStore(this.scheduleTableName);
+    const request = store.get(id);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const schedule = request.result;
+        if (
+          !schedule ||
+          schedule.paused ||
+          schedule.nextRunAt.getTime() !== expectedNextRunAt.getTime()
+        ) {
+          resolve(false);
+          return;
+        }
+        schedule.nextRunAt = nextRunAt;
+        const updateRequest = store.put(schedule);
+        updateRequest.onsuccess = () => resolve(true);
+        updateRequest.onerror = () => reject(updateRequest.error);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Implements the abstract saveRun method from JobQueue
+   */
+  protected async saveRun(run: JobRunRecord): Promise<void> {
+    const db = await this.runDbPromise;
+    const tx = db.transaction(this.runTableName, "readwrite");
+    const store = tx.objectStore(this.runTableName);
+    const threshold = new Date(run.finishedAt.getTime() - this.runHistoryMs);
+    const expiredRequest = store
+      .index("finishedAt")
+      .getAllKeys(IDBKeyRange.upperBound(threshold, true));
+    expiredRequest.onsuccess = () => {
+      for (const id of expiredRequest.result) store.delete(id);
+    };
+    store.add({ id: nanoid(), ...run });
+
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Implements the abstract listRuns method from JobQueue
+   */
+  protected async listRuns(since: Date): Promise<JobRunRecord[]> {
+    const db = await this.runDbPromise;
+    const tx = db.transaction(this.runTableName, "readonly");
+    const store = tx.objectStore(this.runTableName);
+    const request = store.index("finishedAt").getAll(IDBKeyRange.lowerBound(since));
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () =>
+        resolve(
+          (request.result || []).map(({ id, ...run }) => ({
+            ...run,
+            finishedAt: new Date(run.finishedAt),
+          }))
+        );
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Implements the abstract saveHeartbeat method from JobQueue
+   */
+  protected async saveHeartbeat(jobId: unknown): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
+    const request = store.get(jobId as string);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const job = request.result;
+        if (!job || job.status !== JobStatus.PROCESSING) {
+          resolve();
+          return;
+        }
+        job.lastHeartbeatAt = new Date();
+        const updateRequest = store.put(job);
+        updateRequest.onsuccess = () => resolve();
+        updateRequest.onerror = () => reject(updateRequest.error);
+      };
+      request.onerror = () => reject(request.error);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   /**
    * Implements the abstract saveProgress method from JobQueue
    */
@@ -1,3 +1,5 @@
 export * from "./IndexedDbTaskGraphRepository";
 export * from "./IndexedDbTaskOutputRepository";
 export * from "./IndexedDbJobQueue";
+export * from "./IndexedDbJobNotifier";
+export * from "./IndexedDbGraphRunRepository";
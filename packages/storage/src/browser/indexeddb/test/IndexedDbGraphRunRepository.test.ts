@@ -0,0 +1,18 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import "fake-indexeddb/auto";
+import { nanoid } from "nanoid";
+import { IndexedDbGraphRunRepository } from "../IndexedDbGraphRunRepository";
+import { runGenericGraphRunRepositoryTests } from "../../../test/genericGraphRunRepositoryTests";
+import { describe } from "bun:test";
+
+describe("IndexedDbGraphRunRepository", () => {
+  runGenericGraphRunRepositoryTests(
+    async () => new IndexedDbGraphRunRepository(`idx_test_${nanoid()}`)
+  );
+});
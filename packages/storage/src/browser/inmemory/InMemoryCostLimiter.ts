@@ -0,0 +1,72 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { ILimiter } from "ellmers-core";
+
+/**
+ * In-memory implementation of a cost-based rate limiter.
+ * Instead of counting jobs, it sums the cost each job declares (see Job.cost()) over a
+ * sliding window. A job starts while the window is under budget, so the last job of a
+ * window may take it over budget, and the next one waits until enough cost expired.
+ */
+export class InMemoryCostLimiter implements ILimiter {
+  private requests: Array<{ at: number; cost: number }> = [];
+  private nextAvailableTime: Date = new Date();
+  private readonly maxCost: number;
+  private readonly windowSizeInMilliseconds: number;
+
+  constructor(maxCost: number, windowSizeInMinutes: number) {
+    this.maxCost = maxCost;
+    this.windowSizeInMilliseconds = windowSizeInMinutes * 60 * 1000;
+  }
+
+  private removeOldRequests() {
+    const threshold = Date.now() - this.windowSizeInMilliseconds;
+    this.requests = this.requests.filter((request) => request.at > threshold);
+  }
+
+  private spent() {
+    return this.requests.reduce((sum, request) => sum + request.cost, 0);
+  }
+
+  async canProceed(): Promise<boolean> {
+    this.removeOldRequests();
+    return this.spent() < this.maxCost && Date.now() >= this.nextAvailableTime.getTime();
+  }
+
+  async recordJobStart(cost: number = 1): Promise<void> {
+    this.requests.push({ at: Date.now(), cost });
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, the cost is counted when a job starts
+  }
+
+  async getNextAvailableTime(): Promise<Date> {
+    this.removeOldRequests();
+    let spent = this.spent();
+    let availableAt = Date.now();
+    // expire the oldest requests until the window is under budget again
+    for (const request of this.requests) {
+      if (spent < this.maxCost) break;
+      spent -= request.cost;
+      availableAt = request.at + this.windowSizeInMilliseconds;
+    }
+    return new Date(Math.max(availableAt, this.nextAvailableTime.getTime()));
+  }
+
+  async setNextAvailableTime(date: Date): Promise<void> {
+    if (date > this.nextAvailableTime) {
+      this.nextAvailableTime = date;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.requests = [];
+    this.nextAvailableTime = new Date();
+  }
+}
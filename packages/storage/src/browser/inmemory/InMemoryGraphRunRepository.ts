@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { GraphRunRepository } from "ellmers-core";
+import { InMemoryKVRepository } from "./base/InMemoryKVRepository";
+
+/**
+ * In-memory implementation of a graph run repository.
+ * Provides storage and retrieval for graph run checkpoints.
+ */
+export class InMemoryGraphRunRepository extends GraphRunRepository {
+  kvRepository: InMemoryKVRepository;
+  public type = "InMemoryGraphRunRepository" as const;
+  constructor() {
+    super();
+    this.kvRepository = new InMemoryKVRepository();
+  }
+}
@@ -0,0 +1,32 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import EventEmitter from "eventemitter3";
+import { IJobNotifier, JobNotification, JobNotificationListener } from "ellmers-core";
+
+/**
+ * Shared by all in-memory notifiers, so queues of the same process hear each other
+ */
+const emitter = new EventEmitter<Record<string, [notification: JobNotification]>>();
+
+/**
+ * In-process implementation of a job notifier, for queues living in the same process
+ */
+export class InMemoryJobNotifier implements IJobNotifier {
+  public readonly pushes = true;
+
+  async notify(notification: JobNotification): Promise<void> {
+    emitter.emit(notification.queue, notification);
+  }
+
+  async subscribe(queue: string, listener: JobNotificationListener): Promise<() => void> {
+    emitter.on(queue, listener);
+    return () => {
+      emitter.off(queue, listener);
+    };
+  }
+}
@@ -12,11 +12,18 @@ import {
   JobQueue,
   ILimiter,
   JobError,
+  JobCleanupFilter,
+  JobQueueAddOptions,
+  JobQueueFailedFilter,
+  JobQueueRequeueOptions,
+  JobSchedule,
+  JobRunRecord,
   RetryableJobError,
   PermanentJobError,
   sleep,
 } from "ellmers-core";
 import { makeFingerprint } from "../../util/Misc";
+import { InMemoryJobNotifier } from "./InMemoryJobNotifier";
 
 /**
  * In-memory implementation of a job queue that manages asynchronous tasks.
@@ -38,31 +45,59 @@ export class InMemoryJobQueue<Input, Output> extends JobQueue<Input, Output> {
   ) {
     super(queue, limiter, jobClass, waitDurationInMilliseconds);
     this.jobQueue = [];
+    this.notifier = new InMemoryJobNotifier();
   }
 
   /** Internal array storing all jobs */
   private jobQueue: Job<Input, Output>[];
 
+  /** Schedules of the queue by id */
+  private schedules: Map<string, JobSchedule<Input>> = new Map();
+
+  /** Finished runs for the stats, oldest first */
+  private runs: JobRunRecord[] = [];
+
+  /**
+   * Whether all dependencies of a job are done: completed, or also failed when the job
+   * runs regardless
+   */
+  private dependenciesDone(job: Job<Input, Output>) {
+    return job.dependsOn.every((id) => {
+      const status = this.jobQueue.find((j) => j.id === id)?.status;
+      return (
+        status === JobStatus.COMPLETED ||
+        (status === JobStatus.FAILED && job.onDependencyFailure === "run")
+      );
+    });
+  }
+
   /**
    * Returns a filtered and sorted list of pending jobs that are ready to run
-   * Sorts by creation time to maintain FIFO order
+   * Sorts by priority (highest first), then by creation time to maintain FIFO order
    */
   private reorderedQueue() {
     return this.jobQueue
       .filter((job) => job.status === JobStatus.PENDING)
       .filter((job) => job.runAfter.getTime() <= Date.now())
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      .filter((job) => this.dependenciesDone(job))
+      .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
   }
 
   /**
-   * Adds a new job to the queue
+   * Adds a new job to the queue, unless the dedupe policy finds one with the same input
    * Generates an ID and fingerprint if not provided
    */
-  public async add(job: Job<Input, Output>) {
+  public async addJob(job: Job<Input, Output>, options: JobQueueAddOptions = {}) {
+    const fingerprint = await makeFingerprint(job.input);
+    const duplicate = this.findDuplicate(fingerprint, this.dedupeStatuses(options));
+    if (duplicate) {
+      return { id: duplicate.id, deduped: true };
+    }
+
     job.id = job.id ?? nanoid();
     job.jobRunId = job.jobRunId ?? nanoid();
     job.queueName = this.queue;
-    job.fingerprint = await makeFingerprint(job.input);
+    job.fingerprint = fingerprint;
     job.status = JobStatus.PENDING;
     job.progress = 0;
     job.progressMessage = "";
@@ -71,7 +106,23 @@ export class InMemoryJobQueue<Input, Output> extends JobQueue<Input, Output> {
 
     this.createAbortController(job.id);
     this.jobQueue.push(job);
-    return job.id;
+    this.onAdded(job.id);
+    return { id: job.id, deduped: false };
+  }
+
+  /**
+   * Finds the most recent job with the given fingerprint, trying the statuses in order
+   */
+  private findDuplicate(fingerprint: string, statuses: JobStatus[]) {
+    for (const status of statuses) {
+      for (let i = this.jobQueue.length - 1; i >= 0; i--) {
+        const job = this.jobQueue[i];
+        if (job.fingerprint === fingerprint && job.status === status) {
+          return job;
+        }
+      }
+    }
+    return undefined;
   }
 
   public async get(id: unknown) {
@@ -103,17 +154,66 @@ export class InMemoryJobQueue<Input, Output> extends JobQueue<Input, Output> {
   public async next() {
     const top = this.reorderedQueue();
 
-    const job = top[0];
+    let job = top[0];
+    if (job && this.fairShare) {
+      const candidates = new Map<string, number>();
+      for (const j of top) {
+        if (!candidates.has(j.jobRunId!)) candidates.set(j.jobRunId!, j.priority);
+      }
+      const jobRunId = this.nextFairShareJobRunId(
+        Array.from(candidates, ([jobRunId, priority]) => ({ jobRunId, priority }))
+      );
+      job = top.find((j) => j.jobRunId === jobRunId) ?? job;
+    }
     if (job) {
       job.status = JobStatus.PROCESSING;
+      job.lastHeartbeatAt = new Date();
       return this.createNewJob(job, false);
     }
   }
 
+  public async nextBatch(batchKey: string, limit: number) {
+    if (limit <= 0) return [];
+    return this.reorderedQueue()
+      .filter((job) => job.batchKey() === batchKey)
+      .slice(0, limit)
+      .map((job) => {
+        job.status = JobStatus.PROCESSING;
+        job.lastHeartbeatAt = new Date();
+        return this.createNewJob(job, false);
+      });
+  }
+
   public async size(status = JobStatus.PENDING): Promise<number> {
     return this.jobQueue.filter((j) => j.status === status).length;
   }
 
+  public async dependencyFailed() {
+    return this.jobQueue
+      .filter((job) => job.status === JobStatus.PENDING && job.onDependencyFailure === "fail")
+      .filter((job) =>
+        job.dependsOn.some(
+          (id) => this.jobQueue.find((j) => j.id === id)?.status === JobStatus.FAILED
+        )
+      )
+      .map((j) => this.createNewJob(j, false));
+  }
+
+  public async stalled(olderThan: Date) {
+    return this.jobQueue
+      .filter((job) => job.status === JobStatus.PROCESSING)
+      .filter((job) => (job.lastHeartbeatAt ?? job.createdAt).getTime() < olderThan.getTime())
+      .map((j) => this.createNewJob(j, false));
+  }
+
+  /**
+   * Implements the abstract saveHeartbeat method from JobQueue
+   */
+  protected async saveHeartbeat(jobId: unknown): Promise<void> {
+    const job = this.jobQueue.find((j) => j.id === jobId);
+    if (job) job.lastHeartbeatAt = new Date();
+  }
+
   /**
    * Implements the abstract saveProgress method from JobQueue
    */
@@ -154,14 +254,14 @@ export class InMemoryJobQueue<Input, Output> extends JobQueue<Input, Output> {
     if (error) {
       job.error = error.message;
       job.errorCode = error.name;
-      if (error instanceof RetryableJobError) {
+      if (error instanceof RetryableJobError && error.retryable) {
         job.retries++;
-        if (job.retries >= job.maxRetries) {
+        if (!this.canRetry(job)) {
           job.status = JobStatus.FAILED;
           job.completedAt = new Date();
         } else {
           job.status = JobStatus.PENDING;
-          job.runAfter = error.retryDate;
+          job.runAfter = this.retryDateFor(error, job.retries);
           job.progress = 0;
         }
       } else if (error instanceof PermanentJobError) {
@@ -198,8 +298,118 @@ export class InMemoryJobQueue<Input, Output> extends JobQueue<Input, Output> {
       .map((j) => this.createNewJob(j, false));
   }
 
+  public async listFailed({ errorCode, since, limit = 100 }: JobQueueFailedFilter = {}) {
+    return this.jobQueue
+      .filter((job) => job.status === JobStatus.FAILED)
+      .filter((job) => !errorCode || job.errorCode === errorCode)
+      .filter((job) => !since || (job.completedAt?.getTime() ?? 0) >= since.getTime())
+      .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map((j) => this.createNewJob(j, false));
+  }
+
+  public async requeue(jobId: unknown, { resetRetries = false }: JobQueueRequeueOptions = {}) {
+    const job = this.jobQueue.find((j) => j.id === jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.status !== JobStatus.FAILED) {
+      throw new Error(`Job ${jobId} has not failed`);
+    }
+
+    job.status = JobStatus.PENDING;
+    job.runAfter = new Date();
+    job.completedAt = null;
+    job.error = null;
+    job.errorCode = null;
+    job.progress = 0;
+    job.progressMessage = "";
+    job.progressDetails = null;
+    if (resetRetries) job.retries = 0;
+    this.prepareRequeuedJob(job.id);
+  }
+
+  public async purgeFailed(olderThan: Date) {
+    const before = this.jobQueue.length;
+    this.jobQueue = this.jobQueue.filter(
+      (job) =>
+        job.status !== JobStatus.FAILED || (job.completedAt?.getTime() ?? 0) >= olderThan.getTime()
+    );
+    return before - this.jobQueue.length;
+  }
+
+  protected async cleanupJobs(filter: JobCleanupFilter, stripPayloads: boolean) {
+    const neededIds = new Set(
+      this.jobQueue
+        .filter((job) => [JobStatus.PENDING, JobStatus.PROCESSING].includes(job.status))
+        .flatMap((job) => job.dependsOn)
+    );
+    const expired = this.selectExpiredJobs(
+      this.jobQueue.filter((job) => job.status === filter.status),
+      filter,
+      stripPayloads,
+      neededIds
+    );
+    if (stripPayloads) {
+      for (const job of expired) {
+        (job as { input: Input }).input = {} as Input;
+        job.output = null;
+        job.fingerprint = "";
+      }
+    } else {
+      const expiredJobs = new Set(expired);
+      this.jobQueue = this.jobQueue.filter((job) => !expiredJobs.has(job));
+    }
+    return expired.length;
+  }
+
+  public async listSchedules() {
+    return Array.from(this.schedules.values()).map((s) => this.createNewSchedule(s, false));
+  }
+
+  public async getSchedule(id: string) {
+    const schedule = this.schedules.get(id);
+    return schedule ? this.createNewSchedule(schedule, false) : undefined;
+  }
+
+  public async deleteSchedule(id: string) {
+    this.schedules.delete(id);
+  }
+
+  protected async saveSchedule(schedule: JobSchedule<Input>) {
+    this.schedules.set(schedule.id, { ...schedule });
+  }
+
+  protected async claimSchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date) {
+    const schedule = this.schedules.get(id);
+    if (
+      !schedule ||
+      schedule.paused ||
+      schedule.nextRunAt.getTime() !== expectedNextRunAt.getTime()
+    ) {
+      return false;
+    }
+    schedule.nextRunAt = nextRunAt;
+    return true;
+  }
+
+  protected async saveRun(run: JobRunRecord) {
+    const threshold = run.finishedAt.getTime() - this.runHistoryMs;
+    if (this.runs.length && this.runs[0].finishedAt.getTime() < threshold) {
+      this.runs = this.runs.filter((r) => r.finishedAt.getTime() >= threshold);
+    }
+    this.runs.push({ ...run });
+  }
+
+  protected async listRuns(since: Date) {
+    return this.runs
+      .filter((run) => run.finishedAt.getTime() >= since.getTime())
+      .map((run) => ({ ...run }));
+  }
+
   public async deleteAll() {
     this.jobQueue = [];
+    this.runs = [];
   }
 
   /**
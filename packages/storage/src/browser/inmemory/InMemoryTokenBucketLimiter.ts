@@ -0,0 +1,69 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { ILimiter } from "ellmers-core";
+
+/**
+ * In-memory implementation of a token bucket limiter.
+ * The bucket holds up to `capacity` tokens, so that many jobs can start in a burst, and
+ * refills at a steady rate. A job starts once a whole token is available and takes its
+ * cost out of the bucket, which may leave it in debt for expensive jobs.
+ */
+export class InMemoryTokenBucketLimiter implements ILimiter {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+  private nextAvailableTime: Date = new Date();
+  private readonly capacity: number;
+  private readonly refillPerMillisecond: number;
+
+  constructor(capacity: number, refillPerMinute: number) {
+    this.capacity = capacity;
+    this.refillPerMillisecond = refillPerMinute / (60 * 1000);
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.refillPerMillisecond
+    );
+    this.updatedAt = now;
+  }
+
+  async canProceed(): Promise<boolean> {
+    this.refill();
+    return this.tokens >= 1 && Date.now() >= this.nextAvailableTime.getTime();
+  }
+
+  async recordJobStart(cost: number = 1): Promise<void> {
+    this.refill();
+    this.tokens -= cost;
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, tokens are taken when a job starts
+  }
+
+  async getNextAvailableTime(): Promise<Date> {
+    this.refill();
+    const refilledAt = this.updatedAt + Math.max(0, 1 - this.tokens) / this.refillPerMillisecond;
+    return new Date(Math.max(refilledAt, this.nextAvailableTime.getTime()));
+  }
+
+  async setNextAvailableTime(date: Date): Promise<void> {
+    if (date > this.nextAvailableTime) {
+      this.nextAvailableTime = date;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+    this.nextAvailableTime = new Date();
+  }
+}
@@ -3,4 +3,8 @@ export * from "./InMemoryTaskOutputRepository";
 export * from "./InMemoryTaskGraphRepository";
 export * from "./InMemoryJobQueue";
 export * from "./InMemoryRateLimiter";
+export * from "./InMemoryTokenBucketLimiter";
+export * from "./InMemoryCostLimiter";
+export * from "./InMemoryJobNotifier";
 export * from "./InMemoryModelRepository";
+export * from "./InMemoryGraphRunRepository";
@@ -0,0 +1,14 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { InMemoryGraphRunRepository } from "../InMemoryGraphRunRepository";
+import { runGenericGraphRunRepositoryTests } from "../../../test/genericGraphRunRepositoryTests";
+import { describe } from "bun:test";
+
+describe("InMemoryGraphRunRepository", () => {
+  runGenericGraphRunRepositoryTests(async () => new InMemoryGraphRunRepository());
+});
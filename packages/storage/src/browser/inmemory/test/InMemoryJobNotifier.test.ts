@@ -0,0 +1,34 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it } from "bun:test";
+import { JobNotification } from "ellmers-core";
+import { InMemoryJobNotifier } from "../InMemoryJobNotifier";
+
+describe("InMemoryJobNotifier", () => {
+  const added = (queue: string): JobNotification => ({
+    type: "job_added",
+    queue,
+    source: "test",
+    jobId: 1,
+  });
+
+  it("should deliver notifications to the subscribers of the queue", async () => {
+    const received: JobNotification[] = [];
+    const unsubscribe = await new InMemoryJobNotifier().subscribe("queue_a", (n) =>
+      received.push(n)
+    );
+    const notifier = new InMemoryJobNotifier();
+    await notifier.notify(added("queue_a"));
+    await notifier.notify(added("queue_b"));
+    expect(received).toEqual([added("queue_a")]);
+
+    unsubscribe();
+    await notifier.notify(added("queue_a"));
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,26 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe } from "bun:test";
+import {
+  runGenericCostLimiterTests,
+  runGenericTokenBucketLimiterTests,
+} from "../../../test/genericLimiterTests";
+import { InMemoryTokenBucketLimiter } from "../InMemoryTokenBucketLimiter";
+import { InMemoryCostLimiter } from "../InMemoryCostLimiter";
+
+describe("InMemoryTokenBucketLimiter", () => {
+  runGenericTokenBucketLimiterTests(
+    (capacity, refillPerMinute) => new InMemoryTokenBucketLimiter(capacity, refillPerMinute)
+  );
+});
+
+describe("InMemoryCostLimiter", () => {
+  runGenericCostLimiterTests(
+    (maxCost, windowSizeInMinutes) => new InMemoryCostLimiter(maxCost, windowSizeInMinutes)
+  );
+});
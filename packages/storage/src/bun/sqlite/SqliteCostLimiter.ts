@@ -0,0 +1,143 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { type Database } from "better-sqlite3";
+import { ILimiter } from "ellmers-core";
+
+/**
+ * SQLite implementation of a cost-based rate limiter, shared by all processes using the
+ * database. It sums the cost each job declares (see Job.cost()) over a sliding window, and
+ * starts jobs while the window is under budget.
+ */
+export class SqliteCostLimiter implements ILimiter {
+  private readonly db: Database;
+  private readonly queueName: string;
+  private readonly maxCost: number;
+  private readonly windowSizeInMilliseconds: number;
+
+  constructor(db: Database, queueName: string, maxCost: number, windowSizeInMinutes: number) {
+    this.db = db;
+    this.queueName = queueName;
+    this.maxCost = maxCost;
+    this.windowSizeInMilliseconds = windowSizeInMinutes * 60 * 1000;
+  }
+
+  async clear() {
+    this.db.prepare("DELETE FROM job_queue_cost_tracking WHERE queue_name = ?").run(this.queueName);
+    this.db
+      .prepare("DELETE FROM job_queue_next_available WHERE queue_name = ?")
+      .run(this.queueName);
+  }
+
+  public ensureTableExists() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_queue_cost_tracking (
+        id INTEGER PRIMARY KEY,
+        queue_name TEXT NOT NULL,
+        cost REAL NOT NULL,
+        executed_at TEXT NOT NULL
+      );
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS job_queue_cost_tracking_queue_idx
+        ON job_queue_cost_tracking (queue_name, executed_at);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_queue_next_available (
+        queue_name TEXT PRIMARY KEY,
+        next_available_at TEXT
+      );
+    `);
+    return this;
+  }
+
+  /**
+   * Costs of the jobs started within the window, oldest first
+   */
+  private costsInWindow(now: number) {
+    const threshold = new Date(now - this.windowSizeInMilliseconds).toISOString();
+    return this.db
+      .prepare(
+        `
+      SELECT cost, executed_at
+      FROM job_queue_cost_tracking
+      WHERE queue_name = ? AND executed_at > ?
+      ORDER BY executed_at ASC`
+      )
+      .all(this.queueName, threshold) as Array<{ cost: number; executed_at: string }>;
+  }
+
+  private externalNextAvailableTime(): Date | undefined {
+    const result = this.db
+      .prepare(
+        `
+      SELECT next_available_at
+      FROM job_queue_next_available
+      WHERE queue_name = ?`
+      )
+      .get(this.queueName) as { next_available_at: string | null } | undefined;
+    return result?.next_available_at ? new Date(result.next_available_at) : undefined;
+  }
+
+  async canProceed(): Promise<boolean> {
+    const now = Date.now();
+    const nextAvailableTime = this.externalNextAvailableTime();
+    if (nextAvailableTime && nextAvailableTime.getTime() > now) {
+      return false;
+    }
+    const threshold = new Date(now - this.windowSizeInMilliseconds).toISOString();
+    const result = this.db
+      .prepare(
+        `
+      SELECT COALESCE(SUM(cost), 0) AS spent
+      FROM job_queue_cost_tracking
+      WHERE queue_name = ? AND executed_at > ?`
+      )
+      .get(this.queueName, threshold) as { spent: number };
+    return result.spent < this.maxCost;
+  }
+
+  async recordJobStart(cost: number = 1): Promise<void> {
+    this.db
+      .prepare(
+        `
+      INSERT INTO job_queue_cost_tracking (queue_name, cost, executed_at)
+      VALUES (?, ?, ?)`
+      )
+      .run(this.queueName, cost, new Date().toISOString());
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, the cost is counted when a job starts
+  }
+
+  async getNextAvailableTime(): Promise<Date> {
+    const now = Date.now();
+    const costs = this.costsInWindow(now);
+    let spent = costs.reduce((sum, row) => sum + row.cost, 0);
+    let availableAt = now;
+    // expire the oldest executions until the window is under budget again
+    for (const row of costs) {
+      if (spent < this.maxCost) break;
+      spent -= row.cost;
+      availableAt = new Date(row.executed_at).getTime() + this.windowSizeInMilliseconds;
+    }
+    const nextAvailableTime = this.externalNextAvailableTime()?.getTime() ?? now;
+    return new Date(Math.max(availableAt, nextAvailableTime));
+  }
+
+  async setNextAvailableTime(date: Date): Promise<void> {
+    this.db
+      .prepare(
+        `
+        INSERT INTO job_queue_next_available (queue_name, next_available_at)
+        VALUES (?, ?)
+        ON CONFLICT(queue_name) DO UPDATE SET next_available_at = excluded.next_available_at`
+      )
+      .run(this.queueName, date.toISOString());
+  }
+}
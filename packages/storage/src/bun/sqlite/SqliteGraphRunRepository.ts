@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { GraphRunRepository } from "ellmers-core";
+import { SqliteKVRepository } from "./base/SqliteKVRepository";
+
+/**
+ * SQLite implementation of a graph run repository.
+ * Provides storage and retrieval for graph run checkpoints using SQLite.
+ */
+export class SqliteGraphRunRepository extends GraphRunRepository {
+  kvRepository: SqliteKVRepository;
+  public type = "SqliteGraphRunRepository" as const;
+  constructor(dbOrPath: string, table: string = "graph_runs") {
+    super();
+    this.kvRepository = new SqliteKVRepository(dbOrPath, table);
+  }
+}
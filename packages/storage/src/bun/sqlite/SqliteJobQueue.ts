@@ -12,6 +12,12 @@ import {
   JobStatus,
   RetryableJobError,
   JobError,
+  JobCleanupFilter,
+  JobQueueAddOptions,
+  JobQueueFailedFilter,
+  JobQueueRequeueOptions,
+  JobSchedule,
+  JobRunRecord,
   PermanentJobError,
 } from "ellmers-core";
 import { makeFingerprint, toSQLiteTimestamp } from "../../util/Misc";
@@ -20,6 +26,38 @@ import { nanoid } from "nanoid";
 
 // TODO: reuse prepared statements
 
+/**
+ * Matches jobs whose dependencies are all done: completed, or also failed when the job
+ * runs regardless of failed dependencies
+ */
+const DependenciesDoneCondition = `
+  NOT EXISTS (
+    SELECT 1
+      FROM json_each(job_queue.dependsOn) AS dependency
+      LEFT JOIN job_queue AS parent
+        ON parent.id = dependency.value AND parent.queue = job_queue.queue
+      WHERE parent.status IS NULL
+      OR NOT (
+        parent.status = '${JobStatus.COMPLETED}'
+        OR (parent.status = '${JobStatus.FAILED}' AND job_queue.onDependencyFailure = 'run')
+      )
+  )`;
+
+/**
+ * Columns added to job_queue after its first release, with their definitions, so
+ * ensureTableExists can add them to tables created before
+ */
+const ADDED_COLUMNS: Array<[string, string]> = [
+  ["priority", "INTEGER default 0"],
+  ["completedAt", "TEXT"],
+  ["lastHeartbeatAt", "TEXT"],
+  ["dependsOn", "TEXT"],
+  ["dependencyInputs", "TEXT"],
+  ["onDependencyFailure", "TEXT default 'fail'"],
+  ["timeoutMs", "INTEGER"],
+  ["batchKey", "TEXT"],
+];
+
 /**
  * SQLite implementation of a job queue.
  * Provides storage and retrieval for job execution states using SQLite.
@@ -36,6 +74,7 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
   }
 
   public ensureTableExists() {
+    this.addMissingColumns();
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS job_queue (
         id INTEGER PRIMARY KEY,
@@ -46,9 +85,17 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
         input TEXT NOT NULL,
         output TEXT,
         retries INTEGER default 0,
-        maxRetries INTEGER default 23,
+        maxRetries INTEGER default 10,
+        priority INTEGER default 0,
+        timeoutMs INTEGER,
+        batchKey TEXT,
+        dependsOn TEXT,
+        dependencyInputs TEXT,
+        onDependencyFailure TEXT default 'fail',
         runAfter TEXT DEFAULT CURRENT_TIMESTAMP,
         lastRanAt TEXT,
+        completedAt TEXT,
+        lastHeartbeatAt TEXT,
         createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
         deadlineAt TEXT,
         error TEXT,
@@ -59,20 +106,107 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
       );
       
       CREATE INDEX IF NOT EXISTS job_queue_fetcher_idx ON job_queue (queue, status, runAfter);
+      CREATE INDEX IF NOT EXISTS job_queue_priority_idx ON job_queue (queue, status, priority);
       CREATE INDEX IF NOT EXISTS job_queue_fingerprint_idx ON job_queue (queue, fingerprint, status);
       CREATE INDEX IF NOT EXISTS job_queue_jobRunId_idx ON job_queue (queue, jobRunId);
+      CREATE INDEX IF NOT EXISTS job_queue_batchKey_idx ON job_queue (queue, status, batchKey);
+
+      CREATE TABLE IF NOT EXISTS job_schedule (
+        id TEXT NOT NULL,
+        queue TEXT NOT NULL,
+        cron TEXT,
+        intervalMs INTEGER,
+        timezone TEXT,
+        input TEXT NOT NULL,
+        overlap TEXT NOT NULL DEFAULT 'skip',
+        priority INTEGER DEFAULT 0,
+        maxRetries INTEGER,
+        paused INTEGER DEFAULT 0,
+        nextRunAt TEXT NOT NULL,
+        lastRunAt TEXT,
+        lastJobId TEXT,
+        createdAt TEXT NOT NULL,
+        PRIMARY KEY (queue, id)
+      );
+
+      CREATE TABLE IF NOT EXISTS job_queue_run (
+        id INTEGER PRIMARY KEY,
+        queue TEXT NOT NULL,
+        jobId TEXT,
+        outcome TEXT NOT NULL,
+        errorCode TEXT,
+        durationMs INTEGER NOT NULL,
+        finishedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS job_queue_run_finishedAt_idx ON job_queue_run (queue, finishedAt);
     `);
     return this;
   }
 
   /**
-   * Adds a new job to the queue.
+   * Adds the columns a job_queue table created by an older version is missing.
+   * A new table is created with all of them further on.
+   */
+  private addMissingColumns() {
+    const columns = this.db.prepare(`PRAGMA table_info(job_queue)`).all() as Array<{
+      name: string;
+    }>;
+    if (columns.length === 0) return;
+    const existing = new Set(columns.map((column) => column.name));
+    for (const [name, definition] of ADDED_COLUMNS) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE job_queue ADD COLUMN ${name} ${definition}`);
+      }
+    }
+  }
+
+  /**
+   * Adds a new job to the queue, unless the dedupe policy finds one with the same input.
    * @param job - The job to add
-   * @returns The ID of the added job
+   * @param options - The dedupe policy
+   * @returns The ID of the added job, or of the existing one, and which of the two it is
    */
-  public async add(job: Job<Input, Output>) {
-    job.queueName = this.queue;
+  public async addJob(job: Job<Input, Output>, options: JobQueueAddOptions = {}) {
     const fingerprint = await makeFingerprint(job.input);
+    const statuses = this.dedupeStatuses(options);
+    // look for a duplicate and insert in one transaction so concurrent processes agree
+    return this.db.transaction(() => {
+      const duplicate = this.findDuplicate(fingerprint, statuses);
+      if (duplicate !== undefined) {
+        return { id: duplicate as unknown, deduped: true };
+      }
+      return { id: this.insert(job, fingerprint) as unknown, deduped: false };
+    })();
+  }
+
+  /**
+   * Finds the id of the most recent job with the given fingerprint, trying the statuses in order
+   */
+  private findDuplicate(fingerprint: string, statuses: JobStatus[]) {
+    const DuplicateQuery = `
+      SELECT id
+        FROM job_queue
+        WHERE queue = ? AND fingerprint = ? AND status = ?
+        ORDER BY id DESC
+        LIMIT 1`;
+    const stmt = this.db.prepare<
+      { id: string },
+      [queue: string, fingerprint: string, status: string]
+    >(DuplicateQuery);
+    for (const status of statuses) {
+      const result = stmt.get(this.queue, fingerprint, status);
+      if (result) return result.id;
+    }
+    return undefined;
+  }
+
+  /**
+   * Inserts a new job
+   * @returns The ID of the inserted job
+   */
+  private insert(job: Job<Input, Output>, fingerprint: string) {
+    job.queueName = this.queue;
     job.fingerprint = fingerprint;
     job.jobRunId = job.jobRunId ?? nanoid();
     job.status = JobStatus.PENDING;
@@ -82,8 +216,8 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
     job.queue = this;
 
     const AddQuery = `
-      INSERT INTO job_queue(queue, fingerprint, input, runAfter, deadlineAt, maxRetries, jobRunId, progress, progressMessage, progressDetails)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      INSERT INTO job_queue(queue, fingerprint, input, runAfter, deadlineAt, maxRetries, priority, timeoutMs, batchKey, dependsOn, dependencyInputs, onDependencyFailure, jobRunId, progress, progressMessage, progressDetails)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
         RETURNING id`;
 
     const stmt = this.db.prepare<
@@ -95,6 +229,12 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
         runAfter: string | null,
         deadlineAt: string | null,
         maxRetries: number,
+        priority: number,
+        timeoutMs: number | null,
+        batchKey: string | null,
+        dependsOn: string | null,
+        dependencyInputs: string | null,
+        onDependencyFailure: string,
         jobRunId: string,
         progress: number,
         progressMessage: string,
@@ -109,6 +249,12 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
       toSQLiteTimestamp(job.runAfter),
       toSQLiteTimestamp(job.deadlineAt),
       job.maxRetries,
+      job.priority,
+      job.timeoutMs,
+      job.batchKey(),
+      job.dependsOn.length ? JSON.stringify(job.dependsOn) : null,
+      Object.keys(job.dependencyInputs).length ? JSON.stringify(job.dependencyInputs) : null,
+      job.onDependencyFailure,
       job.jobRunId,
       job.progress,
       job.progressMessage,
@@ -117,6 +263,7 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
 
     job.id = result?.id;
     this.createAbortController(job.id);
+    this.onAdded(job.id);
     return result?.id;
   }
 
@@ -228,11 +375,29 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
   /**
    * Retrieves the next available job that is ready to be processed,
    * and updates its status to PROCESSING.
+   * Jobs are picked by priority (highest first), then oldest first. In fair-share
+   * mode the job runs with pending jobs take turns.
    *
    * @returns The next job or undefined if no job is available
    */
   public async next() {
     let id: string | undefined;
+    let jobRunId: string | undefined;
+    if (this.fairShare) {
+      const PendingJobRunsQuery = `
+      SELECT jobRunId, MAX(priority) as priority
+        FROM job_queue
+        WHERE queue = $1
+        AND status = $2
+        AND runAfter <= CURRENT_TIMESTAMP
+        AND ${DependenciesDoneCondition}
+        GROUP BY jobRunId
+        ORDER BY MIN(id) ASC`;
+      const stmt = this.db.prepare(PendingJobRunsQuery);
+      const result = stmt.all(this.queue, JobStatus.PENDING) as any[];
+      jobRunId = this.nextFairShareJobRunId(result);
+      if (!jobRunId) return undefined;
+    }
     {
       const PendingJobIDQuery = `
       SELECT id
@@ -240,16 +405,23 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
         WHERE queue = $1
         AND status = $2
         AND runAfter <= CURRENT_TIMESTAMP
+        AND ${DependenciesDoneCondition}
+        ${jobRunId ? "AND jobRunId = $3" : ""}
+        ORDER BY priority DESC, createdAt ASC, id ASC
         LIMIT 1`;
       const stmt = this.db.prepare(PendingJobIDQuery);
-      const result = stmt.get(this.queue, JobStatus.PENDING) as any;
+      const result = (
+        jobRunId
+          ? stmt.get(this.queue, JobStatus.PENDING, jobRunId)
+          : stmt.get(this.queue, JobStatus.PENDING)
+      ) as any;
       if (!result) return undefined;
       id = result.id;
     }
     if (id) {
       const UpdateQuery = `
       UPDATE job_queue 
-        SET status = ?
+        SET status = ?, lastHeartbeatAt = CURRENT_TIMESTAMP
         WHERE id = ? AND queue = ?
         RETURNING *`;
       const stmt = this.db.prepare(UpdateQuery);
@@ -259,6 +431,40 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
     }
   }
 
+  /**
+   * Claims up to `limit` ready jobs with the given batch key.
+   * @param batchKey - The batch key the jobs must have
+   * @param limit - The maximum number of jobs to claim
+   * @returns The claimed jobs
+   */
+  public async nextBatch(batchKey: string, limit: number) {
+    if (limit <= 0) return [];
+    const NextBatchQuery = `
+      UPDATE job_queue
+        SET status = ?, lastHeartbeatAt = CURRENT_TIMESTAMP
+        WHERE id IN (
+          SELECT id
+            FROM job_queue
+            WHERE queue = ?
+            AND status = ?
+            AND batchKey = ?
+            AND runAfter <= CURRENT_TIMESTAMP
+            AND ${DependenciesDoneCondition}
+            ORDER BY priority DESC, createdAt ASC, id ASC
+            LIMIT ?
+        )
+        RETURNING *`;
+    const stmt = this.db.prepare(NextBatchQuery);
+    const result = stmt.all(
+      JobStatus.PROCESSING,
+      this.queue,
+      JobStatus.PENDING,
+      batchKey,
+      limit
+    ) as any[];
+    return (result || []).map((job) => this.createNewJob(job));
+  }
+
   /**
    * Retrieves the number of jobs in the queue with a specific status.
    * @param status - The status of the jobs to count
@@ -294,13 +500,13 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
       job.error = error.message;
       job.errorCode = error.name;
       job.retries = (job.retries || 0) + 1;
-      if (error instanceof RetryableJobError) {
-        if (job.retries >= job.maxRetries) {
+      if (error instanceof RetryableJobError && error.retryable) {
+        if (!this.canRetry(job)) {
           job.status = JobStatus.FAILED;
           job.completedAt = new Date();
         } else {
           job.status = JobStatus.PENDING;
-          job.runAfter = error.retryDate;
+          job.runAfter = this.retryDateFor(error, job.retries);
           job.progress = 0;
         }
       } else if (error instanceof PermanentJobError) {
@@ -339,7 +545,7 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
         error.name,
         job.status,
         job.progress,
-        job.runAfter.toISOString(),
+        toSQLiteTimestamp(job.runAfter),
         id,
         this.queue,
       ];
@@ -352,10 +558,11 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
               errorCode = ?, 
               status = ?, 
               progress = ?, 
-              retries = retries + 1, 
+              retries = ?, 
               progressMessage = "", 
               progressDetails = NULL, 
-              lastRanAt = CURRENT_TIMESTAMP
+              lastRanAt = CURRENT_TIMESTAMP,
+              completedAt = ?
             WHERE id = ? AND queue = ?`;
       params = [
         JSON.stringify(output),
@@ -363,6 +570,8 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
         job.errorCode ?? null,
         job.status,
         job.progress,
+        job.retries,
+        toSQLiteTimestamp(job.completedAt),
         id,
         this.queue,
       ];
@@ -373,12 +582,123 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
     }
   }
 
+  /**
+   * Lists permanently failed jobs, most recent failures first.
+   * @param filter - Optional error code, earliest failure date and limit
+   * @returns An array of jobs
+   */
+  public async listFailed({ errorCode, since, limit = 100 }: JobQueueFailedFilter = {}) {
+    limit = Number.isFinite(Number(limit)) ? Number(limit) : -1; // -1 is no limit in SQLite
+    const FailedQuery = `
+      SELECT *
+        FROM job_queue
+        WHERE queue = ?
+        AND status = ?
+        ${errorCode ? "AND errorCode = ?" : ""}
+        ${since ? "AND completedAt >= ?" : ""}
+        ORDER BY completedAt DESC, id DESC
+        LIMIT ${limit}`;
+    const params: string[] = [this.queue, JobStatus.FAILED];
+    if (errorCode) params.push(errorCode);
+    if (since) params.push(toSQLiteTimestamp(since)!);
+    const stmt = this.db.prepare(FailedQuery);
+    const result = stmt.all(...params) as any[];
+    const ret: Array<Job<Input, Output>> = [];
+    for (const job of result || []) ret.push(this.createNewJob(job));
+    return ret;
+  }
+
+  /**
+   * Puts a failed job back in the queue to run as soon as possible.
+   * @param jobId - The ID of the failed job
+   * @param options - Whether to reset the retry count
+   */
+  public async requeue(jobId: string, { resetRetries = false }: JobQueueRequeueOptions = {}) {
+    const job = await this.get(jobId);
+    if (!job) throw new Error(`Job ${jobId} not found`);
+    if (job.status !== JobStatus.FAILED) throw new Error(`Job ${jobId} has not failed`);
+
+    const RequeueQuery = `
+      UPDATE job_queue
+        SET status = ?,
+            runAfter = CURRENT_TIMESTAMP,
+            completedAt = NULL,
+            error = NULL,
+            errorCode = NULL,
+            progress = 0,
+            progressMessage = '',
+            progressDetails = NULL
+            ${resetRetries ? ", retries = 0" : ""}
+        WHERE id = ? AND queue = ?`;
+    const stmt = this.db.prepare(RequeueQuery);
+    stmt.run(JobStatus.PENDING, jobId, this.queue);
+    this.prepareRequeuedJob(job.id);
+  }
+
+  /**
+   * Deletes failed jobs that failed before the given date.
+   * @param olderThan - Jobs that failed before this date are deleted
+   * @returns The number of jobs deleted
+   */
+  public async purgeFailed(olderThan: Date) {
+    const PurgeQuery = `
+      DELETE FROM job_queue
+        WHERE queue = ?
+        AND status = ?
+        AND completedAt < ?`;
+    const stmt = this.db.prepare(PurgeQuery);
+    const result = stmt.run(this.queue, JobStatus.FAILED, toSQLiteTimestamp(olderThan));
+    return result.changes;
+  }
+
+  protected async cleanupJobs(
+    { status, finishedBefore, keepLatest }: JobCleanupFilter,
+    stripPayloads: boolean
+  ) {
+    const limits: string[] = [];
+    const params: Array<string | number> = [this.queue, status];
+    if (finishedBefore) {
+      limits.push("completedAt <= ?");
+      params.push(toSQLiteTimestamp(finishedBefore)!);
+    }
+    if (keepLatest !== undefined) {
+      limits.push(`id NOT IN (
+          SELECT id
+            FROM job_queue
+            WHERE queue = ? AND status = ?
+            ORDER BY completedAt DESC, id DESC
+            LIMIT ?)`);
+      params.push(this.queue, status, keepLatest);
+    }
+    if (limits.length === 0) return 0;
+    const ExpiredCondition = `
+        queue = ?
+        AND status = ?
+        ${stripPayloads ? "AND fingerprint != ''" : ""}
+        AND (${limits.join(" OR ")})
+        AND NOT EXISTS (
+          SELECT 1
+            FROM job_queue AS dependent, json_each(dependent.dependsOn) AS dependency
+            WHERE dependent.queue = job_queue.queue
+            AND dependent.status IN ('${JobStatus.PENDING}', '${JobStatus.PROCESSING}')
+            AND dependency.value = job_queue.id
+        )`;
+    const CleanupQuery = stripPayloads
+      ? `UPDATE job_queue SET input = '{}', output = NULL, fingerprint = '' WHERE ${ExpiredCondition}`
+      : `DELETE FROM job_queue WHERE ${ExpiredCondition}`;
+    const result = this.db.prepare(CleanupQuery).run(...params);
+    return result.changes;
+  }
+
   public async deleteAll() {
     const ClearQuery = `
       DELETE FROM job_queue
         WHERE queue = ?`;
-    const stmt = this.db.prepare(ClearQuery);
-    stmt.run(this.queue);
+    const ClearRunsQuery = `
+      DELETE FROM job_queue_run
+        WHERE queue = ?`;
+    this.db.prepare(ClearQuery).run(this.queue);
+    this.db.prepare(ClearRunsQuery).run(this.queue);
     await this.limiter.clear();
   }
 
@@ -402,6 +722,213 @@ export class SqliteJobQueue<Input, Output> extends JobQueue<Input, Output> {
     return result?.output ? JSON.parse(result.output) : null;
   }
 
+  /**
+   * Retrieves pending jobs that have a failed dependency and should fail with it.
+   * @returns An array of jobs
+   */
+  public async dependencyFailed() {
+    const DependencyFailedQuery = `
+      SELECT *
+        FROM job_queue
+        WHERE queue = ?
+        AND status = ?
+        AND onDependencyFailure = 'fail'
+        AND EXISTS (
+          SELECT 1
+            FROM json_each(job_queue.dependsOn) AS dependency
+            JOIN job_queue AS parent
+              ON parent.id = dependency.value AND parent.queue = job_queue.queue
+            WHERE parent.status = ?
+        )`;
+    const stmt = this.db.prepare(DependencyFailedQuery);
+    const result = stmt.all(this.queue, JobStatus.PENDING, JobStatus.FAILED) as any[];
+    const ret: Array<Job<Input, Output>> = [];
+    for (const job of result || []) ret.push(this.createNewJob(job));
+    return ret;
+  }
+
+  /**
+   * Retrieves processing jobs whose last heartbeat is older than the given date.
+   * @param olderThan - Jobs without a heartbeat since this date are returned
+   * @returns An array of jobs
+   */
+  public async stalled(olderThan: Date) {
+    const StalledQuery = `
+      SELECT *
+        FROM job_queue
+        WHERE queue = ?
+        AND status = ?
+        AND COALESCE(lastHeartbeatAt, createdAt) < ?`;
+    const stmt = this.db.prepare(StalledQuery);
+    const result = stmt.all(
+      this.queue,
+      JobStatus.PROCESSING,
+      toSQLiteTimestamp(olderThan)
+    ) as any[];
+    const ret: Array<Job<Input, Output>> = [];
+    for (const job of result || []) ret.push(this.createNewJob(job));
+    return ret;
+  }
+
+  /**
+   * Lists the schedules of the queue.
+   * @returns An array of schedules
+   */
+  public async listSchedules() {
+    const ListSchedulesQuery = `
+      SELECT *
+        FROM job_schedule
+        WHERE queue = ?
+        ORDER BY createdAt, id`;
+    const stmt = this.db.prepare(ListSchedulesQuery);
+    const result = stmt.all(this.queue) as any[];
+    return (result || []).map((schedule) => this.createNewSchedule(schedule));
+  }
+
+  /**
+   * Retrieves a schedule by its ID.
+   * @param id - The ID of the schedule to retrieve
+   * @returns The schedule or undefined if not found
+   */
+  public async getSchedule(id: string) {
+    const GetScheduleQuery = `
+      SELECT *
+        FROM job_schedule
+        WHERE queue = ? AND id = ?`;
+    const stmt = this.db.prepare(GetScheduleQuery);
+    const result = stmt.get(this.queue, id) as any;
+    return result ? this.createNewSchedule(result) : undefined;
+  }
+
+  /**
+   * Deletes a schedule.
+   * @param id - The ID of the schedule to delete
+   */
+  public async deleteSchedule(id: string) {
+    const DeleteScheduleQuery = `
+      DELETE FROM job_schedule
+        WHERE queue = ? AND id = ?`;
+    const stmt = this.db.prepare(DeleteScheduleQuery);
+    stmt.run(this.queue, id);
+  }
+
+  /**
+   * Implements the abstract saveSchedule method from JobQueue.
+   * Dates are stored as ISO strings as schedules need better than second resolution.
+   */
+  protected async saveSchedule(schedule: JobSchedule<Input>) {
+    const SaveScheduleQuery = `
+      INSERT INTO job_schedule(id, queue, cron, intervalMs, timezone, input, overlap, priority, maxRetries, paused, nextRunAt, lastRunAt, lastJobId, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(queue, id) DO UPDATE SET
+          cron = excluded.cron,
+          intervalMs = excluded.intervalMs,
+          timezone = excluded.timezone,
+          input = excluded.input,
+          overlap = excluded.overlap,
+          priority = excluded.priority,
+          maxRetries = excluded.maxRetries,
+          paused = excluded.paused,
+          nextRunAt = excluded.nextRunAt,
+          lastRunAt = excluded.lastRunAt,
+          lastJobId = excluded.lastJobId`;
+    const stmt = this.db.prepare(SaveScheduleQuery);
+    stmt.run(
+      schedule.id,
+      this.queue,
+      schedule.cron,
+      schedule.intervalMs,
+      schedule.timezone,
+      JSON.stringify(schedule.input),
+      schedule.overlap,
+      schedule.priority,
+      schedule.maxRetries,
+      schedule.paused ? 1 : 0,
+      schedule.nextRunAt.toISOString(),
+      schedule.lastRunAt?.toISOString() ?? null,
+      schedule.lastJobId != null ? JSON.stringify(schedule.lastJobId) : null,
+      schedule.createdAt.toISOString()
+    );
+  }
+
+  /**
+   * Implements the abstract claimSchedule method from JobQueue
+   */
+  protected async claimSchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date) {
+    const ClaimScheduleQuery = `
+      UPDATE job_schedule
+        SET nextRunAt = ?
+        WHERE queue = ? AND id = ? AND nextRunAt = ? AND paused = 0`;
+    const stmt = this.db.prepare(ClaimScheduleQuery);
+    const result = stmt.run(
+      nextRunAt.toISOString(),
+      this.queue,
+      id,
+      expectedNextRunAt.toISOString()
+    );
+    return result.changes === 1;
+  }
+
+  /**
+   * Implements the abstract saveRun method from JobQueue.
+   * The finish time is stored as an ISO string as run durations need better than second
+   * resolution.
+   */
+  protected async saveRun(run: JobRunRecord) {
+    const PruneRunsQuery = `
+      DELETE FROM job_queue_run
+        WHERE queue = ? AND finishedAt < ?`;
+    const SaveRunQuery = `
+      INSERT INTO job_queue_run(queue, jobId, outcome, errorCode, durationMs, finishedAt)
+        VALUES (?, ?, ?, ?, ?, ?)`;
+    const threshold = new Date(run.finishedAt.getTime() - this.runHistoryMs);
+    this.db.transaction(() => {
+      this.db.prepare(PruneRunsQuery).run(this.queue, threshold.toISOString());
+      this.db
+        .prepare(SaveRunQuery)
+        .run(
+          this.queue,
+          JSON.stringify(run.jobId),
+          run.outcome,
+          run.errorCode,
+          run.durationMs,
+          run.finishedAt.toISOString()
+        );
+    })();
+  }
+
+  /**
+   * Implements the abstract listRuns method from JobQueue
+   */
+  protected async listRuns(since: Date) {
+    const ListRunsQuery = `
+      SELECT jobId, outcome, errorCode, durationMs, finishedAt
+        FROM job_queue_run
+        WHERE queue = ? AND finishedAt >= ?
+        ORDER BY finishedAt`;
+    const stmt = this.db.prepare(ListRunsQuery);
+    const result = stmt.all(this.queue, since.toISOString()) as any[];
+    return (result || []).map((run) => ({
+      jobId: run.jobId != null ? JSON.parse(run.jobId) : null,
+      outcome: run.outcome,
+      errorCode: run.errorCode ?? null,
+      durationMs: Number(run.durationMs),
+      finishedAt: new Date(run.finishedAt),
+    }));
+  }
+
+  /**
+   * Implements the abstract saveHeartbeat method from JobQueue
+   */
+  protected async saveHeartbeat(jobId: unknown): Promise<void> {
+    const HeartbeatQuery = `
+      UPDATE job_queue
+        SET lastHeartbeatAt = CURRENT_TIMESTAMP
+        WHERE id = ? AND queue = ? AND status = ?`;
+    const stmt = this.db.prepare(HeartbeatQuery);
+    stmt.run(String(jobId), this.queue, JobStatus.PROCESSING);
+  }
+
   /**
    * Implements the abstract saveProgress method from JobQueue
    */
@@ -0,0 +1,130 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { type Database } from "better-sqlite3";
+import { ILimiter } from "ellmers-core";
+
+/**
+ * SQLite implementation of a token bucket limiter, shared by all processes using the
+ * database. The bucket holds up to `capacity` tokens for bursts and refills at a steady
+ * rate. A job starts once a whole token is available and takes its cost out of the bucket.
+ */
+export class SqliteTokenBucketLimiter implements ILimiter {
+  private readonly db: Database;
+  private readonly queueName: string;
+  private readonly capacity: number;
+  private readonly refillPerMillisecond: number;
+
+  constructor(db: Database, queueName: string, capacity: number, refillPerMinute: number) {
+    this.db = db;
+    this.queueName = queueName;
+    this.capacity = capacity;
+    this.refillPerMillisecond = refillPerMinute / (60 * 1000);
+  }
+
+  async clear() {
+    this.db.prepare("DELETE FROM job_queue_token_bucket WHERE queue_name = ?").run(this.queueName);
+    this.db
+      .prepare("DELETE FROM job_queue_next_available WHERE queue_name = ?")
+      .run(this.queueName);
+  }
+
+  public ensureTableExists() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_queue_token_bucket (
+        queue_name TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_queue_next_available (
+        queue_name TEXT PRIMARY KEY,
+        next_available_at TEXT
+      );
+    `);
+    return this;
+  }
+
+  /**
+   * Tokens in the bucket at the given time, a full bucket when it has not been used yet
+   */
+  private tokensAt(now: number): number {
+    const result = this.db
+      .prepare(
+        `
+      SELECT tokens, updated_at
+      FROM job_queue_token_bucket
+      WHERE queue_name = ?`
+      )
+      .get(this.queueName) as { tokens: number; updated_at: string } | undefined;
+    if (!result) return this.capacity;
+    const elapsed = Math.max(0, now - new Date(result.updated_at).getTime());
+    return Math.min(this.capacity, result.tokens + elapsed * this.refillPerMillisecond);
+  }
+
+  private externalNextAvailableTime(): Date | undefined {
+    const result = this.db
+      .prepare(
+        `
+      SELECT next_available_at
+      FROM job_queue_next_available
+      WHERE queue_name = ?`
+      )
+      .get(this.queueName) as { next_available_at: string | null } | undefined;
+    return result?.next_available_at ? new Date(result.next_available_at) : undefined;
+  }
+
+  async canProceed(): Promise<boolean> {
+    const now = Date.now();
+    const nextAvailableTime = this.externalNextAvailableTime();
+    if (nextAvailableTime && nextAvailableTime.getTime() > now) {
+      return false;
+    }
+    return this.tokensAt(now) >= 1;
+  }
+
+  async recordJobStart(cost: number = 1): Promise<void> {
+    // read and write in one transaction so concurrent processes do not overdraw the bucket
+    this.db.transaction(() => {
+      const now = Date.now();
+      const tokens = this.tokensAt(now) - cost;
+      this.db
+        .prepare(
+          `
+        INSERT INTO job_queue_token_bucket (queue_name, tokens, updated_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(queue_name) DO UPDATE SET
+          tokens = excluded.tokens,
+          updated_at = excluded.updated_at`
+        )
+        .run(this.queueName, tokens, new Date(now).toISOString());
+    })();
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, tokens are taken when a job starts
+  }
+
+  async getNextAvailableTime(): Promise<Date> {
+    const now = Date.now();
+    const refilledAt = now + Math.max(0, 1 - this.tokensAt(now)) / this.refillPerMillisecond;
+    const nextAvailableTime = this.externalNextAvailableTime()?.getTime() ?? now;
+    return new Date(Math.max(refilledAt, nextAvailableTime));
+  }
+
+  async setNextAvailableTime(date: Date): Promise<void> {
+    this.db
+      .prepare(
+        `
+        INSERT INTO job_queue_next_available (queue_name, next_available_at)
+        VALUES (?, ?)
+        ON CONFLICT(queue_name) DO UPDATE SET next_available_at = excluded.next_available_at`
+      )
+      .run(this.queueName, date.toISOString());
+  }
+}
@@ -1,5 +1,8 @@
 export { getDatabase } from "../../util/db_sqlite";
 export * from "./SqliteJobQueue";
+export * from "./SqliteTokenBucketLimiter";
+export * from "./SqliteCostLimiter";
 export * from "./SqliteTaskGraphRepository";
 export * from "./SqliteTaskOutputRepository";
 export * from "./SqliteModelRepository";
+export * from "./SqliteGraphRunRepository";
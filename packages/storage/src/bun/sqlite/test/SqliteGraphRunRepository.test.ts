@@ -0,0 +1,17 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { SqliteGraphRunRepository } from "../SqliteGraphRunRepository";
+import { runGenericGraphRunRepositoryTests } from "../../../test/genericGraphRunRepositoryTests";
+import { nanoid } from "nanoid";
+import { describe } from "bun:test";
+
+describe("SqliteGraphRunRepository", () => {
+  runGenericGraphRunRepositoryTests(
+    async () => new SqliteGraphRunRepository(":memory:", `graph_run_test_${nanoid()}`)
+  );
+});
@@ -0,0 +1,40 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe } from "bun:test";
+import { nanoid } from "nanoid";
+import {
+  runGenericCostLimiterTests,
+  runGenericTokenBucketLimiterTests,
+} from "../../../test/genericLimiterTests";
+import { SqliteTokenBucketLimiter } from "../SqliteTokenBucketLimiter";
+import { SqliteCostLimiter } from "../SqliteCostLimiter";
+import { getDatabase } from "../../../util/db_sqlite";
+
+const db = getDatabase(":memory:");
+
+describe("SqliteTokenBucketLimiter", () => {
+  runGenericTokenBucketLimiterTests((capacity, refillPerMinute) =>
+    new SqliteTokenBucketLimiter(
+      db,
+      `sqlite_test_queue_${nanoid()}`,
+      capacity,
+      refillPerMinute
+    ).ensureTableExists()
+  );
+});
+
+describe("SqliteCostLimiter", () => {
+  runGenericCostLimiterTests((maxCost, windowSizeInMinutes) =>
+    new SqliteCostLimiter(
+      db,
+      `sqlite_test_queue_${nanoid()}`,
+      maxCost,
+      windowSizeInMinutes
+    ).ensureTableExists()
+  );
+});
@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { GraphRunRepository } from "ellmers-core";
+import { FileKVRepository } from "./base/FileKVRepository";
+
+/**
+ * File-based implementation of a graph run repository.
+ * Provides storage and retrieval for graph run checkpoints using a file system.
+ */
+export class FileGraphRunRepository extends GraphRunRepository {
+  kvRepository: FileKVRepository;
+  public type = "FileGraphRunRepository" as const;
+  constructor(folderPath: string) {
+    super();
+    this.kvRepository = new FileKVRepository(folderPath);
+  }
+}
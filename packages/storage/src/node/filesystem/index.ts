@@ -1,2 +1,3 @@
 export * from "./FileTaskGraphRepository";
 export * from "./FileTaskOutputRepository";
+export * from "./FileGraphRunRepository";
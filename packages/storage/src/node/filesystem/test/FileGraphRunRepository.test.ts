@@ -0,0 +1,20 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { FileGraphRunRepository } from "../FileGraphRunRepository";
+import { runGenericGraphRunRepositoryTests } from "../../../test/genericGraphRunRepositoryTests";
+import { rmdirSync } from "node:fs";
+import { describe } from "bun:test";
+
+describe("FileGraphRunRepository", () => {
+  runGenericGraphRunRepositoryTests(async () => {
+    try {
+      rmdirSync(".cache/test/file-graph-run", { recursive: true });
+    } catch {}
+    return new FileGraphRunRepository(".cache/test/file-graph-run");
+  });
+});
@@ -0,0 +1,129 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { ILimiter } from "ellmers-core";
+import { Sql } from "postgres";
+
+/**
+ * PostgreSQL implementation of a cost-based rate limiter, shared by all processes using the
+ * database. It sums the cost each job declares (see Job.cost()) over a sliding window, and
+ * starts jobs while the window is under budget.
+ */
+export class PostgresCostLimiter implements ILimiter {
+  private readonly windowSizeInMilliseconds: number;
+
+  constructor(
+    protected readonly sql: Sql,
+    private readonly queueName: string,
+    private readonly maxCost: number,
+    windowSizeInMinutes: number
+  ) {
+    this.windowSizeInMilliseconds = windowSizeInMinutes * 60 * 1000;
+  }
+
+  public ensureTableExists() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS job_cost_limit (
+        id bigserial NOT NULL,
+        queue_name text NOT NULL,
+        cost double precision NOT NULL DEFAULT 0,
+        attempted_at timestamp with time zone DEFAULT now(),
+        next_available_at timestamp with time zone DEFAULT now()
+      );
+    `;
+    return this;
+  }
+
+  async clear(): Promise<void> {
+    await this.sql`DELETE FROM job_cost_limit WHERE queue_name = ${this.queueName}`;
+  }
+
+  /**
+   * Checks if a job can proceed, which needs the cost spent within the window to be under
+   * budget.
+   * @returns True if the job can proceed, false otherwise
+   */
+  async canProceed(): Promise<boolean> {
+    const now = new Date();
+    const attemptedAtThreshold = new Date(now.getTime() - this.windowSizeInMilliseconds);
+
+    const result = await this.sql`
+      SELECT
+        COALESCE(SUM(cost) FILTER (WHERE attempted_at > ${attemptedAtThreshold}), 0) AS spent,
+        MAX(next_available_at) AS latest_next_available_at
+      FROM job_cost_limit
+      WHERE queue_name = ${this.queueName}
+        AND (attempted_at > ${attemptedAtThreshold} OR next_available_at > now())
+    `;
+
+    const { spent, latest_next_available_at } = result[0];
+    if (Number(spent) >= this.maxCost) {
+      return false;
+    }
+    if (latest_next_available_at && new Date(latest_next_available_at) > now) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Records the cost of a new job attempt.
+   */
+  async recordJobStart(cost: number = 1): Promise<void> {
+    await this.sql`
+      INSERT INTO job_cost_limit (queue_name, cost)
+      VALUES (${this.queueName}, ${cost})
+    `;
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, the cost is counted when a job starts
+  }
+
+  /**
+   * Retrieves when enough cost has left the window for the specific queue.
+   * @returns The next available time
+   */
+  async getNextAvailableTime(): Promise<Date> {
+    const now = Date.now();
+    const attemptedAtThreshold = new Date(now - this.windowSizeInMilliseconds);
+    const result = await this.sql`
+      SELECT cost, attempted_at, next_available_at
+      FROM job_cost_limit
+      WHERE queue_name = ${this.queueName}
+        AND (attempted_at > ${attemptedAtThreshold} OR next_available_at > now())
+      ORDER BY attempted_at ASC
+    `;
+
+    let spent = 0;
+    let nextAvailableTime = now;
+    for (const row of result) {
+      if (row.attempted_at > attemptedAtThreshold) spent += Number(row.cost);
+      nextAvailableTime = Math.max(nextAvailableTime, new Date(row.next_available_at).getTime());
+    }
+    let availableAt = now;
+    // expire the oldest attempts until the window is under budget again
+    for (const row of result) {
+      if (spent < this.maxCost) break;
+      if (!(row.attempted_at > attemptedAtThreshold)) continue;
+      spent -= Number(row.cost);
+      availableAt = new Date(row.attempted_at).getTime() + this.windowSizeInMilliseconds;
+    }
+    return new Date(Math.max(availableAt, nextAvailableTime));
+  }
+
+  /**
+   * Sets the next available time for the specific queue.
+   * @param date - The new next available time
+   */
+  async setNextAvailableTime(date: Date): Promise<void> {
+    await this.sql`
+      INSERT INTO job_cost_limit (queue_name, cost, next_available_at)
+      VALUES (${this.queueName}, 0, ${date})
+    `;
+  }
+}
@@ -0,0 +1,22 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { GraphRunRepository } from "ellmers-core";
+import { PostgresKVRepository } from "./base/PostgresKVRepository";
+
+/**
+ * PostgreSQL implementation of a graph run repository.
+ * Provides storage and retrieval for graph run checkpoints using PostgreSQL.
+ */
+export class PostgresGraphRunRepository extends GraphRunRepository {
+  kvRepository: PostgresKVRepository;
+  public type = "PostgresGraphRunRepository" as const;
+  constructor(connectionString: string) {
+    super();
+    this.kvRepository = new PostgresKVRepository(connectionString, "graph_runs");
+  }
+}
@@ -0,0 +1,44 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { Sql } from "postgres";
+import { IJobNotifier, JobNotification, JobNotificationListener } from "ellmers-core";
+
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more */
+const MAX_PAYLOAD_LENGTH = 7900;
+
+/**
+ * PostgreSQL implementation of a job notifier using LISTEN/NOTIFY, so queues in other
+ * processes on the same database hear each other
+ */
+export class PostgresJobNotifier implements IJobNotifier {
+  public readonly pushes = true;
+
+  constructor(
+    protected readonly sql: Sql,
+    private readonly channel: string = "job_queue"
+  ) {}
+
+  async notify(notification: JobNotification): Promise<void> {
+    let payload = JSON.stringify(notification);
+    if (payload.length > MAX_PAYLOAD_LENGTH && notification.type === "job_progress") {
+      // progress details are nice to have, the progress itself is not
+      payload = JSON.stringify({ ...notification, details: null });
+    }
+    await this.sql.notify(this.channel, payload);
+  }
+
+  async subscribe(queue: string, listener: JobNotificationListener): Promise<() => void> {
+    const { unlisten } = await this.sql.listen(this.channel, (payload) => {
+      const notification = JSON.parse(payload) as JobNotification;
+      if (notification.queue === queue) listener(notification);
+    });
+    return () => {
+      unlisten().catch((error) => console.error(`Error unlistening ${this.channel}: ${error}`));
+    };
+  }
+}
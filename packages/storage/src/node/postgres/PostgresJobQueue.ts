@@ -13,9 +13,16 @@ import {
   ILimiter,
   RetryableJobError,
   JobError,
+  JobCleanupFilter,
+  JobQueueAddOptions,
+  JobQueueFailedFilter,
+  JobQueueRequeueOptions,
+  JobSchedule,
+  JobRunRecord,
   PermanentJobError,
 } from "ellmers-core";
 import { makeFingerprint } from "../../util/Misc";
+import { PostgresJobNotifier } from "./PostgresJobNotifier";
 import { nanoid } from "nanoid";
 
 // TODO: prepared statements
@@ -33,6 +40,7 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
     waitDurationInMilliseconds = 100
   ) {
     super(queue, limiter, jobClass, waitDurationInMilliseconds);
+    this.notifier = new PostgresJobNotifier(sql);
   }
 
   public ensureTableExists() {
@@ -46,9 +54,17 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
       input jsonb NOT NULL,
       output jsonb,
       retries integer default 0,
-      maxRetries integer default 23,
+      maxRetries integer default 10,
+      priority integer default 0,
+      timeoutMs integer,
+      batchKey text,
+      dependsOn jsonb,
+      dependencyInputs jsonb,
+      onDependencyFailure text default 'fail',
       runAfter timestamp with time zone DEFAULT now(),
       lastRanAt timestamp with time zone,
+      completedAt timestamp with time zone,
+      lastHeartbeatAt timestamp with time zone,
       createdAt timestamp with time zone DEFAULT now(),
       deadlineAt timestamp with time zone,
       error text,
@@ -57,36 +73,103 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
       progressMessage text DEFAULT '',
       progressDetails jsonb
     );
+
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS priority integer default 0;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS completedAt timestamp with time zone;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS lastHeartbeatAt timestamp with time zone;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS dependsOn jsonb;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS dependencyInputs jsonb;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS onDependencyFailure text default 'fail';
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS timeoutMs integer;
+    ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS batchKey text;
     
     CREATE INDEX IF NOT EXISTS job_fetcher_idx ON job_queue (id, status, runAfter);
     CREATE INDEX IF NOT EXISTS job_queue_fetcher_idx ON job_queue (queue, status, runAfter);
-    CREATE UNIQUE INDEX IF NOT EXISTS jobs_fingerprint_unique_idx ON job_queue (queue, fingerprint, status) WHERE NOT (status = 'COMPLETED');
+    CREATE INDEX IF NOT EXISTS job_queue_priority_idx ON job_queue (queue, status, priority);
+    DROP INDEX IF EXISTS jobs_fingerprint_unique_idx;
+    CREATE INDEX IF NOT EXISTS job_queue_fingerprint_idx ON job_queue (queue, fingerprint, status);
+
+    CREATE TABLE IF NOT EXISTS job_schedule (
+      id text NOT NULL,
+      queue text NOT NULL,
+      cron text,
+      intervalMs bigint,
+      timezone text,
+      input jsonb NOT NULL,
+      overlap text NOT NULL DEFAULT 'skip',
+      priority integer DEFAULT 0,
+      maxRetries integer,
+      paused boolean DEFAULT false,
+      nextRunAt timestamp with time zone NOT NULL,
+      lastRunAt timestamp with time zone,
+      lastJobId jsonb,
+      createdAt timestamp with time zone DEFAULT now(),
+      PRIMARY KEY (queue, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS job_queue_run (
+      id bigserial NOT NULL,
+      queue text NOT NULL,
+      jobId jsonb,
+      outcome text NOT NULL,
+      errorCode text,
+      durationMs integer NOT NULL,
+      finishedAt timestamp with time zone NOT NULL DEFAULT now()
+    );
+
+    CREATE INDEX IF NOT EXISTS job_queue_run_finishedAt_idx ON job_queue_run (queue, finishedAt);
     `;
     return this;
   }
 
   /**
-   * Adds a new job to the queue.
+   * Adds a new job to the queue, unless the dedupe policy finds one with the same input.
    * @param job - The job to add
-   * @returns The ID of the added job
+   * @param options - The dedupe policy
+   * @returns The ID of the added job, or of the existing one, and which of the two it is
    */
-  public async add(job: Job<Input, Output>) {
-    job.queueName = this.queue;
-    job.jobRunId = job.jobRunId ?? nanoid();
+  public async addJob(job: Job<Input, Output>, options: JobQueueAddOptions = {}) {
     const fingerprint = await makeFingerprint(job.input);
-    job.progress = 0;
-    job.progressMessage = "";
-    job.progressDetails = null;
-    job.queue = this;
+    const statuses = this.dedupeStatuses(options);
 
-    return await this.sql.begin(async (sql) => {
-      const jobid = await sql`
+    let added = false;
+    const jobid = await this.sql.begin(async (sql) => {
+      if (statuses.length) {
+        // serializes the adds of the same input, so only one of them inserts
+        await sql`SELECT pg_advisory_xact_lock(hashtext(${this.queue + ":" + fingerprint}))`;
+        for (const status of statuses) {
+          const result = await sql`
+            SELECT id
+              FROM job_queue
+              WHERE queue = ${this.queue} AND fingerprint = ${fingerprint} AND status = ${status}
+              ORDER BY id DESC
+              LIMIT 1`;
+          const duplicate = result[0]?.rows[0];
+          if (duplicate) return duplicate.id;
+        }
+      }
+
+      job.queueName = this.queue;
+      job.jobRunId = job.jobRunId ?? nanoid();
+      job.fingerprint = fingerprint;
+      job.progress = 0;
+      job.progressMessage = "";
+      job.progressDetails = null;
+      job.queue = this;
+
+      const result = await sql`
         INSERT INTO job_queue(
           queue, 
           fingerprint, 
           input, 
           runAfter, 
           maxRetries, 
+          priority, 
+          timeoutMs, 
+          batchKey, 
+          dependsOn, 
+          dependencyInputs, 
+          onDependencyFailure, 
           jobRunId, 
           progress, 
           progressMessage, 
@@ -98,16 +181,29 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
           ${job.input as any}::jsonb, 
           ${job.createdAt.toISOString()}, 
           ${job.maxRetries}, 
+          ${job.priority}, 
+          ${job.timeoutMs}, 
+          ${job.batchKey()}, 
+          ${job.dependsOn.length ? (job.dependsOn as any) : null}::jsonb, 
+          ${Object.keys(job.dependencyInputs).length ? (job.dependencyInputs as any) : null}::jsonb, 
+          ${job.onDependencyFailure}, 
           ${job.jobRunId!},
           ${job.progress},
           ${job.progressMessage},
           ${job.progressDetails as any}::jsonb
         )
         RETURNING id`;
+      const jobid = result[0].rows[0].id;
       this.createAbortController(jobid);
       job.id = jobid;
+      added = true;
       return jobid;
     });
+    // only once committed, so the workers told about it can see it
+    if (added) {
+      this.onAdded(jobid);
+    }
+    return { id: jobid as unknown, deduped: !added };
   }
 
   /**
@@ -118,7 +214,7 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
   public async get(id: number) {
     return await this.sql.begin(async (sql) => {
       const result = await sql`
-        SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, runAfter, lastRanAt, createdAt, error, jobRunId
+        SELECT id, fingerprint, queue, status, deadlineAt, input, output, retries, maxRetries, priority, timeoutMs, runAfter, lastRanAt, completedAt, lastHeartbeatAt, createdAt, error, errorCode, jobRunId
           FROM job_queue
           WHERE id = ${id}
           FOR UPDATE SKIP LOCKED
@@ -136,7 +232,7 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
     num = Number(num) || 100; // TS does not validate, so ensure it is a number
     return await this.sql.begin(async (sql) => {
       const result = await sql`
-      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, runAfter, lastRanAt, createdAt, error, jobRunId
+      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, priority, timeoutMs, runAfter, lastRanAt, completedAt, lastHeartbeatAt, createdAt, error, jobRunId
         FROM job_queue
         WHERE queue = ${this.queue}
         AND status = 'NEW'
@@ -157,7 +253,7 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
   public async processing() {
     return await this.sql.begin(async (sql) => {
       const result = await sql`
-      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, runAfter, lastRanAt, createdAt, error, jobRunId
+      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, priority, timeoutMs, runAfter, lastRanAt, completedAt, lastHeartbeatAt, createdAt, error, jobRunId
         FROM job_queue
         WHERE queue = ${this.queue}
         AND status = 'PROCESSING'`;
@@ -174,7 +270,7 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
   public async aborting() {
     return await this.sql.begin(async (sql) => {
       const result = await sql`
-      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, runAfter, lastRanAt, createdAt, error, jobRunId  
+      SELECT id, fingerprint, queue, status, deadlineAt, input, retries, maxRetries, priority, timeoutMs, runAfter, lastRanAt, completedAt, lastHeartbeatAt, createdAt, error, jobRunId  
         FROM job_queue
         WHERE queue = ${this.queue}
         AND status = 'ABORTING'`;
@@ -186,23 +282,54 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
 
   /**
    * Retrieves the next available job that is ready to be processed.
+   * Jobs are picked by priority (highest first), then oldest first. In fair-share
+   * mode the job runs with pending jobs take turns.
    * @returns The next job or undefined if no job is available
    */
   public async next() {
     return await this.sql.begin(async (sql) => {
-      const result = await sql`
-        SELECT id
-          FROM job_queue
-          WHERE queue = ${this.queue}
-          AND status = ${JobStatus.PENDING}
-          AND runAfter <= NOW()
-          FOR UPDATE SKIP LOCKED
-          LIMIT 1`;
+      const dependenciesDone = this.dependenciesDone(sql);
+      let jobRunId: string | undefined;
+      if (this.fairShare) {
+        const runs = await sql`
+          SELECT jobRunId AS "jobRunId", MAX(priority) AS priority
+            FROM job_queue
+            WHERE queue = ${this.queue}
+            AND status = ${JobStatus.PENDING}
+            AND runAfter <= NOW()
+            AND ${dependenciesDone}
+            GROUP BY jobRunId
+            ORDER BY MIN(id) ASC`;
+        jobRunId = this.nextFairShareJobRunId(runs[0]?.rows ?? []);
+        if (!jobRunId) return undefined;
+      }
+      const result = jobRunId
+        ? await sql`
+          SELECT id
+            FROM job_queue
+            WHERE queue = ${this.queue}
+            AND status = ${JobStatus.PENDING}
+            AND runAfter <= NOW()
+            AND ${dependenciesDone}
+            AND jobRunId = ${jobRunId}
+            ORDER BY priority DESC, createdAt ASC, id ASC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED`
+        : await sql`
+          SELECT id
+            FROM job_queue
+            WHERE queue = ${this.queue}
+            AND status = ${JobStatus.PENDING}
+            AND runAfter <= NOW()
+            AND ${dependenciesDone}
+            ORDER BY priority DESC, createdAt ASC, id ASC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED`;
       if (!result) return undefined;
       const id = result[0].rows[0].id;
       const jobresult = await sql`
         UPDATE job_queue 
-          SET status = ${JobStatus.PROCESSING}
+          SET status = ${JobStatus.PROCESSING}, lastHeartbeatAt = NOW()
           WHERE id = ${id} AND queue = ${this.queue}
           RETURNING *`;
       const job = this.createNewJob(jobresult[0].rows[0]);
@@ -211,6 +338,54 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
     });
   }
 
+  /**
+   * Matches jobs whose dependencies are all done: completed, or also failed when the job
+   * runs regardless of failed dependencies
+   */
+  private dependenciesDone(sql: Sql) {
+    return sql`
+      NOT EXISTS (
+        SELECT 1
+          FROM jsonb_array_elements_text(job_queue.dependsOn) AS dependency(value)
+          LEFT JOIN job_queue AS parent
+            ON parent.id = dependency.value::bigint AND parent.queue = job_queue.queue
+          WHERE parent.status IS NULL
+          OR NOT (
+            parent.status = 'COMPLETED'
+            OR (parent.status = 'FAILED' AND job_queue.onDependencyFailure = 'run')
+          )
+      )`;
+  }
+
+  /**
+   * Claims up to `limit` ready jobs with the given batch key.
+   * @param batchKey - The batch key the jobs must have
+   * @param limit - The maximum number of jobs to claim
+   * @returns The claimed jobs
+   */
+  public async nextBatch(batchKey: string, limit: number) {
+    if (limit <= 0) return [];
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        UPDATE job_queue
+          SET status = ${JobStatus.PROCESSING}, lastHeartbeatAt = NOW()
+          WHERE id IN (
+            SELECT id
+              FROM job_queue
+              WHERE queue = ${this.queue}
+              AND status = ${JobStatus.PENDING}
+              AND batchKey = ${batchKey}
+              AND runAfter <= NOW()
+              AND ${this.dependenciesDone(sql)}
+              ORDER BY priority DESC, createdAt ASC, id ASC
+              LIMIT ${limit}
+              FOR UPDATE SKIP LOCKED
+          )
+          RETURNING *`;
+      return result[0].rows.map((r: any) => this.createNewJob(r));
+    });
+  }
+
   /**
    * Retrieves the number of jobs in the queue with a specific status.
    * @param status - The status of the jobs to count
@@ -246,13 +421,13 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
       job.error = error.message;
       job.errorCode = error.name;
       job.retries = (job.retries || 0) + 1;
-      if (error instanceof RetryableJobError) {
-        if (job.retries >= job.maxRetries) {
+      if (error instanceof RetryableJobError && error.retryable) {
+        if (!this.canRetry(job)) {
           job.status = JobStatus.FAILED;
           job.completedAt = new Date();
         } else {
           job.status = JobStatus.PENDING;
-          job.runAfter = error.retryDate;
+          job.runAfter = this.retryDateFor(error, job.retries);
           job.progress = 0;
         }
       } else if (error instanceof PermanentJobError) {
@@ -292,8 +467,9 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
               error = ${job.error}, 
               errorCode = ${job.errorCode},
               status = ${job.status}, 
-              retries = retries + 1, 
+              retries = ${job.retries}, 
               lastRanAt = NOW(),
+              completedAt = ${job.completedAt?.toISOString() ?? null},
               progress = ${job.progress},
               progressMessage = '',
               progressDetails = NULL
@@ -314,6 +490,9 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
       await sql`
       DELETE FROM job_queue
         WHERE queue = ${this.queue}`;
+      await sql`
+      DELETE FROM job_queue_run
+        WHERE queue = ${this.queue}`;
     });
   }
 
@@ -333,6 +512,111 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
     });
   }
 
+  /**
+   * Lists permanently failed jobs, most recent failures first.
+   * @param filter - Optional error code, earliest failure date and limit
+   * @returns An array of jobs
+   */
+  public async listFailed({ errorCode, since, limit = 100 }: JobQueueFailedFilter = {}) {
+    const max = Number.isFinite(Number(limit)) ? Number(limit) : null; // LIMIT NULL is no limit
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+      SELECT *
+        FROM job_queue
+        WHERE queue = ${this.queue}
+        AND status = ${JobStatus.FAILED}
+        AND (${errorCode ?? null}::text IS NULL OR errorCode = ${errorCode ?? null})
+        AND (${since?.toISOString() ?? null}::timestamptz IS NULL OR completedAt >= ${since?.toISOString() ?? null})
+        ORDER BY completedAt DESC, id DESC
+        LIMIT ${max}`;
+      return result[0].rows.map((r: any) => this.createNewJob(r));
+    });
+  }
+
+  /**
+   * Puts a failed job back in the queue to run as soon as possible.
+   * @param jobId - The ID of the failed job
+   * @param options - Whether to reset the retry count
+   */
+  public async requeue(jobId: number, { resetRetries = false }: JobQueueRequeueOptions = {}) {
+    await this.sql.begin(async (sql) => {
+      const result = await sql`
+        UPDATE job_queue
+          SET status = ${JobStatus.PENDING},
+              runAfter = NOW(),
+              completedAt = NULL,
+              error = NULL,
+              errorCode = NULL,
+              progress = 0,
+              progressMessage = '',
+              progressDetails = NULL,
+              retries = CASE WHEN ${resetRetries} THEN 0 ELSE retries END
+          WHERE id = ${jobId} AND queue = ${this.queue} AND status = ${JobStatus.FAILED}
+          RETURNING id`;
+      if (!result.count) throw new Error(`Job ${jobId} not found or has not failed`);
+    });
+    this.prepareRequeuedJob(jobId);
+  }
+
+  /**
+   * Deletes failed jobs that failed before the given date.
+   * @param olderThan - Jobs that failed before this date are deleted
+   * @returns The number of jobs deleted
+   */
+  public async purgeFailed(olderThan: Date) {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        DELETE FROM job_queue
+          WHERE queue = ${this.queue}
+          AND status = ${JobStatus.FAILED}
+          AND completedAt < ${olderThan.toISOString()}`;
+      return result.count;
+    });
+  }
+
+  protected async cleanupJobs(
+    { status, finishedBefore, keepLatest }: JobCleanupFilter,
+    stripPayloads: boolean
+  ) {
+    const before = finishedBefore?.toISOString() ?? null;
+    const keep = keepLatest ?? null;
+    return await this.sql.begin(async (sql) => {
+      const expired = sql`
+        SELECT id
+          FROM job_queue AS job
+          WHERE queue = ${this.queue}
+          AND status = ${status}
+          AND (NOT ${stripPayloads} OR fingerprint <> '')
+          AND (
+            (${before}::timestamptz IS NOT NULL AND completedAt <= ${before})
+            OR (${keep}::integer IS NOT NULL AND id NOT IN (
+              SELECT id
+                FROM job_queue
+                WHERE queue = ${this.queue} AND status = ${status}
+                ORDER BY completedAt DESC, id DESC
+                LIMIT ${keep}
+            ))
+          )
+          AND NOT EXISTS (
+            SELECT 1
+              FROM job_queue AS dependent,
+                jsonb_array_elements_text(dependent.dependsOn) AS dependency(value)
+              WHERE dependent.queue = job.queue
+              AND dependent.status IN (${JobStatus.PENDING}, ${JobStatus.PROCESSING})
+              AND dependency.value::bigint = job.id
+          )`;
+      const result = stripPayloads
+        ? await sql`
+          UPDATE job_queue
+            SET input = '{}'::jsonb, output = NULL, fingerprint = ''
+            WHERE id IN (${expired})`
+        : await sql`
+          DELETE FROM job_queue
+            WHERE id IN (${expired})`;
+      return result.count;
+    });
+  }
+
   /**
    * Aborts a job by setting its status to "ABORTING".
    * This method will signal the corresponding AbortController so that
@@ -359,6 +643,218 @@ export class PostgresJobQueue<Input, Output> extends JobQueue<Input, Output> {
     });
   }
 
+  /**
+   * Retrieves pending jobs that have a failed dependency and should fail with it.
+   * @returns An array of jobs
+   */
+  public async dependencyFailed() {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+      SELECT *
+        FROM job_queue
+        WHERE queue = ${this.queue}
+        AND status = ${JobStatus.PENDING}
+        AND onDependencyFailure = 'fail'
+        AND EXISTS (
+          SELECT 1
+            FROM jsonb_array_elements_text(job_queue.dependsOn) AS dependency(value)
+            JOIN job_queue AS parent
+              ON parent.id = dependency.value::bigint AND parent.queue = job_queue.queue
+            WHERE parent.status = ${JobStatus.FAILED}
+        )`;
+      return result[0].rows.map((r: any) => this.createNewJob(r));
+    });
+  }
+
+  /**
+   * Retrieves processing jobs whose last heartbeat is older than the given date.
+   * @param olderThan - Jobs without a heartbeat since this date are returned
+   * @returns An array of jobs
+   */
+  public async stalled(olderThan: Date) {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+      SELECT *
+        FROM job_queue
+        WHERE queue = ${this.queue}
+        AND status = ${JobStatus.PROCESSING}
+        AND COALESCE(lastHeartbeatAt, createdAt) < ${olderThan.toISOString()}
+        FOR UPDATE SKIP LOCKED`;
+      return result[0].rows.map((r: any) => this.createNewJob(r));
+    });
+  }
+
+  /**
+   * Selects the columns of job_schedule with the camelCase names JobSchedule uses
+   */
+  private scheduleColumns(sql: Sql) {
+    return sql`id, queue, cron, intervalMs AS "intervalMs", timezone, input, overlap, priority, maxRetries AS "maxRetries", paused, nextRunAt AS "nextRunAt", lastRunAt AS "lastRunAt", lastJobId AS "lastJobId", createdAt AS "createdAt"`;
+  }
+
+  /**
+   * Lists the schedules of the queue.
+   * @returns An array of schedules
+   */
+  public async listSchedules() {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        SELECT ${this.scheduleColumns(sql)}
+          FROM job_schedule
+          WHERE queue = ${this.queue}
+          ORDER BY createdAt, id`;
+      return result[0].rows.map((r: any) => this.createNewSchedule(r, false));
+    });
+  }
+
+  /**
+   * Retrieves a schedule by its ID.
+   * @param id - The ID of the schedule to retrieve
+   * @returns The schedule or undefined if not found
+   */
+  public async getSchedule(id: string) {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        SELECT ${this.scheduleColumns(sql)}
+          FROM job_schedule
+          WHERE queue = ${this.queue} AND id = ${id}`;
+      const row = result[0]?.rows[0];
+      return row ? this.createNewSchedule(row, false) : undefined;
+    });
+  }
+
+  /**
+   * Deletes a schedule.
+   * @param id - The ID of the schedule to delete
+   */
+  public async deleteSchedule(id: string) {
+    await this.sql.begin(async (sql) => {
+      await sql`DELETE FROM job_schedule WHERE queue = ${this.queue} AND id = ${id}`;
+    });
+  }
+
+  /**
+   * Implements the abstract saveSchedule method from JobQueue
+   */
+  protected async saveSchedule(schedule: JobSchedule<Input>) {
+    await this.sql.begin(async (sql) => {
+      await sql`
+        INSERT INTO job_schedule(
+          id,
+          queue,
+          cron,
+          intervalMs,
+          timezone,
+          input,
+          overlap,
+          priority,
+          maxRetries,
+          paused,
+          nextRunAt,
+          lastRunAt,
+          lastJobId,
+          createdAt
+        )
+        VALUES (
+          ${schedule.id},
+          ${this.queue},
+          ${schedule.cron},
+          ${schedule.intervalMs},
+          ${schedule.timezone},
+          ${schedule.input as any}::jsonb,
+          ${schedule.overlap},
+          ${schedule.priority},
+          ${schedule.maxRetries},
+          ${schedule.paused},
+          ${schedule.nextRunAt.toISOString()},
+          ${schedule.lastRunAt?.toISOString() ?? null},
+          ${(schedule.lastJobId ?? null) as any}::jsonb,
+          ${schedule.createdAt.toISOString()}
+        )
+        ON CONFLICT (queue, id) DO UPDATE SET
+          cron = EXCLUDED.cron,
+          intervalMs = EXCLUDED.intervalMs,
+          timezone = EXCLUDED.timezone,
+          input = EXCLUDED.input,
+          overlap = EXCLUDED.overlap,
+          priority = EXCLUDED.priority,
+          maxRetries = EXCLUDED.maxRetries,
+          paused = EXCLUDED.paused,
+          nextRunAt = EXCLUDED.nextRunAt,
+          lastRunAt = EXCLUDED.lastRunAt,
+          lastJobId = EXCLUDED.lastJobId`;
+    });
+  }
+
+  /**
+   * Implements the abstract claimSchedule method from JobQueue
+   */
+  protected async claimSchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date) {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        UPDATE job_schedule
+          SET nextRunAt = ${nextRunAt.toISOString()}
+          WHERE queue = ${this.queue}
+          AND id = ${id}
+          AND nextRunAt = ${expectedNextRunAt.toISOString()}
+          AND NOT paused`;
+      return result.count === 1;
+    });
+  }
+
+  /**
+   * Implements the abstract saveRun method from JobQueue
+   */
+  protected async saveRun(run: JobRunRecord) {
+    const threshold = new Date(run.finishedAt.getTime() - this.runHistoryMs);
+    await this.sql.begin(async (sql) => {
+      await sql`
+        DELETE FROM job_queue_run
+          WHERE queue = ${this.queue} AND finishedAt < ${threshold.toISOString()}`;
+      await sql`
+        INSERT INTO job_queue_run(queue, jobId, outcome, errorCode, durationMs, finishedAt)
+        VALUES (
+          ${this.queue},
+          ${(run.jobId ?? null) as any}::jsonb,
+          ${run.outcome},
+          ${run.errorCode},
+          ${run.durationMs},
+          ${run.finishedAt.toISOString()}
+        )`;
+    });
+  }
+
+  /**
+   * Implements the abstract listRuns method from JobQueue
+   */
+  protected async listRuns(since: Date) {
+    return await this.sql.begin(async (sql) => {
+      const result = await sql`
+        SELECT jobId AS "jobId", outcome, errorCode AS "errorCode", durationMs AS "durationMs", finishedAt AS "finishedAt"
+          FROM job_queue_run
+          WHERE queue = ${this.queue} AND finishedAt >= ${since.toISOString()}
+          ORDER BY finishedAt`;
+      return result[0].rows.map((r: any) => ({
+        jobId: r.jobId,
+        outcome: r.outcome,
+        errorCode: r.errorCode ?? null,
+        durationMs: Number(r.durationMs),
+        finishedAt: new Date(r.finishedAt),
+      }));
+    });
+  }
+
+  /**
+   * Implements the abstract saveHeartbeat method from JobQueue
+   */
+  protected async saveHeartbeat(jobId: unknown): Promise<void> {
+    await this.sql.begin(async (sql) => {
+      await sql`
+        UPDATE job_queue 
+        SET lastHeartbeatAt = NOW()
+        WHERE id = ${jobId as number} AND queue = ${this.queue} AND status = ${JobStatus.PROCESSING}`;
+    });
+  }
+
   /**
    * Implements the abstract saveProgress method from JobQueue
    */
@@ -51,11 +51,11 @@ export class PostgresRateLimiter implements ILimiter {
     // Retrieve the largest next_available_at and count of attempts in the window
     const result = await this.sql`
       SELECT 
-        COUNT(*) AS attempt_count,
+        COUNT(*) FILTER (WHERE attempted_at > ${attemptedAtThreshold}) AS attempt_count,
         MAX(next_available_at) AS latest_next_available_at
       FROM job_rate_limit
       WHERE queue_name = ${this.queueName}
-        AND attempted_at > ${attemptedAtThreshold}
+        AND (attempted_at > ${attemptedAtThreshold} OR next_available_at > now())
     `;
 
     const { attempt_count, latest_next_available_at } = result[0];
@@ -100,6 +100,7 @@ export class PostgresRateLimiter implements ILimiter {
       SELECT attempted_at
       FROM job_rate_limit
       WHERE queue_name = ${this.queueName}
+        AND attempted_at IS NOT NULL
       ORDER BY attempted_at DESC
       LIMIT 1 OFFSET ${this.maxAttempts - 1}
     `;
@@ -117,12 +118,11 @@ export class PostgresRateLimiter implements ILimiter {
    * @param date - The new next available time
    */
   async setNextAvailableTime(date: Date): Promise<void> {
-    // Update the next available time for the specific queue. If no entry exists, insert a new one.
+    // Record the next available time as a row that is not an attempt, so it does not count
+    // against the limit (the table has no unique queue_name to update in place)
     await this.sql`
-      INSERT INTO job_rate_limit (queue_name, next_available_at)
-      VALUES (${this.queueName}, ${date})
-      ON CONFLICT (queue_name)
-      DO UPDATE SET next_available_at = EXCLUDED.next_available_at;
+      INSERT INTO job_rate_limit (queue_name, attempted_at, next_available_at)
+      VALUES (${this.queueName}, NULL, ${date})
     `;
   }
 }
@@ -0,0 +1,123 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { ILimiter } from "ellmers-core";
+import { Sql } from "postgres";
+
+/**
+ * PostgreSQL implementation of a token bucket limiter, shared by all processes using the
+ * database. The bucket holds up to `capacity` tokens for bursts and refills at a steady
+ * rate. A job starts once a whole token is available and takes its cost out of the bucket.
+ */
+export class PostgresTokenBucketLimiter implements ILimiter {
+  private readonly refillPerSecond: number;
+
+  constructor(
+    protected readonly sql: Sql,
+    private readonly queueName: string,
+    private readonly capacity: number,
+    refillPerMinute: number
+  ) {
+    this.refillPerSecond = refillPerMinute / 60;
+  }
+
+  public ensureTableExists() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS job_token_bucket (
+        queue_name text NOT NULL PRIMARY KEY,
+        tokens double precision NOT NULL,
+        updated_at timestamp with time zone NOT NULL DEFAULT now(),
+        next_available_at timestamp with time zone
+      );
+    `;
+    return this;
+  }
+
+  async clear(): Promise<void> {
+    await this.sql`DELETE FROM job_token_bucket WHERE queue_name = ${this.queueName}`;
+  }
+
+  /**
+   * Reads the refilled number of tokens and the externally set next available time
+   */
+  private async bucket() {
+    const result = await this.sql`
+      SELECT
+        LEAST(
+          ${this.capacity}::double precision,
+          tokens + EXTRACT(EPOCH FROM (now() - updated_at)) * ${this.refillPerSecond}
+        ) AS tokens,
+        next_available_at
+      FROM job_token_bucket
+      WHERE queue_name = ${this.queueName}
+    `;
+    return {
+      tokens: result[0] ? Number(result[0].tokens) : this.capacity,
+      nextAvailableAt: result[0]?.next_available_at as Date | null | undefined,
+    };
+  }
+
+  /**
+   * Checks if a job can proceed, which needs a whole token in the bucket.
+   * @returns True if the job can proceed, false otherwise
+   */
+  async canProceed(): Promise<boolean> {
+    const { tokens, nextAvailableAt } = await this.bucket();
+    if (nextAvailableAt && new Date(nextAvailableAt) > new Date()) {
+      return false;
+    }
+    return tokens >= 1;
+  }
+
+  /**
+   * Takes the cost of a job out of the bucket, refilling it in the same statement so
+   * concurrent workers do not overdraw it
+   */
+  async recordJobStart(cost: number = 1): Promise<void> {
+    await this.sql`
+      INSERT INTO job_token_bucket (queue_name, tokens, updated_at)
+      VALUES (${this.queueName}, ${this.capacity - cost}, now())
+      ON CONFLICT (queue_name)
+      DO UPDATE SET
+        tokens = LEAST(
+          ${this.capacity}::double precision,
+          job_token_bucket.tokens
+            + EXTRACT(EPOCH FROM (now() - job_token_bucket.updated_at)) * ${this.refillPerSecond}
+        ) - ${cost},
+        updated_at = now()
+    `;
+  }
+
+  async recordJobCompletion(): Promise<void> {
+    // No action needed, tokens are taken when a job starts
+  }
+
+  /**
+   * Retrieves when the bucket has a whole token again for the specific queue.
+   * @returns The next available time
+   */
+  async getNextAvailableTime(): Promise<Date> {
+    const { tokens, nextAvailableAt } = await this.bucket();
+    const now = Date.now();
+    const refilledAt = now + (Math.max(0, 1 - tokens) / this.refillPerSecond) * 1000;
+    const nextAvailableTime = nextAvailableAt ? new Date(nextAvailableAt).getTime() : now;
+    return new Date(Math.max(refilledAt, nextAvailableTime));
+  }
+
+  /**
+   * Sets the next available time for the specific queue.
+   * @param date - The new next available time
+   */
+  async setNextAvailableTime(date: Date): Promise<void> {
+    await this.sql`
+      INSERT INTO job_token_bucket (queue_name, tokens, next_available_at)
+      VALUES (${this.queueName}, ${this.capacity}, ${date})
+      ON CONFLICT (queue_name)
+      DO UPDATE SET next_available_at = EXCLUDED.next_available_at;
+    `;
+  }
+}
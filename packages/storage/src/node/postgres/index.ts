@@ -1,4 +1,8 @@
 export * from "./PostgresJobQueue";
 export * from "./PostgresRateLimiter";
+export * from "./PostgresTokenBucketLimiter";
+export * from "./PostgresCostLimiter";
+export * from "./PostgresJobNotifier";
 export * from "./PostgresTaskGraphRepository";
 export * from "./PostgresTaskOutputRepository";
+export * from "./PostgresGraphRunRepository";
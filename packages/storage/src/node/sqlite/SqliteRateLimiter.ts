@@ -55,7 +55,7 @@ export class SqliteRateLimiter implements ILimiter {
 
     if (
       nextAvailableResult &&
-      new Date(nextAvailableResult.next_available_at + "Z").getTime() > Date.now()
+      new Date(nextAvailableResult.next_available_at).getTime() > Date.now()
     ) {
       return false; // Next available time is in the future, cannot proceed
     }
@@ -105,7 +105,7 @@ export class SqliteRateLimiter implements ILimiter {
     // Get the next available time set externally, if any
     const nextAvailableStmt = this.db.prepare(`
       SELECT next_available_at
-      FROM queue_next_available
+      FROM job_queue_next_available
       WHERE queue_name = ?`);
     const nextAvailableResult = nextAvailableStmt.get(this.queueName) as
       | { next_available_at: string }
@@ -113,7 +113,7 @@ export class SqliteRateLimiter implements ILimiter {
 
     let nextAvailableTime = new Date();
     if (nextAvailableResult?.next_available_at) {
-      nextAvailableTime = new Date(nextAvailableResult.next_available_at + "Z");
+      nextAvailableTime = new Date(nextAvailableResult.next_available_at);
     }
 
     // Return the later of the two times
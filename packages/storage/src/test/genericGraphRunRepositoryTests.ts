@@ -0,0 +1,133 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { describe, expect, it, beforeEach } from "bun:test";
+import {
+  SingleTask,
+  TaskOutput,
+  TaskStatus,
+  DataFlow,
+  TaskGraph,
+  TaskGraphRunner,
+  GraphRunRepository,
+} from "ellmers-core";
+
+class TestCountingTask extends SingleTask {
+  static readonly type = "TestCountingTask";
+  static readonly sideeffects = true;
+  static inputs = [
+    {
+      id: "input",
+      name: "Input",
+      valueType: "number",
+      defaultValue: 0,
+    },
+  ] as const;
+  static outputs = [
+    {
+      id: "output",
+      name: "Output",
+      valueType: "number",
+    },
+  ] as const;
+  static runs = 0;
+  static failing = false;
+  async runReactive(): Promise<TaskOutput> {
+    TestCountingTask.runs++;
+    if (TestCountingTask.failing && this.config.id === "last") {
+      throw new Error("Process died");
+    }
+    return { output: this.runInputData.input + 1 };
+  }
+}
+
+export function runGenericGraphRunRepositoryTests(
+  createRepository: () => Promise<GraphRunRepository>
+) {
+  let repository: GraphRunRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+    TestCountingTask.runs = 0;
+    TestCountingTask.failing = false;
+  });
+
+  it("should initialize the kvRepository", () => {
+    expect(repository.kvRepository).toBeDefined();
+  });
+
+  it("should store and retrieve a graph run", async () => {
+    const run = {
+      runId: "r1",
+      status: TaskStatus.PROCESSING,
+      parentProvenance: { source: "test" },
+      tasks: [{ id: "task1", status: TaskStatus.COMPLETED, output: { output: 1 } }],
+      dataFlows: [{ id: "task1.output -> task2.input", value: 1, provenance: {} }],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await repository.saveRun(run);
+    const retrievedRun = await repository.getRun("r1");
+
+    expect(retrievedRun).toEqual(run);
+  });
+
+  it("should return undefined for non-existent graph run", async () => {
+    const retrievedRun = await repository.getRun("r2");
+
+    expect(retrievedRun).toBeUndefined();
+  });
+
+  describe("resumeRun", () => {
+    let graph: TaskGraph;
+
+    beforeEach(() => {
+      graph = new TaskGraph();
+      graph.addTasks([
+        new TestCountingTask({ id: "first", input: { input: 1 } }),
+        new TestCountingTask({ id: "middle" }),
+        new TestCountingTask({ id: "last" }),
+      ]);
+      graph.addDataFlows([
+        new DataFlow("first", "output", "middle", "input"),
+        new DataFlow("middle", "output", "last", "input"),
+      ]);
+    });
+
+    it("should only run the unfinished tasks", async () => {
+      TestCountingTask.failing = true;
+      const runner = new TaskGraphRunner(graph, undefined, {
+        graphRunRepository: repository,
+        failurePolicy: "continue",
+      });
+      const failed = await runner.runGraph();
+      expect(failed.status).toEqual(TaskStatus.FAILED);
+      expect(TestCountingTask.runs).toEqual(3);
+
+      const saved = await repository.getRun(failed.runId);
+      expect(saved?.status).toEqual(TaskStatus.FAILED);
+      expect(saved?.tasks.find((task) => task.id === "middle")?.output).toEqual({ output: 3 });
+
+      TestCountingTask.failing = false;
+      const resumeRunner = new TaskGraphRunner(graph, undefined, {
+        graphRunRepository: repository,
+      });
+      const resumed = await resumeRunner.resumeRun(failed.runId);
+
+      expect(TestCountingTask.runs).toEqual(4);
+      expect(resumed.status).toEqual(TaskStatus.COMPLETED);
+      expect(resumed.outputs).toEqual([{ output: 4 }]);
+      expect((await repository.getRun(failed.runId))?.status).toEqual(TaskStatus.COMPLETED);
+    });
+
+    it("should throw for an unknown run", async () => {
+      const runner = new TaskGraphRunner(graph, undefined, { graphRunRepository: repository });
+      await expect(runner.resumeRun("missing")).rejects.toThrow("not found");
+    });
+  });
+}
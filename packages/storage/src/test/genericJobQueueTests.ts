@@ -12,8 +12,15 @@ import {
   Job,
   JobStatus,
   AbortSignalJobError,
+  PermanentJobError,
+  RateLimitedJobError,
   sleep,
   JobQueue,
+  RetryPolicy,
+  QueueMode,
+  IJobNotifier,
+  JobNotification,
+  JobNotificationListener,
 } from "ellmers-core";
 
 export class TestJob extends Job<TaskInput, TaskOutput> {
@@ -59,8 +66,44 @@ export class TestJob extends Job<TaskInput, TaskOutput> {
         }
       });
     }
+    if (this.input.taskType === "hanging") {
+      // ignores its abort signal, like a stuck model pipeline
+      return new Promise<TaskOutput>(() => {});
+    }
+    if (this.input.taskType === "flaky" && this.retries < 1) {
+      throw new Error("Request timed out");
+    }
+    if (this.input.taskType === "throttled" && this.retries < 1) {
+      throw new RateLimitedJobError("Too many requests", new Date(Date.now() + 100), 0);
+    }
+    if (this.input.taskType === "broken") {
+      throw new Error("Model not found");
+    }
     return { result: this.input.data.replace("input", "output") };
   }
+
+  batchKey(): string | null {
+    return this.input.batch ?? null;
+  }
+}
+
+/**
+ * A clock for testing schedules, time only moves when the test moves it
+ */
+export class FakeClock {
+  constructor(private time: Date = new Date("2025-01-01T00:00:00Z")) {}
+
+  public now = (): Date => new Date(this.time);
+
+  public advance(ms: number): Date {
+    this.time = new Date(this.time.getTime() + ms);
+    return this.now();
+  }
+
+  public set(date: Date | string): Date {
+    this.time = new Date(date);
+    return this.now();
+  }
 }
 
 export function runGenericJobQueueTests(createJobQueue: () => JobQueue<TaskInput, TaskOutput>) {
@@ -105,7 +148,7 @@ export function runGenericJobQueueTests(createJobQueue: () => JobQueue<TaskInput
     await jobQueue.waitFor(job1id);
     await jobQueue.waitFor(job2id);
 
-    const stats = jobQueue.getStats();
+    const stats = await jobQueue.getStats();
     expect(stats.completedJobs).toBe(2);
     expect(stats.failedJobs).toBe(0);
     expect(stats.abortedJobs).toBe(0);
@@ -235,6 +278,786 @@ export function runGenericJobQueueTests(createJobQueue: () => JobQueue<TaskInput
     await jobQueue.stop();
   });
 
+  it("should run higher priority jobs first", async () => {
+    const lowId = await jobQueue.add(
+      new TestJob({ input: { taskType: "task1", data: "input1" }, priority: 0 })
+    );
+    const highId = await jobQueue.add(
+      new TestJob({ input: { taskType: "task1", data: "input2" }, priority: 10 })
+    );
+    const midId = await jobQueue.add(
+      new TestJob({ input: { taskType: "task1", data: "input3" }, priority: 5 })
+    );
+    expect((await jobQueue.get(highId))?.priority).toBe(10);
+
+    const order: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      order.push((await jobQueue.next())?.id);
+    }
+    expect(order).toEqual([highId, midId, lowId]);
+    expect(await jobQueue.next()).toBeUndefined();
+  });
+
+  it("should keep FIFO order for jobs of equal priority", async () => {
+    const firstId = await jobQueue.add(
+      new TestJob({ input: { taskType: "task1", data: "input1" }, priority: 1 })
+    );
+    await sleep(2); // createdAt only has millisecond resolution
+    const secondId = await jobQueue.add(
+      new TestJob({ input: { taskType: "task1", data: "input2" }, priority: 1 })
+    );
+    expect((await jobQueue.next())?.id).toBe(firstId);
+    expect((await jobQueue.next())?.id).toBe(secondId);
+  });
+
+  it("should round-robin between job runs in fair-share mode", async () => {
+    jobQueue.fairShare = true;
+    for (const [jobRunId, count] of [
+      ["run-a", 3],
+      ["run-b", 2],
+      ["run-c", 1],
+    ] as const) {
+      for (let i = 0; i < count; i++) {
+        await jobQueue.add(
+          new TestJob({ jobRunId, input: { taskType: "task1", data: `${jobRunId}-${i}` } })
+        );
+      }
+    }
+
+    const served: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      served.push((await jobQueue.next())!.jobRunId!);
+    }
+    expect(served.slice(0, 3).sort()).toEqual(["run-a", "run-b", "run-c"]);
+    expect(served.slice(3, 5).sort()).toEqual(["run-a", "run-b"]);
+    expect(served[5]).toBe("run-a");
+  });
+
+  it("should still respect priority in fair-share mode", async () => {
+    jobQueue.fairShare = true;
+    await jobQueue.add(
+      new TestJob({ jobRunId: "run-a", input: { taskType: "task1", data: "input1" } })
+    );
+    await jobQueue.add(
+      new TestJob({ jobRunId: "run-a", input: { taskType: "task1", data: "input2" } })
+    );
+    const urgentId = await jobQueue.add(
+      new TestJob({
+        jobRunId: "run-b",
+        input: { taskType: "task1", data: "input3" },
+        priority: 10,
+      })
+    );
+    expect((await jobQueue.next())?.id).toBe(urgentId);
+    expect((await jobQueue.next())?.jobRunId).toBe("run-a");
+    expect((await jobQueue.next())?.jobRunId).toBe("run-a");
+  });
+
+  describe("Retry Policy", () => {
+    it("should retry errors the policy classifies as retryable", async () => {
+      jobQueue.retryPolicy = new RetryPolicy({ baseDelayMs: 1, jitter: 0 });
+      const retryDates: Date[] = [];
+      jobQueue.on("job_retry", (_queueName, _jobId, retryDate) => retryDates.push(retryDate));
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "flaky", data: "input1" } })
+      );
+      const output = await jobQueue.waitFor(jobId);
+      expect(output).toEqual({ result: "output1" });
+      expect(retryDates.length).toBe(1);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.COMPLETED);
+      expect(job?.retries).toBe(1);
+    });
+
+    it("should fail plain errors without retrying", async () => {
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "broken", data: "input1" } })
+      );
+      expect(jobQueue.waitFor(jobId)).rejects.toMatchObject({
+        name: "PermanentJobError",
+        message: "Model not found",
+      });
+      await sleep(20);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.FAILED);
+    });
+
+    it("should stop retrying after the policy's max attempts", async () => {
+      jobQueue.retryPolicy = new RetryPolicy({
+        baseDelayMs: 1,
+        jitter: 0,
+        maxAttempts: 1,
+      });
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "flaky", data: "input1" } })
+      );
+      expect(jobQueue.waitFor(jobId)).rejects.toMatchObject({
+        name: "RetryableJobError",
+        message: "Request timed out",
+      });
+      await sleep(20);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.FAILED);
+      expect(job?.retries).toBe(1);
+    });
+  });
+
+  describe("Stats", () => {
+    it("should report runs over a window from the storage", async () => {
+      jobQueue.retryPolicy = new RetryPolicy({ baseDelayMs: 1, jitter: 0 });
+      await jobQueue.start();
+      const ids = [
+        await jobQueue.add(new TestJob({ input: { taskType: "task1", data: "input1" } })),
+        await jobQueue.add(new TestJob({ input: { taskType: "flaky", data: "input2" } })),
+      ];
+      const brokenId = await jobQueue.add(
+        new TestJob({ input: { taskType: "broken", data: "input3" } })
+      );
+      for (const id of ids) await jobQueue.waitFor(id);
+      await jobQueue.waitFor(brokenId).catch(() => {});
+
+      const stats = await jobQueue.getStats({ window: 60 * 1000, bucketMs: 10 * 1000 });
+      expect(stats.window).toBe(60 * 1000);
+      expect(stats.completedJobs).toBe(2);
+      expect(stats.retriedJobs).toBe(1);
+      expect(stats.failedJobs).toBe(1);
+      expect(stats.errors).toEqual({ RetryableJobError: 1, PermanentJobError: 1 });
+      expect(stats.counts[JobStatus.COMPLETED]).toBe(2);
+      expect(stats.counts[JobStatus.FAILED]).toBe(1);
+      expect(stats.totalJobs).toBe(3);
+      expect(stats.throughputPerMinute).toBe(2);
+      expect(stats.latency.p50).toBeGreaterThanOrEqual(0);
+      expect(stats.latency.p99).toBeGreaterThanOrEqual(stats.latency.p50!);
+      expect(stats.buckets.length).toBe(6);
+      const last = stats.buckets[stats.buckets.length - 1];
+      expect(last.completed + last.retried + last.failed).toBe(4);
+    });
+
+    it("should clear the runs along with the jobs", async () => {
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      await jobQueue.waitFor(jobId);
+      await jobQueue.clear();
+
+      const stats = await jobQueue.getStats();
+      expect(stats.completedJobs).toBe(0);
+      expect(stats.totalJobs).toBe(0);
+    });
+
+    it("should delete the runs older than the run history", async () => {
+      jobQueue.runHistoryMs = 50;
+      await jobQueue.start();
+      const firstId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      await jobQueue.waitFor(firstId);
+      await sleep(60);
+      const secondId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" } })
+      );
+      await jobQueue.waitFor(secondId);
+
+      const stats = await jobQueue.getStats();
+      expect(stats.completedJobs).toBe(1);
+    });
+  });
+
+  describe("Rate Limits", () => {
+    it("should hold off all jobs until the provider's retry-after time", async () => {
+      const retryDates: Date[] = [];
+      jobQueue.on("job_retry", (_queueName, _jobId, retryDate) => retryDates.push(retryDate));
+      await jobQueue.start();
+      const throttledId = await jobQueue.add(
+        new TestJob({ input: { taskType: "throttled", data: "input1" } })
+      );
+      await sleep(20);
+      expect(retryDates.length).toBe(1);
+      const throttled = await jobQueue.get(throttledId);
+      expect(throttled?.errorCode).toBe("RateLimitedJobError");
+
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" } })
+      );
+      expect(await jobQueue.waitFor(jobId)).toEqual({ result: "output2" });
+      expect(Date.now()).toBeGreaterThanOrEqual(retryDates[0].getTime());
+      expect(await jobQueue.waitFor(throttledId)).toEqual({ result: "output1" });
+    });
+  });
+
+  describe("Time Limits", () => {
+    it("should abort a job that runs past its timeout", async () => {
+      jobQueue.retryPolicy = new RetryPolicy({ retryOnTimeout: false });
+      const errors: Array<number | undefined> = [];
+      jobQueue.on("job_error", (_queueName, _jobId, _error, timeoutMs) => errors.push(timeoutMs));
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "long_running", data: "input1" }, timeoutMs: 20 })
+      );
+      expect(jobQueue.waitFor(jobId)).rejects.toMatchObject({
+        name: "TimeoutJobError",
+        timeoutMs: 20,
+      });
+      await sleep(100);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.FAILED);
+      expect(job?.errorCode).toBe("TimeoutJobError");
+      expect(errors).toContain(20);
+      const stats = await jobQueue.getStats();
+      expect(stats.timedOutJobs).toBe(1);
+      expect(stats.abortedJobs).toBe(0);
+    });
+
+    it("should retry a job that ignores its abort signal using the queue's timeout", async () => {
+      jobQueue.timeoutMs = 20;
+      jobQueue.retryPolicy = new RetryPolicy({ baseDelayMs: 60 * 1000, jitter: 0 });
+      const retried: unknown[] = [];
+      jobQueue.on("job_retry", (_queueName, jobId) => retried.push(jobId));
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "hanging", data: "input1" } })
+      );
+      await sleep(100);
+      expect(retried).toEqual([jobId]);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.PENDING);
+      expect(job?.errorCode).toBe("TimeoutJobError");
+      expect(job?.retries).toBe(1);
+      expect((await jobQueue.getStats()).timedOutJobs).toBe(1);
+    });
+  });
+
+  describe("Failed Jobs", () => {
+    async function addFailedJobs() {
+      const brokenId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      const abortedId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" } })
+      );
+      const okId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input3" } })
+      );
+      await jobQueue.complete(brokenId, undefined, new PermanentJobError("Model not found"));
+      await jobQueue.complete(abortedId, undefined, new AbortSignalJobError("Aborted"));
+      await jobQueue.complete(okId, { result: "output3" });
+      return { brokenId, abortedId, okId };
+    }
+
+    it("should list failed jobs with filters", async () => {
+      const { brokenId } = await addFailedJobs();
+      expect((await jobQueue.listFailed()).length).toBe(2);
+
+      const broken = await jobQueue.listFailed({ errorCode: "PermanentJobError" });
+      expect(broken.map((job) => job.id)).toEqual([brokenId]);
+      expect(broken[0].error).toBe("Model not found");
+
+      expect((await jobQueue.listFailed({ limit: 1 })).length).toBe(1);
+      expect((await jobQueue.listFailed({ since: new Date(Date.now() + 60_000) })).length).toBe(0);
+    });
+
+    it("should requeue a failed job and run it again", async () => {
+      const { brokenId, okId } = await addFailedJobs();
+      await jobQueue.requeue(brokenId, { resetRetries: true });
+      const requeued = await jobQueue.get(brokenId);
+      expect(requeued?.status).toBe(JobStatus.PENDING);
+      expect(requeued?.retries).toBe(0);
+      expect(requeued?.error).toBeNull();
+      expect((await jobQueue.listFailed()).length).toBe(1);
+
+      await jobQueue.start();
+      const output = await jobQueue.waitFor(brokenId);
+      expect(output).toEqual({ result: "output1" });
+
+      expect(jobQueue.requeue(okId)).rejects.toThrow();
+    });
+
+    it("should requeue all failed jobs matching a filter", async () => {
+      const { abortedId } = await addFailedJobs();
+      const count = await jobQueue.requeueAll({ errorCode: "AbortSignalJobError" });
+      expect(count).toBe(1);
+      expect((await jobQueue.get(abortedId))?.status).toBe(JobStatus.PENDING);
+      expect((await jobQueue.listFailed()).length).toBe(1);
+    });
+
+    it("should purge failed jobs older than a date", async () => {
+      await addFailedJobs();
+      expect(await jobQueue.purgeFailed(new Date(Date.now() - 60_000))).toBe(0);
+      expect(await jobQueue.purgeFailed(new Date(Date.now() + 60_000))).toBe(2);
+      expect(await jobQueue.size(JobStatus.FAILED)).toBe(0);
+      expect(await jobQueue.size(JobStatus.COMPLETED)).toBe(1);
+    });
+  });
+
+  describe("Stalled Jobs", () => {
+    it("should heartbeat running jobs so they are not considered stalled", async () => {
+      jobQueue.visibilityTimeoutMs = 3000;
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "long_running", data: "input1" } })
+      );
+      await sleep(20);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.PROCESSING);
+      expect(job?.lastHeartbeatAt).not.toBeNull();
+      expect(await jobQueue.recoverStalledJobs()).toBe(0);
+    });
+
+    it("should requeue jobs claimed by a worker that went away", async () => {
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      // claimed but never run, like a worker that crashed after next()
+      const claimed = await jobQueue.next();
+      expect(claimed?.id).toBe(jobId);
+      let stalledEvent = false;
+      jobQueue.on("job_stalled", (_queueName, id) => {
+        if (id === jobId) stalledEvent = true;
+      });
+
+      expect(await jobQueue.recoverStalledJobs(new Date(Date.now() + 60_000))).toBe(1);
+      expect(stalledEvent).toBe(true);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.PENDING);
+      expect(job?.retries).toBe(1);
+    });
+
+    it("should fail stalled jobs when configured to", async () => {
+      jobQueue.stalledJobAction = "fail";
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      await jobQueue.next();
+      expect(await jobQueue.recoverStalledJobs(new Date(Date.now() + 60_000))).toBe(1);
+      const job = await jobQueue.get(jobId);
+      expect(job?.status).toBe(JobStatus.FAILED);
+      expect(job?.errorCode).toBe("PermanentJobError");
+    });
+  });
+
+  describe("Job Dependencies", () => {
+    it("should not run a job before its dependencies complete", async () => {
+      const firstId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      const secondId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" }, dependsOn: [firstId] })
+      );
+      expect((await jobQueue.get(secondId))?.dependsOn).toEqual([firstId]);
+
+      expect((await jobQueue.next())?.id).toBe(firstId);
+      expect(await jobQueue.next()).toBeUndefined();
+      await jobQueue.complete(firstId, { result: "output1" });
+      expect((await jobQueue.next())?.id).toBe(secondId);
+    });
+
+    it("should inject dependency outputs into the input", async () => {
+      await jobQueue.start();
+      const firstId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      const secondId = await jobQueue.add(
+        new TestJob({
+          input: { taskType: "task1", data: "input9" },
+          dependencyInputs: { data: { id: firstId, output: "result" } },
+        })
+      );
+      expect(await jobQueue.waitFor(secondId)).toEqual({ result: "output1" });
+    });
+
+    it("should cascade failures down the chain of dependents", async () => {
+      const firstId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      const secondId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" }, dependsOn: [firstId] })
+      );
+      const thirdId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input3" }, dependsOn: [secondId] })
+      );
+      const regardlessId = await jobQueue.add(
+        new TestJob({
+          input: { taskType: "task1", data: "input4" },
+          dependsOn: [firstId],
+          onDependencyFailure: "run",
+        })
+      );
+
+      await jobQueue.complete(firstId, undefined, new PermanentJobError("Model not found"));
+      await sleep(20);
+
+      const second = await jobQueue.get(secondId);
+      expect(second?.status).toBe(JobStatus.FAILED);
+      expect(second?.errorCode).toBe("DependencyFailedJobError");
+      expect((await jobQueue.get(thirdId))?.status).toBe(JobStatus.FAILED);
+      expect((await jobQueue.get(regardlessId))?.status).toBe(JobStatus.PENDING);
+      expect((await jobQueue.next())?.id).toBe(regardlessId);
+    });
+  });
+
+  describe("Deduplication", () => {
+    const input = { taskType: "task1", data: "input1" };
+
+    it("should add a new job for the same input by default", async () => {
+      const firstId = await jobQueue.add(new TestJob({ input }));
+      const secondId = await jobQueue.add(new TestJob({ input }), { dedupe: "always-new" });
+      const thirdId = await jobQueue.add(new TestJob({ input }));
+      expect(new Set([firstId, secondId, thirdId]).size).toBe(3);
+      expect(await jobQueue.size()).toBe(3);
+    });
+
+    it("should join a pending job with the same input", async () => {
+      const firstId = await jobQueue.add(new TestJob({ input }));
+      const [secondId, thirdId] = await Promise.all([
+        jobQueue.add(new TestJob({ input }), { dedupe: "join-inflight" }),
+        jobQueue.add(new TestJob({ input }), { dedupe: "join-inflight" }),
+      ]);
+      const otherId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" } }),
+        { dedupe: "join-inflight" }
+      );
+      expect(secondId).toBe(firstId);
+      expect(thirdId).toBe(firstId);
+      expect(otherId).not.toBe(firstId);
+      expect(await jobQueue.size()).toBe(2);
+
+      await jobQueue.start();
+      expect(await jobQueue.waitFor(secondId)).toEqual({ result: "output1" });
+    });
+
+    it("should report whether the job was added or found", async () => {
+      const added = await jobQueue.addJob(new TestJob({ input }), { dedupe: "join-inflight" });
+      const found = await jobQueue.addJob(new TestJob({ input }), { dedupe: "join-inflight" });
+      expect(added.deduped).toBe(false);
+      expect(found).toEqual({ id: added.id, deduped: true });
+    });
+
+    it("should not join a completed job", async () => {
+      const firstId = await jobQueue.add(new TestJob({ input }));
+      await jobQueue.complete(firstId, { result: "cached" });
+      const secondId = await jobQueue.add(new TestJob({ input }), { dedupe: "join-inflight" });
+      expect(secondId).not.toBe(firstId);
+    });
+
+    it("should reuse the output of a completed job with the same input", async () => {
+      const firstId = await jobQueue.add(new TestJob({ input }));
+      await jobQueue.complete(firstId, { result: "cached" });
+      const secondId = await jobQueue.add(new TestJob({ input }), { dedupe: "reuse-completed" });
+      expect(secondId).toBe(firstId);
+      expect(await jobQueue.size(JobStatus.PENDING)).toBe(0);
+      expect(await jobQueue.waitFor(secondId)).toEqual({ result: "cached" });
+    });
+
+    it("should not reuse a failed job", async () => {
+      const firstId = await jobQueue.add(new TestJob({ input }));
+      await jobQueue.complete(firstId, undefined, new PermanentJobError("Model not found"));
+      const secondId = await jobQueue.add(new TestJob({ input }), { dedupe: "reuse-completed" });
+      expect(secondId).not.toBe(firstId);
+    });
+  });
+
+  describe("Retention", () => {
+    const addCompleted = async (data: string) => {
+      const id = await jobQueue.add(new TestJob({ input: { taskType: "task1", data } }));
+      await jobQueue.complete(id, { result: data });
+      return id;
+    };
+
+    it("should do nothing without a retention policy", async () => {
+      await addCompleted("input1");
+      expect(await jobQueue.cleanup()).toBe(0);
+      expect(await jobQueue.size(JobStatus.COMPLETED)).toBe(1);
+    });
+
+    it("should keep only the latest completed jobs", async () => {
+      const ids: unknown[] = [];
+      for (const data of ["input1", "input2", "input3"]) {
+        ids.push(await addCompleted(data));
+        await sleep(5);
+      }
+      jobQueue.retention = { completedCount: 2 };
+      expect(await jobQueue.cleanup()).toBe(1);
+      expect(await jobQueue.get(ids[0])).toBeUndefined();
+      expect((await jobQueue.get(ids[2]))?.status).toBe(JobStatus.COMPLETED);
+      expect(await jobQueue.size(JobStatus.COMPLETED)).toBe(2);
+    });
+
+    it("should keep failed jobs longer than completed ones", async () => {
+      const completedId = await addCompleted("input1");
+      const failedId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" } })
+      );
+      await jobQueue.complete(failedId, undefined, new PermanentJobError("Model not found"));
+      const pendingId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input3" } })
+      );
+      await sleep(5);
+
+      jobQueue.retention = { completedDays: 0, failedDays: 7 };
+      expect(await jobQueue.cleanup()).toBe(1);
+      expect(await jobQueue.get(completedId)).toBeUndefined();
+      expect((await jobQueue.get(failedId))?.status).toBe(JobStatus.FAILED);
+      expect((await jobQueue.get(pendingId))?.status).toBe(JobStatus.PENDING);
+    });
+
+    it("should strip the payloads but keep the job", async () => {
+      const id = await addCompleted("input1");
+      await sleep(5);
+      jobQueue.retention = { completedDays: 0, stripPayloads: true };
+      expect(await jobQueue.cleanup()).toBe(1);
+      expect(await jobQueue.cleanup()).toBe(0);
+
+      const job = await jobQueue.get(id);
+      expect(job?.status).toBe(JobStatus.COMPLETED);
+      expect(job?.input).toEqual({});
+      expect(job?.output).toBeNull();
+      expect(job?.completedAt).toBeInstanceOf(Date);
+      expect(await jobQueue.outputForInput({ taskType: "task1", data: "input1" })).toBeNull();
+    });
+
+    it("should keep a job that a pending job depends on", async () => {
+      const firstId = await addCompleted("input1");
+      await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input2" }, dependsOn: [firstId] })
+      );
+      await sleep(5);
+      jobQueue.retention = { completedDays: 0 };
+      expect(await jobQueue.cleanup()).toBe(0);
+      expect((await jobQueue.get(firstId))?.status).toBe(JobStatus.COMPLETED);
+    });
+  });
+
+  describe("Schedules", () => {
+    let clock: FakeClock;
+
+    beforeEach(() => {
+      clock = new FakeClock();
+      jobQueue.clock = clock.now;
+    });
+
+    it("should create jobs on an interval from the input template", async () => {
+      const schedule = await jobQueue.schedule({
+        intervalMs: 60 * 1000,
+        input: { taskType: "task1", data: "input {{scheduledAt}}" },
+      });
+      expect(schedule.nextRunAt).toEqual(new Date("2025-01-01T00:01:00Z"));
+      expect(await jobQueue.materializeDueSchedules()).toHaveLength(0);
+
+      clock.advance(60 * 1000);
+      const [jobId] = await jobQueue.materializeDueSchedules();
+      const job = await jobQueue.get(jobId);
+      expect(job?.input.data).toBe("input 2025-01-01T00:01:00.000Z");
+      expect(job?.jobRunId).toBe(schedule.id);
+
+      const updated = await jobQueue.getSchedule(schedule.id);
+      expect(updated?.lastJobId).toEqual(jobId);
+      expect(updated?.lastRunAt).toEqual(new Date("2025-01-01T00:01:00Z"));
+      expect(updated?.nextRunAt).toEqual(new Date("2025-01-01T00:02:00Z"));
+    });
+
+    it("should follow a cron expression in its time zone without making up missed runs", async () => {
+      const schedule = await jobQueue.schedule({
+        cron: "30 2 * * *",
+        timezone: "America/New_York",
+        input: { taskType: "task1", data: "input1" },
+        overlap: "allow",
+      });
+      expect(schedule.nextRunAt).toEqual(new Date("2025-01-01T07:30:00Z"));
+
+      clock.set("2025-01-03T12:00:00Z");
+      expect(await jobQueue.materializeDueSchedules()).toHaveLength(1);
+      expect((await jobQueue.getSchedule(schedule.id))?.nextRunAt).toEqual(
+        new Date("2025-01-04T07:30:00Z")
+      );
+    });
+
+    it("should skip a run while the previous job is still pending", async () => {
+      await jobQueue.schedule({
+        intervalMs: 1000,
+        input: { taskType: "task1", data: "input1" },
+        overlap: "skip",
+      });
+      clock.advance(1000);
+      const [firstId] = await jobQueue.materializeDueSchedules();
+      clock.advance(1000);
+      expect(await jobQueue.materializeDueSchedules()).toHaveLength(0);
+
+      await jobQueue.complete(firstId, { result: "output1" });
+      clock.advance(1000);
+      expect(await jobQueue.materializeDueSchedules()).toHaveLength(1);
+    });
+
+    it("should queue a run behind the previous job", async () => {
+      await jobQueue.schedule({
+        intervalMs: 1000,
+        input: { taskType: "task1", data: "input {{scheduledAt}}" },
+        overlap: "queue",
+      });
+      clock.advance(1000);
+      const [firstId] = await jobQueue.materializeDueSchedules();
+      clock.advance(1000);
+      const [secondId] = await jobQueue.materializeDueSchedules();
+      expect((await jobQueue.get(secondId))?.dependsOn).toEqual([firstId]);
+    });
+
+    it("should list, pause, resume and delete schedules", async () => {
+      const schedule = await jobQueue.schedule({
+        id: "warm-up",
+        cron: "@hourly",
+        input: { taskType: "task1", data: "input1" },
+      });
+      expect((await jobQueue.listSchedules()).map((s) => s.id)).toEqual(["warm-up"]);
+
+      await jobQueue.pauseSchedule(schedule.id);
+      expect((await jobQueue.getSchedule(schedule.id))?.paused).toBe(true);
+      clock.advance(3 * 60 * 60 * 1000);
+      expect(await jobQueue.materializeDueSchedules()).toHaveLength(0);
+
+      await jobQueue.resumeSchedule(schedule.id);
+      const resumed = await jobQueue.getSchedule(schedule.id);
+      expect(resumed?.paused).toBe(false);
+      expect(resumed?.nextRunAt).toEqual(new Date("2025-01-01T04:00:00Z"));
+
+      await jobQueue.deleteSchedule(schedule.id);
+      expect(await jobQueue.listSchedules()).toHaveLength(0);
+    });
+
+    it("should reject schedules without a valid cron expression or interval", async () => {
+      const input = { taskType: "task1", data: "input1" };
+      expect(jobQueue.schedule({ input })).rejects.toThrow();
+      expect(jobQueue.schedule({ cron: "61 * * * *", input })).rejects.toThrow();
+    });
+
+    it("should stop looking for due schedules once the queue stops", async () => {
+      let checks = 0;
+      const materializeDueSchedules = jobQueue.materializeDueSchedules.bind(jobQueue);
+      jobQueue.materializeDueSchedules = async () => {
+        checks++;
+        return materializeDueSchedules();
+      };
+      jobQueue.schedulerIntervalMs = 5;
+      await jobQueue.start();
+      await sleep(20);
+      await jobQueue.stop();
+      const checked = checks;
+      expect(checked).toBeGreaterThan(0);
+      await sleep(20);
+      expect(checks).toBe(checked);
+    });
+  });
+
+  describe("Batching", () => {
+    let batches: unknown[][];
+
+    beforeEach(() => {
+      batches = [];
+      jobQueue.batching = { maxSize: 3, maxWaitMs: 20 };
+      const executeBatch = jobQueue.executeBatch.bind(jobQueue);
+      jobQueue.executeBatch = async (jobs, signal) => {
+        batches.push(jobs.map((job) => job.id));
+        return executeBatch(jobs, signal);
+      };
+    });
+
+    it("should run compatible jobs together and resolve each waiter", async () => {
+      const ids = await Promise.all(
+        [1, 2, 3, 4].map((i) =>
+          jobQueue.add(new TestJob({ input: { taskType: "task1", data: `input${i}`, batch: "b" } }))
+        )
+      );
+      const outputs = Promise.all(ids.map((id) => jobQueue.waitFor(id)));
+      await jobQueue.start();
+      expect(await outputs).toEqual([1, 2, 3, 4].map((i) => ({ result: `output${i}` })));
+      expect(batches).toEqual([ids.slice(0, 3), ids.slice(3)]);
+    });
+
+    it("should only batch jobs with the same batch key", async () => {
+      const ids = await Promise.all([
+        jobQueue.add(new TestJob({ input: { taskType: "task1", data: "input1", batch: "a" } })),
+        jobQueue.add(new TestJob({ input: { taskType: "task1", data: "input2", batch: "b" } })),
+        jobQueue.add(new TestJob({ input: { taskType: "task1", data: "input3" } })),
+      ]);
+      const outputs = Promise.all(ids.map((id) => jobQueue.waitFor(id)));
+      await jobQueue.start();
+      await outputs;
+      expect(batches).toEqual([[ids[0]], [ids[1]]]);
+    });
+
+    it("should fail only the jobs of a batch that failed", async () => {
+      const goodId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1", batch: "b" } })
+      );
+      const brokenId = await jobQueue.add(
+        new TestJob({ input: { taskType: "broken", data: "input2", batch: "b" } })
+      );
+      const good = jobQueue.waitFor(goodId);
+      const broken = jobQueue.waitFor(brokenId);
+      await jobQueue.start();
+      expect(await good).toEqual({ result: "output1" });
+      expect(broken).rejects.toMatchObject({ message: "Model not found" });
+      await sleep(20);
+      expect(batches).toEqual([[goodId, brokenId]]);
+      expect((await jobQueue.get(brokenId))?.status).toBe(JobStatus.FAILED);
+    });
+  });
+
+  describe("Notifications", () => {
+    let sent: JobNotification[];
+    let deliver: JobNotificationListener;
+
+    beforeEach(() => {
+      sent = [];
+      const notifier: IJobNotifier = {
+        pushes: true,
+        notify: async (notification) => {
+          sent.push(notification);
+        },
+        subscribe: async (_queue, listener) => {
+          deliver = listener;
+          return () => {};
+        },
+      };
+      jobQueue.notifier = notifier;
+    });
+
+    it("should announce added jobs, progress and completions", async () => {
+      await jobQueue.start();
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "progress", data: "input1" } })
+      );
+      await jobQueue.waitFor(jobId);
+      await sleep(2);
+
+      expect(sent.map((n) => n.type)).toEqual([
+        "job_added",
+        "job_progress",
+        "job_progress",
+        "job_progress",
+        "job_completed",
+      ]);
+      expect(sent.every((n) => n.queue === jobQueue.queue && n.jobId === jobId)).toBe(true);
+    });
+
+    it("should pass on progress pushed by other queues and ignore its own", async () => {
+      await jobQueue.start(QueueMode.CLIENT);
+      const jobId = await jobQueue.add(
+        new TestJob({ input: { taskType: "task1", data: "input1" } })
+      );
+      const updates: number[] = [];
+      jobQueue.onJobProgress(jobId, (progress) => updates.push(progress));
+
+      const progress = { type: "job_progress" as const, queue: jobQueue.queue, jobId };
+      deliver({ ...progress, source: "other", progress: 40, message: "", details: null });
+      deliver({ ...progress, source: sent[0].source, progress: 60, message: "", details: null });
+      await sleep(2);
+      expect(updates).toEqual([40]);
+    });
+  });
+
   describe("Progress Monitoring", () => {
     it("should emit progress events only when progress changes", async () => {
       await jobQueue.start();
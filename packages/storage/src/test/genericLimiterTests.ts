@@ -0,0 +1,98 @@
+//    *******************************************************************************
+//    *   ELLMERS: Embedding Large Language Model Experiential Retrieval Service    *
+//    *                                                                             *
+//    *   Copyright Steven Roussey <sroussey@gmail.com>                             *
+//    *   Licensed under the Apache License, Version 2.0 (the "License");           *
+//    *******************************************************************************
+
+import { it, expect, beforeEach } from "bun:test";
+import { ILimiter, sleep } from "ellmers-core";
+
+export function runGenericTokenBucketLimiterTests(
+  createLimiter: (capacity: number, refillPerMinute: number) => ILimiter
+) {
+  let limiter: ILimiter;
+
+  beforeEach(async () => {
+    // 3 tokens of burst, refilling one token every 50ms
+    limiter = createLimiter(3, 1200);
+    await limiter.clear();
+  });
+
+  it("should allow a burst up to the capacity", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter.canProceed()).toBe(true);
+      await limiter.recordJobStart();
+    }
+    expect(await limiter.canProceed()).toBe(false);
+  });
+
+  it("should refill tokens over time", async () => {
+    for (let i = 0; i < 3; i++) await limiter.recordJobStart();
+    expect(await limiter.canProceed()).toBe(false);
+    const nextAvailableTime = await limiter.getNextAvailableTime();
+    expect(nextAvailableTime.getTime()).toBeGreaterThan(Date.now());
+    expect(nextAvailableTime.getTime()).toBeLessThanOrEqual(Date.now() + 50);
+    await sleep(60);
+    expect(await limiter.canProceed()).toBe(true);
+  });
+
+  it("should take the cost of a job out of the bucket", async () => {
+    await limiter.recordJobStart(5);
+    expect(await limiter.canProceed()).toBe(false);
+    // 2 tokens in debt, so a whole token is back after 3 refills
+    const nextAvailableTime = await limiter.getNextAvailableTime();
+    expect(nextAvailableTime.getTime()).toBeGreaterThan(Date.now() + 100);
+  });
+
+  it("should respect an externally set next available time", async () => {
+    await limiter.setNextAvailableTime(new Date(Date.now() + 1000));
+    expect(await limiter.canProceed()).toBe(false);
+    await limiter.clear();
+    expect(await limiter.canProceed()).toBe(true);
+  });
+}
+
+export function runGenericCostLimiterTests(
+  createLimiter: (maxCost: number, windowSizeInMinutes: number) => ILimiter
+) {
+  let limiter: ILimiter;
+
+  beforeEach(async () => {
+    // a budget of 100 per 60ms
+    limiter = createLimiter(100, 0.001);
+    await limiter.clear();
+  });
+
+  it("should budget the cost of jobs within the window", async () => {
+    await limiter.recordJobStart(40);
+    expect(await limiter.canProceed()).toBe(true);
+    await limiter.recordJobStart(40);
+    expect(await limiter.canProceed()).toBe(true);
+    await limiter.recordJobStart(40);
+    expect(await limiter.canProceed()).toBe(false);
+  });
+
+  it("should count jobs without a cost as one", async () => {
+    for (let i = 0; i < 99; i++) await limiter.recordJobStart();
+    expect(await limiter.canProceed()).toBe(true);
+    await limiter.recordJobStart();
+    expect(await limiter.canProceed()).toBe(false);
+  });
+
+  it("should proceed again once enough cost left the window", async () => {
+    await limiter.recordJobStart(150);
+    expect(await limiter.canProceed()).toBe(false);
+    const nextAvailableTime = await limiter.getNextAvailableTime();
+    expect(nextAvailableTime.getTime()).toBeGreaterThan(Date.now());
+    await sleep(nextAvailableTime.getTime() - Date.now() + 10);
+    expect(await limiter.canProceed()).toBe(true);
+  });
+
+  it("should respect an externally set next available time", async () => {
+    await limiter.setNextAvailableTime(new Date(Date.now() + 1000));
+    expect(await limiter.canProceed()).toBe(false);
+    await limiter.clear();
+    expect(await limiter.canProceed()).toBe(true);
+  });
+}
@@ -60,4 +60,20 @@ export function runGenericTaskGraphJobQueueTests(
     const result = await Promise.race([task.run(), wait(10, "STOP")]);
     expect(result).toEqual("STOP");
   });
+  it("should reuse the job of an earlier task with the same input", async () => {
+    await jobQueue.start();
+    const first = new TestJobTask({ queue: jobQueue.queue, input: { a: 1, b: 2 } });
+    await first.run();
+    const second = new TestJobTask({ queue: jobQueue.queue, input: { a: 1, b: 2 } });
+    expect(await second.run()).toEqual({ result: 3 });
+    expect(second.config.currentJobId).toBe(first.config.currentJobId);
+
+    const third = new TestJobTask({
+      queue: jobQueue.queue,
+      input: { a: 1, b: 2 },
+      dedupe: "always-new",
+    });
+    await third.run();
+    expect(third.config.currentJobId).not.toBe(first.config.currentJobId);
+  });
 }